@@ -6,14 +6,28 @@ import { getAgentContext, getAuthenticatedSupabase, getAgentInfo, getRequestBody
 import { TokenEncryption } from '../../../utils/token-encryption.js';
 import { EnvironmentConfig } from '../../../utils/environment-config.js';
 import { globalHealthMonitor } from '../../../utils/health-monitor.js';
-import { globalRequestBatcher, globalCache } from '../../../utils/request-batcher.js';
+import { globalCache } from '../../../utils/request-batcher.js';
 import { v4 as generateId } from 'uuid';
 import {
     APIError,
     UserProgress,
+    PronunciationScoreStats,
     DatabaseLearningSession,
-    DatabaseUserFlashCard,
 } from '../../../types/index.js';
+import { flashCardService, formatFlashCard } from '../../../services/flashcard.service.js';
+import { flashCardGenerationService } from '../../../services/flashcard-generation.service.js';
+import { progressService } from '../../../services/progress.service.js';
+import { pronunciationStatsService } from '../../../services/pronunciation-stats.service.js';
+import { pronunciationAttemptService, formatPronunciationAttempt, RecordedAttempt } from '../../../services/pronunciation-attempt.service.js';
+import { drillService } from '../../../services/drill.service.js';
+import { pronunciationService } from '../../../services/pronunciation.service.js';
+import { audioPreferencesService } from '../../../services/audio-preferences.service.js';
+import { achievementService, UnlockedAchievement } from '../../../services/achievement.service.js';
+import { agentUpdateQueueService, formatBatchStatus } from '../../../services/agent-update-queue.service.js';
+import { phraseEnhancementService } from '../../../services/phrase-enhancement.service.js';
+import { topicService } from '../../../services/topic.service.js';
+import { sessionDigestService } from '../../../services/session-digest.service.js';
+import { isFlashCardType } from '../schemas/flashcards.schemas.js';
 
 type EncryptionEnv = {
     JWT_SECRET?: string;
@@ -262,6 +276,7 @@ export class AgentController {
         const updateData = await c.req.json();
         const agentContext = await getAgentContext(c);
         const agentInfo = getAgentInfo(c);
+        const supabase = getAuthenticatedSupabase(c);
         const startTime = Date.now();
 
         if (!agentContext) {
@@ -276,18 +291,15 @@ export class AgentController {
         }
 
         try {
-            // Use batching for progress updates to optimize database operations
-            const batchRequest = {
+            // Write to the durable outbox before acknowledging; the drain job batches and applies it
+            const pendingUpdate = await agentUpdateQueueService.enqueue(supabase, {
                 id: generateId(),
-                type: 'progress_update' as const,
+                type: 'progress_update',
                 data: updateData.data,
                 userId: updateData.userId,
                 sessionId: updateData.sessionId,
-                timestamp: Date.now()
-            };
-
-            // Add to batch queue for processing
-            await globalRequestBatcher.addToBatch(batchRequest);
+                agentId: agentInfo.agentId || agentContext.agentId,
+            });
 
             // Record request for monitoring
             globalHealthMonitor.recordRequest(true, Date.now() - startTime);
@@ -303,7 +315,7 @@ export class AgentController {
                 agentId: agentInfo.agentId || agentContext.agentId,
                 timestamp: new Date().toISOString(),
                 batched: true,
-                batchId: batchRequest.id,
+                batchId: pendingUpdate.id,
                 agent_context_initialized: agentContext.isAutoInitialized || false
             });
         } catch (err) {
@@ -322,6 +334,195 @@ export class AgentController {
         }
     }
 
+    /**
+     * Apply queued agent updates from the durable outbox (cron handler)
+     */
+    static async drainPendingUpdates(c: Context) {
+        const { limit } = c.req.query();
+        const supabase = getAuthenticatedSupabase(c);
+        const startTime = Date.now();
+
+        try {
+            const result = await agentUpdateQueueService.drain(supabase, {
+                limit: Math.min(parseInt(limit as string) || 50, 200),
+            });
+
+            globalHealthMonitor.recordRequest(true, Date.now() - startTime);
+
+            return c.json({
+                success: true,
+                ...result,
+                duration_ms: Date.now() - startTime,
+                timestamp: new Date().toISOString()
+            });
+        } catch (err) {
+            globalHealthMonitor.recordRequest(false, Date.now() - startTime);
+
+            console.error('Pending agent update drain error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'DRAIN_FAILED',
+                    message: 'Failed to drain pending agent updates'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Enhance phrases queued with placeholder data (cron handler)
+     */
+    static async processEnhancementJobs(c: Context) {
+        const { limit } = c.req.query();
+        const supabase = getAuthenticatedSupabase(c);
+        const startTime = Date.now();
+
+        try {
+            const result = await phraseEnhancementService.processQueue(supabase, {
+                limit: Math.min(parseInt(limit as string) || 50, 200),
+            });
+
+            globalHealthMonitor.recordRequest(true, Date.now() - startTime);
+
+            return c.json({
+                success: true,
+                ...result,
+                duration_ms: Date.now() - startTime,
+                timestamp: new Date().toISOString()
+            });
+        } catch (err) {
+            globalHealthMonitor.recordRequest(false, Date.now() - startTime);
+
+            console.error('Phrase enhancement run error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'ENHANCEMENT_RUN_FAILED',
+                    message: 'Failed to process phrase enhancement jobs'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Get the status of a queued agent update by batch ID
+     */
+    static async getBatchStatus(c: Context) {
+        const batchId = c.req.param('batch_id');
+        const userId = c.req.query('user_id');
+        const supabase = getAuthenticatedSupabase(c);
+        const startTime = Date.now();
+
+        if (!userId) {
+            const error: APIError = {
+                error: {
+                    code: 'MISSING_USER_ID',
+                    message: 'user_id query parameter is required'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 400);
+        }
+
+        try {
+            // Scoped to the user the agent is acting for; another user's batch is reported as not found
+            const [update] = await agentUpdateQueueService.getUpdates(supabase, userId, [batchId]);
+
+            if (!update) {
+                const error: APIError = {
+                    error: {
+                        code: 'BATCH_NOT_FOUND',
+                        message: `No queued update found for batch ${batchId}`
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 404);
+            }
+
+            globalHealthMonitor.recordRequest(true, Date.now() - startTime);
+
+            return c.json({
+                success: true as const,
+                batch: formatBatchStatus(update)
+            });
+        } catch (err) {
+            globalHealthMonitor.recordRequest(false, Date.now() - startTime);
+
+            console.error('Batch status lookup error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'SERVER_ERROR',
+                    message: 'Internal server error'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Get the status of several queued agent updates at once
+     */
+    static async getBatchStatuses(c: Context) {
+        const { ids, user_id: userId } = c.req.query();
+        const supabase = getAuthenticatedSupabase(c);
+        const startTime = Date.now();
+
+        if (!userId) {
+            const error: APIError = {
+                error: {
+                    code: 'MISSING_USER_ID',
+                    message: 'user_id query parameter is required'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 400);
+        }
+
+        const batchIds = Array.from(new Set((ids || '').split(',').map(id => id.trim()).filter(Boolean)));
+
+        if (batchIds.length === 0 || batchIds.length > 50) {
+            const error: APIError = {
+                error: {
+                    code: 'INVALID_BATCH_IDS',
+                    message: 'Provide between 1 and 50 comma-separated batch IDs'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 400);
+        }
+
+        // Batch IDs are UUIDs; anything else cannot exist, and would make the lookup query fail
+        const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+        try {
+            const updates = await agentUpdateQueueService.getUpdates(supabase, userId, batchIds.filter(id => uuidRegex.test(id)));
+            const foundIds = new Set(updates.map(update => update.id));
+
+            globalHealthMonitor.recordRequest(true, Date.now() - startTime);
+
+            return c.json({
+                success: true as const,
+                batches: updates.map(formatBatchStatus),
+                not_found: batchIds.filter(id => !foundIds.has(id))
+            });
+        } catch (err) {
+            globalHealthMonitor.recordRequest(false, Date.now() - startTime);
+
+            console.error('Batch status lookup error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'SERVER_ERROR',
+                    message: 'Internal server error'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
     /**
      * Create a learning session on behalf of a user
      */
@@ -395,6 +596,9 @@ export class AgentController {
                 });
             }
 
+            // Topic IDs and name variants are stored as canonical topic names
+            sessionData.topics_covered = await topicService.canonicalLabels(supabase, sessionData.topics_covered);
+
             // Create the learning session
             const newSession: Omit<DatabaseLearningSession, 'id' | 'created_at'> = {
                 user_id: sessionData.userId,
@@ -431,8 +635,52 @@ export class AgentController {
                 return c.json(error, 500);
             }
 
-            // Update user progress
-            await AgentController.updateUserProgress(supabase, sessionData, sessionId);
+            // Roll the session up into the user's progress
+            let progress: UserProgress | undefined;
+            try {
+                progress = await progressService.applySessionDelta(supabase, sessionData.userId, {
+                    sessionId,
+                    durationMinutes: sessionData.duration_minutes,
+                    newVocabulary: sessionData.new_vocabulary,
+                    pronunciationPracticeCount: sessionData.pronunciation_practice_count,
+                    grammarPoints: sessionData.grammar_points,
+                    achievements: sessionData.achievements,
+                    topicsCovered: sessionData.topics_covered,
+                });
+            } catch (progressError) {
+                console.error('Progress update after session failed:', progressError);
+            }
+
+            // Add new session vocabulary to the user's review deck
+            let flashCardsCreated = 0;
+            try {
+                const cards = await flashCardGenerationService.generateFromSessionVocabulary(
+                    supabase,
+                    sessionData.userId,
+                    sessionId,
+                    sessionData.new_vocabulary,
+                    { createdBy: 'agent', agentId: agentInfo.agentId || agentContext.agentId }
+                );
+                flashCardsCreated = cards.length;
+            } catch (cardError) {
+                console.error('Flash card generation from session failed:', cardError);
+            }
+
+            // Unlock any achievements earned by this session
+            let newAchievements: UnlockedAchievement[] = [];
+            try {
+                newAchievements = await achievementService.evaluate(supabase, sessionData.userId, 'session');
+            } catch (achievementError) {
+                console.error('Achievement evaluation after session failed:', achievementError);
+            }
+
+            // Queue a digest so the user's summary can be updated without a full rebuild;
+            // it is written on the next summary read, keeping the model call off this request
+            try {
+                await sessionDigestService.queueDigest(supabase, sessionData.userId, sessionId);
+            } catch (digestError) {
+                console.error('Queueing session digest failed:', digestError);
+            }
 
             // Log agent action for audit
             console.log(`Session created by agent ${agentInfo.agentId || agentContext.agentId} for user ${sessionData.userId}`);
@@ -443,7 +691,10 @@ export class AgentController {
                 created_at: createdSession.created_at,
                 created_by: 'agent' as const,
                 agent_id: agentInfo.agentId || agentContext.agentId,
-                agent_context_initialized: agentContext.isAutoInitialized || false
+                agent_context_initialized: agentContext.isAutoInitialized || false,
+                flash_cards_created: flashCardsCreated,
+                new_achievements: newAchievements,
+                progress
             });
         } catch (err) {
             console.error('Agent session creation error:', err);
@@ -462,10 +713,12 @@ export class AgentController {
      * Create a flash card for a user
      */
     static async createUserFlashCard(c: Context) {
+        const userId = c.req.param('user_id');
         const flashCardData = await c.req.json();
         const agentContext = await getAgentContext(c);
         const agentInfo = getAgentInfo(c);
         const supabase = getAuthenticatedSupabase(c);
+        const startTime = Date.now();
 
         if (!agentContext) {
             const error: APIError = {
@@ -478,48 +731,240 @@ export class AgentController {
             return c.json(error, 500);
         }
 
+        if (flashCardData.userId && flashCardData.userId !== userId) {
+            const error: APIError = {
+                error: {
+                    code: 'USER_ID_MISMATCH',
+                    message: 'userId in request body must match user_id path parameter'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 400);
+        }
+
         try {
-            // Create the flash card
-            const newFlashCard: Omit<DatabaseUserFlashCard, 'id' | 'created_at'> = {
-                user_id: flashCardData.userId,
-                card_id: flashCardData.cardId,
-                card_type: flashCardData.cardType,
-                card_data: flashCardData.cardData,
-                created_by: 'agent' as const,
-                agent_id: agentInfo.agentId || agentContext.agentId,
+            const agentId = agentInfo.agentId || agentContext.agentId;
+            const card = await flashCardService.createCard(supabase, userId, {
+                cardId: flashCardData.cardId,
+                cardType: flashCardData.cardType,
+                cardData: flashCardData.cardData,
+                createdBy: 'agent',
+                agentId,
+            });
+
+            // Record successful request
+            globalHealthMonitor.recordRequest(true, Date.now() - startTime);
+
+            // Log agent action for audit
+            console.log(`Flash card ${card.card_id} created by agent ${agentId} for user ${userId}`);
+
+            return c.json({
+                success: true,
+                card: formatFlashCard(card)
+            }, 201);
+        } catch (err) {
+            // Record failed request
+            globalHealthMonitor.recordRequest(false, Date.now() - startTime);
+
+            console.error('Agent flash card creation error:', err);
+
+            if (err instanceof Error && err.message.includes('already exists')) {
+                const error: APIError = {
+                    error: {
+                        code: 'FLASH_CARD_EXISTS',
+                        message: 'A flash card with this cardId already exists'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 409);
+            }
+
+            const error: APIError = {
+                error: {
+                    code: 'FLASH_CARD_CREATION_FAILED',
+                    message: 'Failed to create flash card'
+                },
+                timestamp: new Date().toISOString()
             };
+            return c.json(error, 500);
+        }
+    }
 
-            const { data: createdFlashCard, error: flashCardError } = await supabase
-                .from('user_flash_cards')
-                .insert(newFlashCard)
-                .select('card_id, created_at')
-                .single();
+    /**
+     * List a user's flash cards
+     */
+    static async listUserFlashCards(c: Context) {
+        const userId = c.req.param('user_id');
+        const { card_type, limit, offset } = c.req.query();
+        const agentContext = await getAgentContext(c);
+        const supabase = getAuthenticatedSupabase(c);
+        const startTime = Date.now();
 
-            if (flashCardError) {
-                console.error('Flash card creation error:', flashCardError);
+        if (!agentContext) {
+            const error: APIError = {
+                error: {
+                    code: 'CONTEXT_INITIALIZATION_FAILED',
+                    message: 'Failed to initialize agent context'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+
+        try {
+            const limitNum = parseInt(limit as string) || 50;
+            const offsetNum = parseInt(offset as string) || 0;
+
+            const { cards, totalCount } = await flashCardService.listCards(supabase, userId, {
+                cardType: isFlashCardType(card_type) ? card_type : undefined,
+                limit: limitNum,
+                offset: offsetNum,
+            });
+
+            // Record successful request
+            globalHealthMonitor.recordRequest(true, Date.now() - startTime);
+
+            return c.json({
+                success: true,
+                cards: cards.map(formatFlashCard),
+                total_count: totalCount,
+                has_more: totalCount > offsetNum + limitNum
+            });
+        } catch (err) {
+            // Record failed request
+            globalHealthMonitor.recordRequest(false, Date.now() - startTime);
+
+            console.error('Agent flash card list error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'SERVER_ERROR',
+                    message: 'Internal server error'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Update a user's flash card
+     */
+    static async updateUserFlashCard(c: Context) {
+        const userId = c.req.param('user_id');
+        const cardId = c.req.param('card_id');
+        const updateData = await c.req.json();
+        const agentContext = await getAgentContext(c);
+        const agentInfo = getAgentInfo(c);
+        const supabase = getAuthenticatedSupabase(c);
+        const startTime = Date.now();
+
+        if (!agentContext) {
+            const error: APIError = {
+                error: {
+                    code: 'CONTEXT_INITIALIZATION_FAILED',
+                    message: 'Failed to initialize agent context'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+
+        try {
+            const card = await flashCardService.updateCard(supabase, userId, cardId, {
+                cardType: updateData.card_type,
+                cardData: updateData.card_data,
+                resetSchedule: updateData.reset_schedule,
+            });
+
+            if (!card) {
                 const error: APIError = {
                     error: {
-                        code: 'FLASH_CARD_CREATION_FAILED',
-                        message: 'Failed to create flash card'
+                        code: 'FLASH_CARD_NOT_FOUND',
+                        message: 'Flash card not found'
                     },
                     timestamp: new Date().toISOString()
                 };
-                return c.json(error, 500);
+                return c.json(error, 404);
             }
 
+            // Record successful request
+            globalHealthMonitor.recordRequest(true, Date.now() - startTime);
+
             // Log agent action for audit
-            console.log(`Flash card created by agent ${agentInfo.agentId || agentContext.agentId} for user ${flashCardData.userId}`);
+            console.log(`Flash card ${cardId} updated by agent ${agentInfo.agentId || agentContext.agentId} for user ${userId}`);
 
             return c.json({
                 success: true,
-                card_id: createdFlashCard.card_id,
-                created_at: createdFlashCard.created_at,
-                created_by: 'agent' as const,
-                agent_id: agentInfo.agentId || agentContext.agentId,
-                agent_context_initialized: agentContext.isAutoInitialized || false
+                card: formatFlashCard(card)
             });
         } catch (err) {
-            console.error('Agent flash card creation error:', err);
+            // Record failed request
+            globalHealthMonitor.recordRequest(false, Date.now() - startTime);
+
+            console.error('Agent flash card update error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'SERVER_ERROR',
+                    message: 'Internal server error'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Delete a user's flash card
+     */
+    static async deleteUserFlashCard(c: Context) {
+        const userId = c.req.param('user_id');
+        const cardId = c.req.param('card_id');
+        const agentContext = await getAgentContext(c);
+        const agentInfo = getAgentInfo(c);
+        const supabase = getAuthenticatedSupabase(c);
+        const startTime = Date.now();
+
+        if (!agentContext) {
+            const error: APIError = {
+                error: {
+                    code: 'CONTEXT_INITIALIZATION_FAILED',
+                    message: 'Failed to initialize agent context'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+
+        try {
+            const deleted = await flashCardService.deleteCard(supabase, userId, cardId);
+
+            if (!deleted) {
+                const error: APIError = {
+                    error: {
+                        code: 'FLASH_CARD_NOT_FOUND',
+                        message: 'Flash card not found'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 404);
+            }
+
+            // Record successful request
+            globalHealthMonitor.recordRequest(true, Date.now() - startTime);
+
+            // Log agent action for audit
+            console.log(`Flash card ${cardId} deleted by agent ${agentInfo.agentId || agentContext.agentId} for user ${userId}`);
+
+            return c.json({
+                success: true,
+                card_id: cardId,
+                deleted_at: new Date().toISOString()
+            });
+        } catch (err) {
+            // Record failed request
+            globalHealthMonitor.recordRequest(false, Date.now() - startTime);
+
+            console.error('Agent flash card deletion error:', err);
             const error: APIError = {
                 error: {
                     code: 'SERVER_ERROR',
@@ -615,6 +1060,12 @@ export class AgentController {
 
                 if (requestBody.preferences) {
                     updateData.preferences = requestBody.preferences;
+                    if (Array.isArray(requestBody.preferences.preferred_topics)) {
+                        updateData.preferences.preferred_topics = await topicService.canonicalLabels(
+                            supabase,
+                            requestBody.preferences.preferred_topics
+                        );
+                    }
                 }
                 if (requestBody.progress) {
                     updateData.progress = requestBody.progress;
@@ -883,97 +1334,58 @@ export class AgentController {
                 return c.json(error, 400);
             }
 
-            // Check for existing evaluation (same user + kanji + romaji + translation)
-            const { data: existingEvaluation } = await supabase
-                .from('pronunciation_evaluations')
-                .select('id, practice_count, created_at, updated_at')
-                .eq('user_id', userId)
-                .eq('kanji', evaluation.kanji)
-                .eq('romaji', evaluation.romaji)
-                .eq('translation', evaluation.translation)
-                .single();
-
-            let resultEvaluation;
-            let isUpdate = false;
-            let practiceCount = 1;
-
-            if (existingEvaluation) {
-                // Update existing evaluation with incremented practice count
-                isUpdate = true;
-                practiceCount = (existingEvaluation.practice_count || 0) + 1;
-
-                const updateData = {
-                    user_pronunciation: evaluation.user_pronunciation,
-                    evaluation_score: evaluation.evaluation_score || null,
-                    evaluation_feedback: evaluation.evaluation_feedback || null,
-                    evaluation_details: evaluation.evaluation_details || null,
-                    topic: evaluation.topic, // Allow topic updates
-                    practice_count: practiceCount,
-                    updated_at: new Date().toISOString(),
-                };
-
-                const { data: updatedEvaluation, error: updateError } = await supabase
-                    .from('pronunciation_evaluations')
-                    .update(updateData)
-                    .eq('id', existingEvaluation.id)
-                    .select('id, created_at, updated_at, practice_count')
-                    .single();
-
-                if (updateError) {
-                    console.error('Pronunciation evaluation update error:', updateError);
-                    const error: APIError = {
-                        error: {
-                            code: 'UPDATE_FAILED',
-                            message: 'Failed to update pronunciation evaluation'
-                        },
-                        timestamp: new Date().toISOString()
-                    };
-                    return c.json(error, 500);
-                }
-
-                resultEvaluation = updatedEvaluation;
-            } else {
-                // Create new pronunciation evaluation
-                const newEvaluation = {
-                    user_id: userId,
-                    kanji: evaluation.kanji,
-                    romaji: evaluation.romaji,
-                    translation: evaluation.translation,
-                    topic: evaluation.topic,
-                    user_pronunciation: evaluation.user_pronunciation,
-                    evaluation_score: evaluation.evaluation_score || null,
-                    evaluation_feedback: evaluation.evaluation_feedback || null,
-                    evaluation_details: evaluation.evaluation_details || null,
-                    practice_count: 1,
+            // Record the attempt; the phrase row (same user + kanji + romaji + translation) keeps the score summary
+            let recorded: RecordedAttempt;
+            try {
+                recorded = await pronunciationAttemptService.recordAttempt(supabase, userId, evaluation, {
+                    sessionId: evaluationData.sessionId,
+                    agentId: agentInfo.agentId || agentContext.agentId,
+                });
+            } catch (recordError) {
+                console.error('Pronunciation attempt recording error:', recordError);
+                const message = recordError instanceof Error ? recordError.message : '';
+                const isInvalid = message.includes('null value');
+                const error: APIError = {
+                    error: {
+                        code: isInvalid ? 'INVALID_EVALUATION_DATA' : 'UPDATE_FAILED',
+                        message: isInvalid
+                            ? 'Required fields missing: kanji, romaji, translation'
+                            : 'Failed to store pronunciation evaluation'
+                    },
+                    timestamp: new Date().toISOString()
                 };
+                return c.json(error, isInvalid ? 400 : 500);
+            }
 
-                const { data: createdEvaluation, error: insertError } = await supabase
-                    .from('pronunciation_evaluations')
-                    .insert(newEvaluation)
-                    .select('id, created_at, updated_at, practice_count')
-                    .single();
+            const isUpdate = recorded.is_update;
+            const practiceCount = recorded.practice_count;
 
-                if (insertError) {
-                    console.error('Pronunciation evaluation creation error:', insertError);
-                    const error: APIError = {
-                        error: {
-                            code: 'INVALID_EVALUATION_DATA',
-                            message: 'Required fields missing: kanji, romaji, translation'
-                        },
-                        timestamp: new Date().toISOString()
-                    };
-                    return c.json(error, 400);
-                }
+            // Turn weak phrases into review cards (never fails the evaluation request)
+            let flashCardsCreated = 0;
+            try {
+                const cards = await flashCardGenerationService.generateFromEvaluation(supabase, userId, evaluation, {
+                    createdBy: 'agent',
+                    agentId: agentInfo.agentId || agentContext.agentId,
+                });
+                flashCardsCreated = cards.length;
+            } catch (cardError) {
+                console.error('Flash card generation from evaluation failed:', cardError);
+            }
 
-                resultEvaluation = createdEvaluation;
+            // Unlock any pronunciation achievements
+            let newAchievements: UnlockedAchievement[] = [];
+            try {
+                newAchievements = await achievementService.evaluate(supabase, userId, 'evaluation');
+            } catch (achievementError) {
+                console.error('Achievement evaluation after pronunciation evaluation failed:', achievementError);
             }
 
             // Generate audio if requested
             let audioData: string | undefined;
             if (evaluationData.generate_audio) {
                 try {
-                    const { pronunciationService } = await import('../../../services/pronunciation.service.js');
-                    audioData = await pronunciationService.generateAudioBase64(evaluation.romaji, evaluation.kanji);
+                    const audioOptions = await audioPreferencesService.resolve(supabase, userId, evaluationData.audio_options);
+                    audioData = await pronunciationService.generateAudioBase64(evaluation.romaji, evaluation.kanji, audioOptions);
                 } catch (audioError) {
                     console.error('Audio generation failed:', audioError);
                     // Don't fail the whole request if audio generation fails
@@ -989,14 +1401,21 @@ export class AgentController {
 
             const response: any = {
                 success: true,
-                evaluation_id: resultEvaluation.id,
-                created_at: resultEvaluation.created_at,
-                updated_at: resultEvaluation.updated_at || resultEvaluation.created_at,
+                evaluation_id: recorded.evaluation_id,
+                attempt_id: recorded.attempt_id,
+                attempt_number: recorded.attempt_number,
+                created_at: recorded.created_at,
+                updated_at: recorded.updated_at || recorded.created_at,
                 message: isUpdate
                     ? `Pronunciation evaluation updated successfully (practice count: ${practiceCount})`
                     : 'Pronunciation evaluation created successfully',
                 is_update: isUpdate,
                 practice_count: practiceCount,
+                best_score: recorded.best_score,
+                latest_score: recorded.latest_score,
+                average_score: recorded.average_score,
+                flash_cards_created: flashCardsCreated,
+                new_achievements: newAchievements,
             };
 
             if (audioData) {
@@ -1051,7 +1470,9 @@ export class AgentController {
                 .order('created_at', { ascending: false });
 
             if (topic) {
-                query = query.eq('topic', topic);
+                // Topic ID or any spelling of a topic name
+                const topicFilter = await topicService.filterFor(supabase, topic);
+                query = query.eq(topicFilter.column, topicFilter.value);
             }
 
             if (since_date) {
@@ -1117,6 +1538,111 @@ export class AgentController {
         }
     }
 
+    /**
+     * Get every attempt at one evaluated phrase
+     */
+    static async getPronunciationAttempts(c: Context) {
+        const userId = c.req.param('user_id');
+        const evaluationId = c.req.param('evaluation_id');
+        const agentContext = await getAgentContext(c);
+        const agentInfo = getAgentInfo(c);
+        const supabase = getAuthenticatedSupabase(c);
+        const startTime = Date.now();
+
+        if (!agentContext) {
+            const error: APIError = {
+                error: {
+                    code: 'CONTEXT_INITIALIZATION_FAILED',
+                    message: 'Failed to initialize agent context'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+
+        try {
+            const { evaluation, attempts, weakest_sounds } = await pronunciationAttemptService.listAttempts(supabase, userId, evaluationId);
+
+            globalHealthMonitor.recordRequest(true, Date.now() - startTime);
+
+            console.log(`Pronunciation attempts for evaluation ${evaluationId} accessed by agent ${agentInfo.agentId || agentContext.agentId} for user ${userId}`);
+
+            return c.json({
+                success: true,
+                evaluation,
+                attempts: attempts.map(formatPronunciationAttempt),
+                weakest_sounds
+            });
+        } catch (err) {
+            globalHealthMonitor.recordRequest(false, Date.now() - startTime);
+
+            const isNotFound = err instanceof Error && err.message.includes('not found');
+            if (!isNotFound) {
+                console.error('Agent pronunciation attempts retrieval error:', err);
+            }
+            const error: APIError = {
+                error: {
+                    code: isNotFound ? 'EVALUATION_NOT_FOUND' : 'SERVER_ERROR',
+                    message: isNotFound ? 'Pronunciation evaluation not found' : 'Internal server error'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, isNotFound ? 404 : 500);
+        }
+    }
+
+    /**
+     * Build a ranked drill set targeting the user's weakest sounds and topics
+     */
+    static async getDrills(c: Context) {
+        const userId = c.req.param('user_id');
+        const { limit, days_back, include_audio } = c.req.query();
+        const agentContext = await getAgentContext(c);
+        const agentInfo = getAgentInfo(c);
+        const supabase = getAuthenticatedSupabase(c);
+        const startTime = Date.now();
+
+        if (!agentContext) {
+            const error: APIError = {
+                error: {
+                    code: 'CONTEXT_INITIALIZATION_FAILED',
+                    message: 'Failed to initialize agent context'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+
+        try {
+            const drillSet = await drillService.buildDrillSet(supabase, userId, {
+                limit: Math.min(parseInt(limit as string) || 10, 30),
+                daysBack: parseInt(days_back as string) || 30,
+                includeAudio: include_audio === 'true',
+            });
+
+            globalHealthMonitor.recordRequest(true, Date.now() - startTime);
+
+            console.log(`${drillSet.drills.length} drills generated by agent ${agentInfo.agentId || agentContext.agentId} for user ${userId}`);
+
+            return c.json({
+                success: true,
+                ...drillSet,
+                generated_at: new Date().toISOString()
+            });
+        } catch (err) {
+            globalHealthMonitor.recordRequest(false, Date.now() - startTime);
+            console.error('Agent drill generation error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'SERVER_ERROR',
+                    message: 'Internal server error'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
     /**
      * Get evaluated phrases for LLM context (cached)
      */
@@ -1158,7 +1684,9 @@ export class AgentController {
                         .order('created_at', { ascending: false });
 
                     if (topic) {
-                        query = query.eq('topic', topic);
+                        // Topic ID or any spelling of a topic name
+                        const topicFilter = await topicService.filterFor(supabase, topic);
+                        query = query.eq(topicFilter.column, topicFilter.value);
                     }
 
                     const { data: evaluations, error: queryError } = await query;
@@ -1293,6 +1821,14 @@ export class AgentController {
                         throw new Error(`Bootstrap query failed: ${error.message}`);
                     }
 
+                    let pronunciationStats: PronunciationScoreStats | null = null;
+                    try {
+                        pronunciationStats = await pronunciationStatsService.getStats(supabase, userId);
+                        totalQueries += 1;
+                    } catch (statsError) {
+                        console.error('Pronunciation stats for bootstrap failed:', statsError);
+                    }
+
                     if (!data || data.length === 0) {
                         throw new Error('User not found or no data available');
                     }
@@ -1336,6 +1872,7 @@ export class AgentController {
                             session_count: result.session_count || 0,
                             has_user_context: !!result.user_context
                         },
+                        pronunciation_stats: pronunciationStats,
                         conversations: result.conversations || [],
                         evaluations: result.evaluations || [],
                         raw_data: include_raw_data === 'true' ? {
@@ -1386,6 +1923,8 @@ export class AgentController {
                     }
                 },
 
+                pronunciation_stats: bootstrapData.pronunciation_stats,
+
                 user_auth: {
                     display_name: bootstrapData.user.display_name,
                     email: bootstrapData.user.email,
@@ -1462,9 +2001,11 @@ export class AgentController {
         // Calculate dynamic stats
         const level = context?.preferences?.learning_level || 'unknown';
         const streak = context?.progress?.current_streak || 0;
-        const avgScore = evaluations.length > 0
-            ? (evaluations.reduce((sum: number, e: any) => sum + (e.evaluation_score || 0), 0) / evaluations.length).toFixed(1)
-            : '0';
+        const avgScore = bootstrapData.pronunciation_stats
+            ? Number(bootstrapData.pronunciation_stats.pronunciation_score_avg).toFixed(1)
+            : evaluations.length > 0
+                ? (evaluations.reduce((sum: number, e: any) => sum + (e.evaluation_score || 0), 0) / evaluations.length).toFixed(1)
+                : '0';
 
         // Identify strengths and gaps from recent performance
         const recentTopics = [...new Set(evaluations.slice(0, 10).map((e: any) => e.topic))].slice(0, 3);
@@ -1478,7 +2019,7 @@ export class AgentController {
         // Build token-efficient context (target: ~50 tokens)
         const compactSummary = [
             `USER: ${user.display_name || 'Student'} (${level.toUpperCase()}, ${streak}d streak)`,
-            `STATS: ${bootstrapData.summary_data.conversation_count} convos, ${bootstrapData.summary_data.evaluation_count} evals, ${avgScore}/10 avg`,
+            `STATS: ${bootstrapData.summary_data.conversation_count} convos, ${bootstrapData.summary_data.evaluation_count} evals, ${avgScore}/100 avg`,
             `TOPICS: ${recentTopics.join(', ') || 'general'}`,
             goodScores.length > 0 ? `STRONG: ${[...new Set(goodScores)].slice(0, 3).join(', ')}` : '',
             weakScores.length > 0 ? `FOCUS: ${[...new Set(weakScores)].slice(0, 3).join(', ')}` : '',
@@ -1519,81 +2060,4 @@ export class AgentController {
             .slice(0, limit)
             .map(([word]) => word);
     }
-
-    /**
-     * Helper method to update user progress after session creation
-     */
-    private static async updateUserProgress(supabase: any, sessionData: any, sessionId: string) {
-        const { data: currentContext, error: contextError } = await supabase
-            .from('user_contexts')
-            .select('progress, session_history')
-            .eq('user_id', sessionData.userId)
-            .single();
-
-        if (!contextError && currentContext) {
-            const currentProgress = currentContext.progress as UserProgress;
-            const currentSessionHistory = currentContext.session_history as any[] || [];
-
-            // Calculate streak
-            const today = new Date().toISOString().split('T')[0];
-            const lastSessionDate = currentProgress.last_session_date;
-            let newStreak = currentProgress.current_streak;
-
-            if (lastSessionDate) {
-                const lastDate = new Date(lastSessionDate);
-                const yesterday = new Date();
-                yesterday.setDate(yesterday.getDate() - 1);
-
-                if (lastDate.toISOString().split('T')[0] === yesterday.toISOString().split('T')[0]) {
-                    newStreak += 1;
-                } else if (lastDate.toISOString().split('T')[0] !== today) {
-                    newStreak = 1;
-                }
-            } else {
-                newStreak = 1;
-            }
-
-            const updatedProgress: UserProgress = {
-                total_sessions: currentProgress.total_sessions + 1,
-                total_conversation_time: currentProgress.total_conversation_time + sessionData.duration_minutes,
-                words_learned: currentProgress.words_learned + sessionData.new_vocabulary.length,
-                phrases_practiced: currentProgress.phrases_practiced + sessionData.pronunciation_practice_count,
-                pronunciation_score_avg: currentProgress.pronunciation_score_avg,
-                grammar_points_covered: [
-                    ...new Set([
-                        ...currentProgress.grammar_points_covered,
-                        ...sessionData.grammar_points
-                    ])
-                ],
-                achievements_unlocked: [
-                    ...new Set([
-                        ...currentProgress.achievements_unlocked,
-                        ...sessionData.achievements
-                    ])
-                ],
-                last_session_date: new Date().toISOString(),
-                current_streak: newStreak,
-            };
-
-            const newSessionHistoryItem = {
-                session_id: sessionId,
-                date: new Date().toISOString(),
-                duration_minutes: sessionData.duration_minutes,
-                topics_covered: sessionData.topics_covered,
-            };
-
-            const updatedSessionHistory = [
-                newSessionHistoryItem,
-                ...currentSessionHistory.slice(0, 49)
-            ];
-
-            await supabase
-                .from('user_contexts')
-                .update({
-                    progress: updatedProgress,
-                    session_history: updatedSessionHistory,
-                })
-                .eq('user_id', sessionData.userId);
-        }
-    }
 }
@@ -1,7 +1,14 @@
 import type { Context } from 'hono';
-import { getAuthenticatedSupabase } from '../../../middleware/index.js';
+import { getAuthenticatedSupabase, extractUserId, isAgentRequest, auditAuthorizationFailure } from '../../../middleware/index.js';
 import { conversationSummaryService } from '../../../services/conversation-summary.service.js';
+import { conversationTranscriptService } from '../../../services/conversation-transcript.service.js';
+import { ConversationEntry, ConversationEntrySchema } from '../schemas/conversations.schemas.js';
 import { APIError } from '../../../types/index.js';
+import { readNdjsonBatches, NdjsonLimitError } from '../../../utils/ndjson.js';
+
+// Streamed entries are written in slices no larger than a batch upload
+const STREAM_WRITE_SIZE = 50;
+const MAX_REPORTED_REJECTIONS = 100;
 
 export class ConversationsController {
     /**
@@ -48,6 +55,23 @@ export class ConversationsController {
                 }
             }
 
+            // One user per batch, so a single ownership check covers every entry
+            const userIds = [...new Set(conversations.map((conv: any) => conv.userId as string))];
+            if (userIds.length > 1) {
+                auditAuthorizationFailure(c, 'mixed_user_batch', { target_user_ids: userIds });
+                const error: APIError = {
+                    error: {
+                        code: 'MIXED_USER_BATCH',
+                        message: 'All conversations in a request must belong to the same user'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 400);
+            }
+
+            const forbidden = ConversationsController.rejectOtherUser(c, userIds[0]);
+            if (forbidden) return forbidden;
+
             const supabase = getAuthenticatedSupabase(c);
             const result = await conversationSummaryService.storeConversations(supabase, conversations);
 
@@ -55,6 +79,7 @@ export class ConversationsController {
                 success: true,
                 message: 'Conversations stored successfully',
                 stored_count: result.stored_count,
+                duplicate_count: result.duplicate_count,
                 session_ids: result.session_ids,
                 timestamp: new Date().toISOString()
             }, 201);
@@ -73,10 +98,139 @@ export class ConversationsController {
         }
     }
 
+    /**
+     * Store conversation messages streamed as NDJSON, one entry per line.
+     * Entries are written as their lines arrive; bad lines are reported and skipped.
+     */
+    static async streamConversations(c: Context) {
+        const body = c.req.raw.body;
+        if (!body) {
+            const error: APIError = {
+                error: {
+                    code: 'INVALID_REQUEST',
+                    message: 'Request body must be an NDJSON stream of conversation entries'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 400);
+        }
+
+        const supabase = getAuthenticatedSupabase(c);
+        const sessionIds = new Set<string>();
+        const rejected: { line: number; code: string; message: string }[] = [];
+        let rejectedCount = 0;
+        let storedCount = 0;
+        let duplicateCount = 0;
+        let streamUserId: string | null = null;
+
+        const reject = (line: number, code: string, message: string) => {
+            rejectedCount++;
+            if (rejected.length < MAX_REPORTED_REJECTIONS) {
+                rejected.push({ line, code, message });
+            }
+        };
+
+        try {
+            for await (const batch of readNdjsonBatches(body)) {
+                const entries: ConversationEntry[] = [];
+
+                for (const item of batch) {
+                    if (item.error) {
+                        reject(item.line, 'INVALID_JSON', item.error);
+                        continue;
+                    }
+
+                    const parsed = ConversationEntrySchema.safeParse(item.value);
+                    if (!parsed.success) {
+                        reject(item.line, 'INVALID_CONVERSATION_DATA', parsed.error.issues
+                            .map(issue => `${issue.path.join('.') || 'entry'}: ${issue.message}`)
+                            .join('; '));
+                        continue;
+                    }
+
+                    // As with batch uploads, a stream carries one user's messages
+                    const entry = parsed.data;
+                    if (streamUserId === null) {
+                        if (!isAgentRequest(c) && entry.userId !== extractUserId(c)) {
+                            auditAuthorizationFailure(c, 'user_id_mismatch', { target_user_id: entry.userId, line: item.line });
+                            reject(item.line, 'INSUFFICIENT_PERMISSIONS', 'You can only store your own conversations');
+                            continue;
+                        }
+                        streamUserId = entry.userId;
+                    } else if (entry.userId !== streamUserId) {
+                        auditAuthorizationFailure(c, 'mixed_user_stream', { target_user_ids: [streamUserId, entry.userId], line: item.line });
+                        reject(item.line, 'MIXED_USER_STREAM', 'All entries in a stream must belong to the same user');
+                        continue;
+                    }
+
+                    entries.push(entry);
+                }
+
+                for (let i = 0; i < entries.length; i += STREAM_WRITE_SIZE) {
+                    const result = await conversationSummaryService.storeConversations(
+                        supabase,
+                        entries.slice(i, i + STREAM_WRITE_SIZE)
+                    );
+                    storedCount += result.stored_count;
+                    duplicateCount += result.duplicate_count;
+                    result.session_ids.forEach(id => sessionIds.add(id));
+                }
+            }
+        } catch (err) {
+            console.error('Stream conversations error:', err);
+
+            // Entries before the failure are already stored; resending the stream is safe when it carries clientMessageIds
+            const progress = `${storedCount} entries were stored before the stream was aborted`;
+
+            if (err instanceof NdjsonLimitError) {
+                const error: APIError = {
+                    error: {
+                        code: 'STREAM_LIMIT_EXCEEDED',
+                        message: err.message,
+                        details: progress
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 413);
+            }
+
+            const error: APIError = {
+                error: {
+                    code: 'SERVER_ERROR',
+                    message: 'Failed to store streamed conversations',
+                    details: progress
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+
+        return c.json({
+            success: rejectedCount === 0,
+            stored_count: storedCount,
+            duplicate_count: duplicateCount,
+            rejected_count: rejectedCount,
+            rejected,
+            session_ids: [...sessionIds],
+            timestamp: new Date().toISOString()
+        });
+    }
+
     /**
      * Get user summary with AI-generated insights
      */
     static async getUserSummary(c: Context) {
+        return ConversationsController.respondWithSummary(c, { rebuild: false });
+    }
+
+    /**
+     * Rebuild the user summary from all recent data instead of merging session digests
+     */
+    static async rebuildUserSummary(c: Context) {
+        return ConversationsController.respondWithSummary(c, { rebuild: true });
+    }
+
+    private static async respondWithSummary(c: Context, options: { rebuild: boolean }) {
         try {
             const userId = c.req.param('user_id');
 
@@ -104,6 +258,9 @@ export class ConversationsController {
                 return c.json(error, 400);
             }
 
+            const forbidden = ConversationsController.rejectOtherUser(c, userId);
+            if (forbidden) return forbidden;
+
             const supabase = getAuthenticatedSupabase(c);
 
             // Check if user exists
@@ -124,7 +281,10 @@ export class ConversationsController {
                 return c.json(error, 404);
             }
 
-            const summary = await conversationSummaryService.getUserSummary(supabase, userId);
+            const summary = await conversationSummaryService.getUserSummary(supabase, userId, {
+                ...options,
+                format: c.req.query('format') === 'json' ? 'json' : 'text',
+            });
             return c.json(summary);
 
         } catch (error) {
@@ -166,4 +326,128 @@ export class ConversationsController {
             return c.json(apiError, 500);
         }
     }
+
+    /**
+     * List a user's conversation messages with cursor pagination
+     */
+    static async listUserConversations(c: Context) {
+        const userId = c.req.param('user_id');
+        const { cursor, limit, session_id, role, from_date, to_date, group_by } = c.req.query();
+
+        const forbidden = ConversationsController.rejectOtherUser(c, userId);
+        if (forbidden) return forbidden;
+
+        try {
+            const supabase = getAuthenticatedSupabase(c);
+            const page = await conversationTranscriptService.listConversations(supabase, userId, {
+                cursor: cursor || undefined,
+                limit: Math.min(parseInt(limit as string) || 50, 100),
+                sessionId: session_id || undefined,
+                role: role === 'user' || role === 'assistant' ? role : undefined,
+                fromDate: from_date || undefined,
+                toDate: to_date || undefined,
+            });
+
+            return c.json({
+                success: true,
+                ...(group_by === 'session'
+                    ? { sessions: conversationTranscriptService.groupBySession(page.messages) }
+                    : { conversations: page.messages }),
+                next_cursor: page.next_cursor,
+                has_more: page.has_more,
+            });
+
+        } catch (error) {
+            console.error('List conversations error:', error);
+
+            if (error instanceof Error && error.message === 'Invalid cursor') {
+                const apiError: APIError = {
+                    error: {
+                        code: 'INVALID_CURSOR',
+                        message: 'cursor must be a next_cursor value from a previous response'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(apiError, 400);
+            }
+
+            const apiError: APIError = {
+                error: {
+                    code: 'SERVER_ERROR',
+                    message: 'Failed to retrieve conversations',
+                    details: error instanceof Error ? error.message : 'Unknown error'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(apiError, 500);
+        }
+    }
+
+    /**
+     * Get a session's transcript in spoken order
+     */
+    static async getSessionTranscript(c: Context) {
+        const sessionId = c.req.param('session_id');
+        const { limit } = c.req.query();
+
+        try {
+            const supabase = getAuthenticatedSupabase(c);
+            const transcript = await conversationTranscriptService.getTranscript(supabase, sessionId, {
+                limit: Math.min(parseInt(limit as string) || 500, 1000),
+                // Users only ever see their own side of a shared session
+                userId: isAgentRequest(c) ? undefined : extractUserId(c),
+            });
+
+            if (!transcript) {
+                const apiError: APIError = {
+                    error: {
+                        code: 'TRANSCRIPT_NOT_FOUND',
+                        message: 'No conversation messages stored for this session'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(apiError, 404);
+            }
+
+            const forbidden = ConversationsController.rejectOtherUser(c, transcript.user_id);
+            if (forbidden) return forbidden;
+
+            return c.json({
+                success: true,
+                ...transcript,
+            });
+
+        } catch (error) {
+            console.error('Get session transcript error:', error);
+            const apiError: APIError = {
+                error: {
+                    code: 'SERVER_ERROR',
+                    message: 'Failed to retrieve transcript',
+                    details: error instanceof Error ? error.message : 'Unknown error'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(apiError, 500);
+        }
+    }
+
+    /**
+     * Users may only read or write their own conversations; agents were already
+     * checked for the route's permission. Returns the 403 response, or null if allowed.
+     */
+    private static rejectOtherUser(c: Context, targetUserId: string) {
+        if (isAgentRequest(c) || targetUserId === extractUserId(c)) {
+            return null;
+        }
+
+        auditAuthorizationFailure(c, 'user_id_mismatch', { target_user_id: targetUserId });
+        const error: APIError = {
+            error: {
+                code: 'INSUFFICIENT_PERMISSIONS',
+                message: 'You can only access your own conversations'
+            },
+            timestamp: new Date().toISOString()
+        };
+        return c.json(error, 403);
+    }
 }
\ No newline at end of file
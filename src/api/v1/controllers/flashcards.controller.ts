@@ -0,0 +1,309 @@
+import type { Context } from 'hono';
+import { extractUserId, getAuthenticatedSupabase } from '../../../middleware/index.js';
+import { APIError } from '../../../types/index.js';
+import { flashCardService, formatFlashCard } from '../../../services/flashcard.service.js';
+import { isFlashCardType } from '../schemas/flashcards.schemas.js';
+
+export class FlashCardsController {
+    /**
+     * Reject requests for another user's flash cards
+     */
+    private static checkOwnership(c: Context) {
+        const requestedUserId = c.req.param('user_id');
+        const currentUserId = extractUserId(c);
+
+        if (requestedUserId !== currentUserId) {
+            const error: APIError = {
+                error: {
+                    code: 'INSUFFICIENT_PERMISSIONS',
+                    message: 'You can only access your own flash cards'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 403);
+        }
+
+        return null;
+    }
+
+    /**
+     * List user's flash cards
+     */
+    static async listFlashCards(c: Context) {
+        const forbidden = FlashCardsController.checkOwnership(c);
+        if (forbidden) return forbidden;
+
+        const userId = c.req.param('user_id');
+        const { card_type, limit, offset } = c.req.query();
+        const supabase = getAuthenticatedSupabase(c);
+
+        try {
+            const limitNum = parseInt(limit as string) || 50;
+            const offsetNum = parseInt(offset as string) || 0;
+
+            const { cards, totalCount } = await flashCardService.listCards(supabase, userId, {
+                cardType: isFlashCardType(card_type) ? card_type : undefined,
+                limit: limitNum,
+                offset: offsetNum,
+            });
+
+            return c.json({
+                success: true,
+                cards: cards.map(formatFlashCard),
+                total_count: totalCount,
+                has_more: totalCount > offsetNum + limitNum
+            });
+        } catch (err) {
+            console.error('List flash cards error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'DATABASE_ERROR',
+                    message: 'Failed to retrieve flash cards'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Get the queue of cards due for review
+     */
+    static async getDueFlashCards(c: Context) {
+        const forbidden = FlashCardsController.checkOwnership(c);
+        if (forbidden) return forbidden;
+
+        const userId = c.req.param('user_id');
+        const { card_type, limit } = c.req.query();
+        const supabase = getAuthenticatedSupabase(c);
+
+        try {
+            const { cards, dueCount, nextDueAt } = await flashCardService.getDueCards(supabase, userId, {
+                cardType: isFlashCardType(card_type) ? card_type : undefined,
+                limit: parseInt(limit as string) || 20,
+            });
+
+            return c.json({
+                success: true,
+                cards: cards.map(formatFlashCard),
+                due_count: dueCount,
+                next_due_at: nextDueAt
+            });
+        } catch (err) {
+            console.error('Due flash cards error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'DATABASE_ERROR',
+                    message: 'Failed to retrieve due flash cards'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Create a flash card for the current user
+     */
+    static async createFlashCard(c: Context) {
+        const forbidden = FlashCardsController.checkOwnership(c);
+        if (forbidden) return forbidden;
+
+        const userId = c.req.param('user_id');
+        const cardData = await c.req.json();
+        const supabase = getAuthenticatedSupabase(c);
+
+        try {
+            const card = await flashCardService.createCard(supabase, userId, {
+                cardId: cardData.card_id,
+                cardType: cardData.card_type,
+                cardData: cardData.card_data,
+                createdBy: 'user',
+            });
+
+            return c.json({
+                success: true,
+                card: formatFlashCard(card)
+            }, 201);
+        } catch (err) {
+            console.error('Create flash card error:', err);
+
+            if (err instanceof Error && err.message.includes('already exists')) {
+                const error: APIError = {
+                    error: {
+                        code: 'FLASH_CARD_EXISTS',
+                        message: 'A flash card with this card_id already exists'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 409);
+            }
+
+            const error: APIError = {
+                error: {
+                    code: 'FLASH_CARD_CREATION_FAILED',
+                    message: 'Failed to create flash card'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Update flash card content or reset its schedule
+     */
+    static async updateFlashCard(c: Context) {
+        const forbidden = FlashCardsController.checkOwnership(c);
+        if (forbidden) return forbidden;
+
+        const userId = c.req.param('user_id');
+        const cardId = c.req.param('card_id');
+        const updateData = await c.req.json();
+        const supabase = getAuthenticatedSupabase(c);
+
+        try {
+            const card = await flashCardService.updateCard(supabase, userId, cardId, {
+                cardType: updateData.card_type,
+                cardData: updateData.card_data,
+                resetSchedule: updateData.reset_schedule,
+            });
+
+            if (!card) {
+                const error: APIError = {
+                    error: {
+                        code: 'FLASH_CARD_NOT_FOUND',
+                        message: 'Flash card not found'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 404);
+            }
+
+            return c.json({
+                success: true,
+                card: formatFlashCard(card)
+            });
+        } catch (err) {
+            console.error('Update flash card error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'SERVER_ERROR',
+                    message: 'Internal server error'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Delete a flash card
+     */
+    static async deleteFlashCard(c: Context) {
+        const forbidden = FlashCardsController.checkOwnership(c);
+        if (forbidden) return forbidden;
+
+        const userId = c.req.param('user_id');
+        const cardId = c.req.param('card_id');
+        const supabase = getAuthenticatedSupabase(c);
+
+        try {
+            const deleted = await flashCardService.deleteCard(supabase, userId, cardId);
+
+            if (!deleted) {
+                const error: APIError = {
+                    error: {
+                        code: 'FLASH_CARD_NOT_FOUND',
+                        message: 'Flash card not found'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 404);
+            }
+
+            return c.json({
+                success: true,
+                card_id: cardId,
+                deleted_at: new Date().toISOString()
+            });
+        } catch (err) {
+            console.error('Delete flash card error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'SERVER_ERROR',
+                    message: 'Internal server error'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Grade a flash card review and reschedule it
+     */
+    static async reviewFlashCard(c: Context) {
+        const forbidden = FlashCardsController.checkOwnership(c);
+        if (forbidden) return forbidden;
+
+        const userId = c.req.param('user_id');
+        const cardId = c.req.param('card_id');
+        const { grade } = await c.req.json();
+        const supabase = getAuthenticatedSupabase(c);
+
+        if (!Number.isInteger(grade) || grade < 0 || grade > 5) {
+            const error: APIError = {
+                error: {
+                    code: 'INVALID_GRADE',
+                    message: 'grade must be an integer between 0 and 5'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 400);
+        }
+
+        try {
+            const result = await flashCardService.reviewCard(supabase, userId, cardId, grade);
+
+            if (!result) {
+                const error: APIError = {
+                    error: {
+                        code: 'FLASH_CARD_NOT_FOUND',
+                        message: 'Flash card not found'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 404);
+            }
+
+            return c.json({
+                success: true,
+                card: formatFlashCard(result.card),
+                review: result.review
+            });
+        } catch (err) {
+            console.error('Review flash card error:', err);
+
+            if (err instanceof Error && err.message.includes('modified concurrently')) {
+                const error: APIError = {
+                    error: {
+                        code: 'REVIEW_CONFLICT',
+                        message: 'Flash card was reviewed concurrently, please retry'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 409);
+            }
+
+            const error: APIError = {
+                error: {
+                    code: 'SERVER_ERROR',
+                    message: 'Internal server error'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+}
@@ -4,3 +4,5 @@ export * from './agent.controller.js';
 export * from './users.controller.js';
 export * from './sessions.controller.js';
 export * from './rooms.controller.js';
+export * from './flashcards.controller.js';
+export * from './topics.controller.js';
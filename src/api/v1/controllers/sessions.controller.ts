@@ -8,6 +8,11 @@ import {
     UserProgress,
     DatabaseLearningSession
 } from '../../../types/index.js';
+import { flashCardGenerationService } from '../../../services/flashcard-generation.service.js';
+import { progressService } from '../../../services/progress.service.js';
+import { achievementService, UnlockedAchievement } from '../../../services/achievement.service.js';
+import { topicService } from '../../../services/topic.service.js';
+import { sessionDigestService } from '../../../services/session-digest.service.js';
 
 export class SessionsController {
     /**
@@ -33,6 +38,9 @@ export class SessionsController {
         const sessionId = sessionData.session_id || uuidv4();
 
         try {
+            // Topic IDs and name variants are stored as canonical topic names
+            sessionData.topics_covered = await topicService.canonicalLabels(supabase, sessionData.topics_covered);
+
             // Create the learning session
             const newSession: Omit<DatabaseLearningSession, 'id' | 'created_at'> = {
                 user_id: sessionData.user_id,
@@ -68,13 +76,57 @@ export class SessionsController {
                 return c.json(error, 500);
             }
 
-            // Update user progress
-            await SessionsController.updateUserProgress(supabase, sessionData, sessionId);
+            // Roll the session up into the user's progress
+            let progress: UserProgress | undefined;
+            try {
+                progress = await progressService.applySessionDelta(supabase, sessionData.user_id, {
+                    sessionId,
+                    durationMinutes: sessionData.duration_minutes,
+                    newVocabulary: sessionData.new_vocabulary,
+                    pronunciationPracticeCount: sessionData.pronunciation_practice_count,
+                    grammarPoints: sessionData.grammar_points,
+                    achievements: sessionData.achievements,
+                    topicsCovered: sessionData.topics_covered,
+                });
+            } catch (progressError) {
+                console.error('Progress update after session failed:', progressError);
+            }
+
+            // Add new session vocabulary to the user's review deck
+            try {
+                await flashCardGenerationService.generateFromSessionVocabulary(
+                    supabase,
+                    sessionData.user_id,
+                    sessionId,
+                    sessionData.new_vocabulary,
+                    { createdBy: 'user' }
+                );
+            } catch (cardError) {
+                console.error('Flash card generation from session failed:', cardError);
+            }
+
+            // Unlock any achievements earned by this session
+            let newAchievements: UnlockedAchievement[] = [];
+            try {
+                newAchievements = await achievementService.evaluate(supabase, sessionData.user_id, 'session');
+            } catch (achievementError) {
+                console.error('Achievement evaluation after session failed:', achievementError);
+            }
+
+            // Queue a digest so the user's summary can be updated without a full rebuild;
+            // it is written on the next summary read, keeping the model call off this request
+            try {
+                await sessionDigestService.queueDigest(supabase, sessionData.user_id, sessionId);
+            } catch (digestError) {
+                console.error('Queueing session digest failed:', digestError);
+            }
 
             const response: SessionResponse = {
                 success: true,
                 session_id: sessionId,
                 created_at: createdSession.created_at,
+                new_achievements: newAchievements,
+                progress,
             };
 
             return c.json(response);
@@ -177,81 +229,4 @@ export class SessionsController {
             return c.json(error, 500);
         }
     }
-
-    /**
-     * Helper method to update user progress after session creation
-     */
-    private static async updateUserProgress(supabase: any, sessionData: any, sessionId: string) {
-        const { data: currentContext, error: contextError } = await supabase
-            .from('user_contexts')
-            .select('progress, session_history')
-            .eq('user_id', sessionData.user_id)
-            .single();
-
-        if (!contextError && currentContext) {
-            const currentProgress = currentContext.progress as UserProgress;
-            const currentSessionHistory = currentContext.session_history as any[] || [];
-
-            // Calculate streak
-            const today = new Date().toISOString().split('T')[0];
-            const lastSessionDate = currentProgress.last_session_date;
-            let newStreak = currentProgress.current_streak;
-
-            if (lastSessionDate) {
-                const lastDate = new Date(lastSessionDate);
-                const yesterday = new Date();
-                yesterday.setDate(yesterday.getDate() - 1);
-
-                if (lastDate.toISOString().split('T')[0] === yesterday.toISOString().split('T')[0]) {
-                    newStreak += 1;
-                } else if (lastDate.toISOString().split('T')[0] !== today) {
-                    newStreak = 1;
-                }
-            } else {
-                newStreak = 1;
-            }
-
-            const updatedProgress: UserProgress = {
-                total_sessions: currentProgress.total_sessions + 1,
-                total_conversation_time: currentProgress.total_conversation_time + sessionData.duration_minutes,
-                words_learned: currentProgress.words_learned + sessionData.new_vocabulary.length,
-                phrases_practiced: currentProgress.phrases_practiced + sessionData.pronunciation_practice_count,
-                pronunciation_score_avg: currentProgress.pronunciation_score_avg,
-                grammar_points_covered: [
-                    ...new Set([
-                        ...currentProgress.grammar_points_covered,
-                        ...sessionData.grammar_points
-                    ])
-                ],
-                achievements_unlocked: [
-                    ...new Set([
-                        ...currentProgress.achievements_unlocked,
-                        ...sessionData.achievements
-                    ])
-                ],
-                last_session_date: new Date().toISOString(),
-                current_streak: newStreak,
-            };
-
-            const newSessionHistoryItem = {
-                session_id: sessionId,
-                date: new Date().toISOString(),
-                duration_minutes: sessionData.duration_minutes,
-                topics_covered: sessionData.topics_covered,
-            };
-
-            const updatedSessionHistory = [
-                newSessionHistoryItem,
-                ...currentSessionHistory.slice(0, 49)
-            ];
-
-            await supabase
-                .from('user_contexts')
-                .update({
-                    progress: updatedProgress,
-                    session_history: updatedSessionHistory,
-                })
-                .eq('user_id', sessionData.user_id);
-        }
-    }
 }
@@ -0,0 +1,202 @@
+import type { Context } from 'hono';
+import { extractUserId, getAuthenticatedSupabase } from '../../../middleware/index.js';
+import { APIError } from '../../../types/index.js';
+import { TOPIC_CATEGORIES, TopicCategory } from '../../../utils/topic-categories.js';
+import { topicService, formatTopic, formatTopicNode, TopicListOptions } from '../../../services/topic.service.js';
+
+export class TopicsController {
+    /**
+     * List topics as a tree or a flat list
+     */
+    static async listTopics(c: Context) {
+        const { format, category, active } = c.req.query();
+        const currentUserId = extractUserId(c);
+        const supabase = getAuthenticatedSupabase(c);
+
+        try {
+            const listFormat = format === 'flat' ? 'flat' : 'tree';
+            const topics = await topicService.listTopics(supabase, {
+                category: category || undefined,
+                active: (['true', 'false', 'all'].includes(active) ? active : 'true') as TopicListOptions['active'],
+                viewerId: currentUserId,
+            });
+
+            return c.json({
+                success: true,
+                format: listFormat,
+                topics: listFormat === 'flat'
+                    ? topics.map(formatTopic)
+                    : topicService.buildTree(topics).map(formatTopicNode),
+                total_count: topics.length,
+            });
+        } catch (err) {
+            console.error('Topics list error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'DATABASE_ERROR',
+                    message: 'Failed to retrieve topics'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Get a topic with its subtopics and parent
+     */
+    static async getTopic(c: Context) {
+        const topicId = c.req.param('topic_id');
+        const { include_inactive } = c.req.query();
+        const currentUserId = extractUserId(c);
+        const supabase = getAuthenticatedSupabase(c);
+
+        try {
+            const result = await topicService.getTopic(supabase, topicId, {
+                includeInactive: include_inactive === 'true',
+                viewerId: currentUserId,
+            });
+
+            if (!result) {
+                const error: APIError = {
+                    error: {
+                        code: 'TOPIC_NOT_FOUND',
+                        message: 'Topic not found'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 404);
+            }
+
+            return c.json({
+                success: true,
+                topic: formatTopicNode(result.topic),
+                parent: result.parent ? formatTopic(result.parent) : null,
+            });
+        } catch (err) {
+            console.error('Topic retrieval error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'DATABASE_ERROR',
+                    message: 'Failed to retrieve topic'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Search active topics by name or category
+     */
+    static async searchTopics(c: Context) {
+        const { q, category, limit } = c.req.query();
+        const supabase = getAuthenticatedSupabase(c);
+
+        try {
+            const results = await topicService.searchTopics(supabase, q, {
+                category: category || undefined,
+                limit: Math.min(parseInt(limit as string) || 20, 100),
+            });
+
+            return c.json({
+                success: true,
+                query: q,
+                results,
+            });
+        } catch (err) {
+            console.error('Topic search error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'DATABASE_ERROR',
+                    message: 'Failed to search topics'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Suggest a new topic; it stays inactive until a moderator approves it
+     */
+    static async suggestTopic(c: Context) {
+        const suggestion = await c.req.json();
+        const currentUserId = extractUserId(c);
+        const supabase = getAuthenticatedSupabase(c);
+
+        if (!TOPIC_CATEGORIES.includes(suggestion.category)) {
+            const error: APIError = {
+                error: {
+                    code: 'INVALID_CATEGORY',
+                    message: `Category must be one of: ${TOPIC_CATEGORIES.join(', ')}`
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 400);
+        }
+
+        try {
+            const topic = await topicService.suggestTopic(supabase, currentUserId, {
+                name: suggestion.name,
+                category: suggestion.category as TopicCategory,
+                parentId: suggestion.parent_id,
+                reason: suggestion.reason,
+            });
+
+            console.log(`Topic "${topic.name}" suggested by user ${currentUserId}`);
+
+            return c.json({
+                success: true,
+                topic: formatTopic(topic),
+                status: 'pending_approval' as const,
+            }, 201);
+        } catch (err) {
+            console.error('Topic suggestion error:', err);
+
+            if (err instanceof Error && (err.message.includes('already exists') || err.message.includes('already pending'))) {
+                const error: APIError = {
+                    error: {
+                        code: 'TOPIC_EXISTS',
+                        message: err.message.includes('already pending')
+                            ? 'A suggestion for this topic is already awaiting approval'
+                            : 'A topic with this name already exists'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 409);
+            }
+
+            if (err instanceof Error && err.message.startsWith('Topic name must')) {
+                const error: APIError = {
+                    error: {
+                        code: 'INVALID_TOPIC_NAME',
+                        message: 'Topic name must contain letters or numbers'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 400);
+            }
+
+            if (err instanceof Error && err.message.startsWith('Parent topic')) {
+                const error: APIError = {
+                    error: {
+                        code: 'INVALID_PARENT_TOPIC',
+                        message: 'parent_id must be an active topic in the same category'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                return c.json(error, 400);
+            }
+
+            const error: APIError = {
+                error: {
+                    code: 'TOPIC_SUGGESTION_FAILED',
+                    message: 'Failed to record topic suggestion'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+}
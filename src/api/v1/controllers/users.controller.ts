@@ -10,7 +10,13 @@ import {
     DatabaseUserContext,
     ProgressAnalytics
 } from '../../../types/index.js';
-import { pronunciationService, EnhancementRequest } from '../../../services/pronunciation.service.js';
+import { pronunciationService } from '../../../services/pronunciation.service.js';
+import { audioPreferencesService } from '../../../services/audio-preferences.service.js';
+import { milestoneService } from '../../../services/milestone.service.js';
+import { streakService } from '../../../services/streak.service.js';
+import { pronunciationStatsService } from '../../../services/pronunciation-stats.service.js';
+import { pronunciationAttemptService, formatPronunciationAttempt } from '../../../services/pronunciation-attempt.service.js';
+import { topicService } from '../../../services/topic.service.js';
 
 export class UsersController {
     /**
@@ -143,6 +149,12 @@ export class UsersController {
 
             if (updateData.preferences) {
                 updateObj.preferences = updateData.preferences;
+                if (Array.isArray(updateData.preferences.preferred_topics)) {
+                    updateObj.preferences!.preferred_topics = await topicService.canonicalLabels(
+                        supabase,
+                        updateData.preferences.preferred_topics
+                    );
+                }
             }
 
             if (updateData.progress) {
@@ -289,6 +301,9 @@ export class UsersController {
 
             const progress = userContext.progress as UserProgress;
 
+            const milestones = await milestoneService.getUserMilestones(supabase, requestedUserId);
+            const pronunciationStats = await pronunciationStatsService.getStats(supabase, requestedUserId);
+
             // Calculate recent activity
             const recentActivity = recentSessions?.reduce((acc: any[], session) => {
                 const date = session.created_at.split('T')[0];
@@ -322,7 +337,10 @@ export class UsersController {
                     vocabulary_learned: progress.words_learned,
                     current_streak: progress.current_streak,
                     level_progression: progress.grammar_points_covered,
+                    pronunciation_score_avg: pronunciationStats.pronunciation_score_avg,
+                    pronunciation_score_avg_30d: pronunciationStats.pronunciation_score_avg_30d,
                 },
+                pronunciation_topic_averages: pronunciationStats.pronunciation_topic_averages,
                 recent_activity: recentActivity,
                 achievements: achievements?.map(ach => ({
                     id: ach.achievement_id,
@@ -331,23 +349,8 @@ export class UsersController {
                     unlocked_at: ach.unlocked_at,
                     icon: ach.icon,
                 })) || [],
-                next_milestones: [
-                    {
-                        title: 'Session Master',
-                        progress: progress.total_sessions,
-                        target: Math.ceil((progress.total_sessions + 10) / 10) * 10,
-                    },
-                    {
-                        title: 'Vocabulary Builder',
-                        progress: progress.words_learned,
-                        target: Math.ceil((progress.words_learned + 50) / 50) * 50,
-                    },
-                    {
-                        title: 'Study Streak',
-                        progress: progress.current_streak,
-                        target: Math.max(progress.current_streak + 1, 7),
-                    },
-                ],
+                next_milestones: milestones.next,
+                completed_milestones: milestones.completed,
             };
 
             return c.json(response);
@@ -364,13 +367,192 @@ export class UsersController {
         }
     }
 
+    /**
+     * Get user's study streak and heatmap history
+     */
+    static async getStreak(c: Context) {
+        const requestedUserId = c.req.param('user_id');
+        const currentUserId = extractUserId(c);
+
+        if (requestedUserId !== currentUserId) {
+            const error: APIError = {
+                error: {
+                    code: 'INSUFFICIENT_PERMISSIONS',
+                    message: 'You can only access your own streak'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 403);
+        }
+
+        const supabase = getAuthenticatedSupabase(c);
+
+        try {
+            const days = parseInt(c.req.query('days') as string) || 90;
+            const streak = await streakService.getStreak(supabase, requestedUserId, days);
+
+            return c.json(streak);
+        } catch (err) {
+            console.error('Get streak error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'DATABASE_ERROR',
+                    message: 'Failed to retrieve streak'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Update user's streak timezone and freeze settings
+     */
+    static async updateStreakSettings(c: Context) {
+        const requestedUserId = c.req.param('user_id');
+        const currentUserId = extractUserId(c);
+        const settings = await c.req.json();
+
+        if (requestedUserId !== currentUserId) {
+            const error: APIError = {
+                error: {
+                    code: 'INSUFFICIENT_PERMISSIONS',
+                    message: 'You can only update your own streak settings'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 403);
+        }
+
+        const supabase = getAuthenticatedSupabase(c);
+
+        try {
+            await streakService.updateSettings(supabase, requestedUserId, {
+                timezone: settings.timezone,
+                max_freezes: settings.max_freezes,
+                freeze_earn_interval_days: settings.freeze_earn_interval_days,
+            });
+
+            const streak = await streakService.getStreak(supabase, requestedUserId);
+
+            return c.json(streak);
+        } catch (err) {
+            console.error('Update streak settings error:', err);
+            const message = err instanceof Error ? err.message : '';
+            const isInvalid = message.includes('Invalid timezone');
+            const error: APIError = {
+                error: {
+                    code: isInvalid ? 'INVALID_REQUEST' : 'DATABASE_ERROR',
+                    message: isInvalid ? message : 'Failed to update streak settings'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, isInvalid ? 400 : 500);
+        }
+    }
+
+    /**
+     * Get the sounds the user most often mispronounces
+     */
+    static async getWeakestSounds(c: Context) {
+        const requestedUserId = c.req.param('user_id');
+        const currentUserId = extractUserId(c);
+
+        if (requestedUserId !== currentUserId) {
+            const error: APIError = {
+                error: {
+                    code: 'INSUFFICIENT_PERMISSIONS',
+                    message: 'You can only access your own pronunciation evaluations'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 403);
+        }
+
+        const supabase = getAuthenticatedSupabase(c);
+
+        try {
+            const daysBack = parseInt(c.req.query('days_back') as string) || 90;
+            const limit = parseInt(c.req.query('limit') as string) || 5;
+
+            const { weakest_sounds, attempts_analysed } = await pronunciationAttemptService.getWeakestSounds(
+                supabase,
+                requestedUserId,
+                { daysBack, limit }
+            );
+
+            return c.json({
+                success: true,
+                weakest_sounds,
+                attempts_analysed,
+                days_back: daysBack
+            });
+        } catch (err) {
+            console.error('Get weakest sounds error:', err);
+            const error: APIError = {
+                error: {
+                    code: 'DATABASE_ERROR',
+                    message: 'Failed to analyse pronunciation attempts'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 500);
+        }
+    }
+
+    /**
+     * Get every attempt at one of the user's evaluated phrases
+     */
+    static async getPronunciationAttempts(c: Context) {
+        const requestedUserId = c.req.param('user_id');
+        const evaluationId = c.req.param('evaluation_id');
+        const currentUserId = extractUserId(c);
+
+        if (requestedUserId !== currentUserId) {
+            const error: APIError = {
+                error: {
+                    code: 'INSUFFICIENT_PERMISSIONS',
+                    message: 'You can only access your own pronunciation evaluations'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 403);
+        }
+
+        const supabase = getAuthenticatedSupabase(c);
+
+        try {
+            const { evaluation, attempts, weakest_sounds } = await pronunciationAttemptService.listAttempts(supabase, requestedUserId, evaluationId);
+
+            return c.json({
+                success: true,
+                evaluation,
+                attempts: attempts.map(formatPronunciationAttempt),
+                weakest_sounds
+            });
+        } catch (err) {
+            const isNotFound = err instanceof Error && err.message.includes('not found');
+            if (!isNotFound) {
+                console.error('Get pronunciation attempts error:', err);
+            }
+            const error: APIError = {
+                error: {
+                    code: isNotFound ? 'EVALUATION_NOT_FOUND' : 'DATABASE_ERROR',
+                    message: isNotFound ? 'Pronunciation evaluation not found' : 'Failed to retrieve pronunciation attempts'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, isNotFound ? 404 : 500);
+        }
+    }
+
     /**
      * Get user's pronunciation evaluations (user endpoint)
      */
     static async getPronunciationEvaluations(c: Context) {
         const requestedUserId = c.req.param('user_id');
         const currentUserId = extractUserId(c);
-        const { topic, limit, offset, since_date } = c.req.query();
+        const { topic, topic_id, limit, offset, since_date } = c.req.query();
 
         // Check if user is requesting their own evaluations
         if (requestedUserId !== currentUserId) {
@@ -394,7 +576,13 @@ export class UsersController {
                 .order('created_at', { ascending: false });
 
             if (topic) {
-                query = query.eq('topic', topic);
+                // Topic ID or any spelling of a topic name
+                const topicFilter = await topicService.filterFor(supabase, topic);
+                query = query.eq(topicFilter.column, topicFilter.value);
+            }
+
+            if (topic_id) {
+                query = query.eq('topic_id', topic_id);
             }
 
             if (since_date) {
@@ -455,7 +643,7 @@ export class UsersController {
     static async getEvaluatedPhrases(c: Context) {
         const requestedUserId = c.req.param('user_id');
         const currentUserId = extractUserId(c);
-        const { topic, days_back } = c.req.query();
+        const { topic, topic_id, days_back } = c.req.query();
 
         // Check if user is requesting their own evaluated phrases
         if (requestedUserId !== currentUserId) {
@@ -478,13 +666,19 @@ export class UsersController {
 
             let query = supabase
                 .from('pronunciation_evaluations')
-                .select('id, kanji, romaji, translation, topic, created_at, evaluation_score, translation_breakdown')
+                .select('id, kanji, romaji, translation, topic, created_at, evaluation_score, translation_breakdown, enhancement_status')
                 .eq('user_id', requestedUserId)
                 .gte('created_at', dateThreshold.toISOString())
                 .order('created_at', { ascending: false });
 
             if (topic) {
-                query = query.eq('topic', topic);
+                // Topic ID or any spelling of a topic name
+                const topicFilter = await topicService.filterFor(supabase, topic);
+                query = query.eq(topicFilter.column, topicFilter.value);
+            }
+
+            if (topic_id) {
+                query = query.eq('topic_id', topic_id);
             }
 
             const { data: evaluations, error: queryError } = await query;
@@ -529,82 +723,16 @@ export class UsersController {
                         latest_evaluation_date: evaluation.created_at,
                         best_score: evaluation.evaluation_score || existing?.best_score || null,
                         evaluation_count: (existing?.evaluation_count || 0) + 1,
-                        translation_breakdown: evaluation.translation_breakdown
+                        translation_breakdown: evaluation.translation_breakdown,
+                        enhancement_status: evaluation.enhancement_status
                     });
                 }
             });
 
             const evaluatedPhrases = Array.from(phrasesMap.values());
 
-            // Check if any phrases need enhancement (have dummy data)
-            const needsEnhancement = evaluatedPhrases.filter(phrase =>
-                phrase.romaji === 'pronunciation_needed' ||
-                phrase.translation === 'translation_needed' ||
-                !phrase.translation_breakdown
-            );
-
-            if (needsEnhancement.length > 0) {
-                try {
-                    console.log(`Enhancing ${needsEnhancement.length} phrases with dummy data`);
-
-                    // Prepare enhancement requests
-                    const enhancementRequests: EnhancementRequest[] = needsEnhancement.map(phrase => ({
-                        kanji: phrase.kanji,
-                        currentRomaji: phrase.romaji,
-                        currentTranslation: phrase.translation,
-                        translationBreakdown: phrase.translation_breakdown
-                    }));
-
-                    // Get enhanced data from OpenAI
-                    const enhancedResults = await pronunciationService.enhancePronunciationData(enhancementRequests);
-                    // Update database with enhanced data
-                    for (let i = 0; i < enhancedResults.length; i++) {
-                        const enhanced = enhancedResults[i];
-                        const original = needsEnhancement[i];
-
-                        // Update the database if we got valid enhanced data
-
-                        const updateData: any = {};
-
-                        if (original.romaji === 'pronunciation_needed') {
-                            updateData.romaji = enhanced.romaji;
-                        }
-                        if (original.translation === 'translation_needed') {
-                            updateData.translation = enhanced.translation;
-                        }
-
-
-                        updateData.translation_breakdown = enhanced.translationBreakdown;
-                        updateData.topic = enhanced.topic;
-
-
-                        // Update the database record
-                        await supabase
-                            .from('pronunciation_evaluations')
-                            .update(updateData)
-                            .eq('user_id', requestedUserId)
-                            .eq('kanji', enhanced.kanji);
-
-                        // Update the local data
-                        const phraseIndex = evaluatedPhrases.findIndex(p => p.kanji === enhanced.kanji);
-                        if (phraseIndex !== -1) {
-                            evaluatedPhrases[phraseIndex] = {
-                                ...evaluatedPhrases[phraseIndex],
-                                romaji: enhanced.romaji,
-                                translation: enhanced.translation,
-                                translation_breakdown: enhanced.translationBreakdown,
-                                topic: enhanced.topic
-                            };
-                        }
-
-                    }
-
-                    console.log(`Successfully enhanced ${enhancedResults.length} phrases`);
-                } catch (enhancementError) {
-                    console.error('Enhancement failed, returning original data:', enhancementError);
-                    // Continue with original data if enhancement fails
-                }
-            }
+            // Placeholder romaji/translations are filled in by the background enhancement job;
+            // enhancement_status tells the client which phrases are still waiting
 
             // Map to client expected format
             const clientFormattedPhrases = evaluatedPhrases.map((phrase, index) => ({
@@ -616,7 +744,8 @@ export class UsersController {
                 latest_evaluation_date: phrase.latest_evaluation_date,
                 topic: phrase.topic,
                 evaluation_count: phrase.evaluation_count,
-                translation_breakdown: phrase.translation_breakdown
+                translation_breakdown: phrase.translation_breakdown,
+                enhancement_status: phrase.enhancement_status
             }));
 
             return c.json({
@@ -690,17 +819,22 @@ export class UsersController {
                 return c.json(error, 400);
             }
 
-            // Generate audio
+            // Generate audio in the requested variant (unset options come from preferences)
+            const overrides = await c.req.json().catch(() => ({}));
+            const audioOptions = await audioPreferencesService.resolve(supabase, currentUserId, overrides);
+
             try {
-                const audioResult = await pronunciationService.generateAudio(evaluation.romaji, evaluation.kanji);
+                const audioResult = await pronunciationService.generateAudio(evaluation.romaji, evaluation.kanji, audioOptions);
                 const audioDataUrl = `data:audio/mp3;base64,${audioResult.base64}`;
 
                 return c.json({
                     success: true,
                     audio_data: audioDataUrl,
                     audio_base64: audioResult.base64,
+                    audio_url: `/audio/${audioResult.filename}`,
                     kanji: evaluation.kanji,
                     romaji: evaluation.romaji,
+                    ...audioResult.options,
                 });
 
             } catch (audioError) {
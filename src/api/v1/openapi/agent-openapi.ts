@@ -3,6 +3,7 @@ import { z } from 'zod';
 import {
     UserContextResponseSchema,
     SessionResponseSchema,
+    UserProgressSchema,
     APIErrorSchema,
     createAuthenticatedRoute,
 } from '../../../lib/openapi.js';
@@ -13,11 +14,26 @@ import {
     GetPronunciationEvaluationsResponseSchema,
     GetEvaluatedPhrasesQuerySchema,
     GetEvaluatedPhrasesResponseSchema,
+    PronunciationAttemptsResponseSchema,
+    GetDrillsQuerySchema,
+    DrillSetResponseSchema,
     AgentBootstrapResponseSchema,
     AgentUserContextRequestSchema,
     AgentUserContextUpdateSchema,
     AgentUserContextResponseSchema,
+    GetBatchStatusesQuerySchema,
+    BatchStatusResponseSchema,
+    BatchStatusesResponseSchema,
 } from '../schemas/agent.schemas.js';
+import { UnlockedAchievementSchema } from '../schemas/common.schemas.js';
+import {
+    AgentCreateFlashCardSchema,
+    UpdateFlashCardSchema,
+    ListFlashCardsQuerySchema,
+    FlashCardResponseSchema,
+    ListFlashCardsResponseSchema,
+    DeleteFlashCardResponseSchema,
+} from '../schemas/flashcards.schemas.js';
 
 // Agent Progress Update Route
 export const agentProgressRoute = createRoute({
@@ -84,6 +100,7 @@ response = requests.post('/api/agent/progress',
                         sessionId: z.string().optional(),
                         agentId: z.string(),
                         timestamp: z.string(),
+                        batchId: z.string().describe('Pass to GET /batches/{batch_id} to check whether the update was applied'),
                     }),
                 },
             },
@@ -138,12 +155,15 @@ The agent creates session records after completing voice interactions with users
 This endpoint validates the agent's authority and the user's existence.
 
 **Automatic Progress Updates:**
+Applied atomically, so concurrent sessions for the same user never overwrite each other:
 - Updates user's total sessions count
 - Adds vocabulary learned
 - Updates learning streak
 - Creates achievement records
 - Adds to session history
 
+The response includes the resulting progress snapshot.
+
 **Security:**
 - Requires agent service account JWT with 'session.create' permission
 - Validates userId exists in database
@@ -181,6 +201,10 @@ This endpoint validates the agent's authority and the user's existence.
                         created_at: z.string(),
                         created_by: z.literal('agent'),
                         agent_id: z.string(),
+                        agent_context_initialized: z.boolean().optional(),
+                        flash_cards_created: z.number().optional(),
+                        new_achievements: z.array(UnlockedAchievementSchema).optional(),
+                        progress: UserProgressSchema.optional().describe('Progress snapshot after this session was applied'),
                     }),
                 },
             },
@@ -326,62 +350,52 @@ Send full context payload to update user data:
 });
 
 
+// Agent Create Flash Card Route
 export const agentCreateUserFlashCardRoute = createRoute({
     method: 'post',
     path: '/user/{user_id}/create_flash_card',
     tags: ['Agent'],
     summary: 'Create flash card for user (Agent)',
     description: `
-Create a flash card for a user.
+Create a flash card in a user's deck on behalf of the user.
 
 **Agent Use Case:**
-The Python agent calls this endpoint when a user creates a flash card to:
-- Create a flash card for a user
+The Python agent calls this endpoint to push vocabulary, phrases or grammar points
+straight out of a conversation into the user's review queue.
 
-**Security:**
-- Requires agent service account JWT with 'user.create_flash_card' permission
-- Agent must provide userId in request body for validation
-- Returns flash card created successfully
+**Behavior:**
+- Card is stored with \`created_by: agent\` and the calling agent's ID
+- New cards are due for review immediately
+- \`cardId\` is generated if not provided
 
+**Security:**
+- Requires agent service account JWT
+- If \`userId\` is provided in the body it must match the path param
   `,
     request: {
         params: z.object({
-            user_id: z.string().describe('User ID to retrieve context for'),
+            user_id: z.string().describe('User ID to create the flash card for'),
         }),
         body: {
             content: {
                 'application/json': {
-                    schema: z.object({
-                        cardId: z.string().describe('Card ID for validation (must match path param)'),
-                        cardType: z.string().describe('Card Type for validation (must match path param)'),
-                        cardData: z.string().describe('Card Data for validation (must match path param)'),
-                    }),
+                    schema: AgentCreateFlashCardSchema,
                 },
             },
-            description: 'Agent flash card creation request with user validation',
+            description: 'Agent flash card creation request',
         },
     },
     responses: {
-        200: {
+        201: {
             description: 'Flash card created successfully',
             content: {
                 'application/json': {
-                    schema: z.object({
-                        card_id: z.string(),
-                        card_type: z.string(),
-                        card_data: z.string(),
-                        created_at: z.string(),
-                        updated_at: z.string(),
-                        accessed_by: z.object({
-                            agent_id: z.string(),
-                            timestamp: z.string(),
-                        }),
-                    }),
+                    schema: FlashCardResponseSchema,
                 },
             },
         },
         400: {
-            description: 'Invalid request or missing userId',
+            description: 'Invalid request or userId mismatch',
             content: {
                 'application/json': {
                     schema: APIErrorSchema,
@@ -404,8 +418,164 @@ The Python agent calls this endpoint when a user creates a flash card to:
                 },
             },
         },
+        409: {
+            description: 'A card with this cardId already exists',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+    },
+    security: [{ agentAuth: [] }],
+});
+
+// Agent List Flash Cards Route
+export const agentListUserFlashCardsRoute = createRoute({
+    method: 'get',
+    path: '/user/{user_id}/flashcards',
+    tags: ['Agent'],
+    summary: 'List user flash cards (Agent)',
+    description: `
+List the flash cards in a user's deck.
+
+**Agent Use Case:**
+Check which cards already exist before pushing new ones, or weave
+cards the user is struggling with (low ease factor, many lapses) into the conversation.
+  `,
+    request: {
+        params: z.object({
+            user_id: z.string().describe('User ID to list flash cards for'),
+        }),
+        query: ListFlashCardsQuerySchema,
+    },
+    responses: {
+        200: {
+            description: 'Flash cards retrieved successfully',
+            content: {
+                'application/json': {
+                    schema: ListFlashCardsResponseSchema,
+                },
+            },
+        },
+        401: {
+            description: 'Invalid agent token',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+        403: {
+            description: 'Insufficient agent permissions',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+    },
+    security: [{ agentAuth: [] }],
+});
+
+// Agent Update Flash Card Route
+export const agentUpdateUserFlashCardRoute = createRoute({
+    method: 'patch',
+    path: '/user/{user_id}/flashcards/{card_id}',
+    tags: ['Agent'],
+    summary: 'Update user flash card (Agent)',
+    description: 'Update card content or type on behalf of the user. Set `reset_schedule` to start the SM-2 schedule over.',
+    request: {
+        params: z.object({
+            user_id: z.string().describe('User ID that owns the flash card'),
+            card_id: z.string().describe('The flash card ID'),
+        }),
+        body: {
+            content: {
+                'application/json': {
+                    schema: UpdateFlashCardSchema,
+                },
+            },
+            description: 'Fields to update',
+        },
+    },
+    responses: {
+        200: {
+            description: 'Flash card updated successfully',
+            content: {
+                'application/json': {
+                    schema: FlashCardResponseSchema,
+                },
+            },
+        },
+        401: {
+            description: 'Invalid agent token',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+        403: {
+            description: 'Insufficient agent permissions',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
         404: {
-            description: 'User context not found',
+            description: 'Flash card not found',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+    },
+    security: [{ agentAuth: [] }],
+});
+
+// Agent Delete Flash Card Route
+export const agentDeleteUserFlashCardRoute = createRoute({
+    method: 'delete',
+    path: '/user/{user_id}/flashcards/{card_id}',
+    tags: ['Agent'],
+    summary: 'Delete user flash card (Agent)',
+    description: 'Remove a card from the user\'s deck on behalf of the user.',
+    request: {
+        params: z.object({
+            user_id: z.string().describe('User ID that owns the flash card'),
+            card_id: z.string().describe('The flash card ID'),
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Flash card deleted successfully',
+            content: {
+                'application/json': {
+                    schema: DeleteFlashCardResponseSchema,
+                },
+            },
+        },
+        401: {
+            description: 'Invalid agent token',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+        403: {
+            description: 'Insufficient agent permissions',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+        404: {
+            description: 'Flash card not found',
             content: {
                 'application/json': {
                     schema: APIErrorSchema,
@@ -416,6 +586,267 @@ The Python agent calls this endpoint when a user creates a flash card to:
     security: [{ agentAuth: [] }],
 });
 
+// Agent Batch Status Route
+export const agentGetBatchStatusRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/batches/{batch_id}',
+        tags: ['Agent'],
+        summary: 'Get queued update status (Agent)',
+        description: `
+Look up what happened to an update accepted by \`POST /progress\`, using the \`batchId\` it returned.
+
+**Statuses:**
+- \`queued\`: accepted and waiting for the next drain run
+- \`applied\`: written to the user's progress; \`applied_delta\` shows what was applied
+- \`failed\`: last attempt failed and will be retried at \`next_attempt_at\`
+- \`dead_lettered\`: gave up after \`max_attempts\`; the agent should re-send the progress
+
+**Agent Use Case:**
+At the end of a session the LiveKit agent checks its batch IDs and re-sends anything dead-lettered.
+
+**Security:**
+- Requires an agent token with the \`user.progress\` permission
+- Only batches queued for \`user_id\` are returned
+        `,
+        request: {
+            params: z.object({
+                batch_id: z.string().uuid().describe('Batch ID returned by POST /progress'),
+            }),
+            query: z.object({
+                user_id: z.string().describe('User the update was queued for'),
+            }),
+        },
+        responses: {
+            200: {
+                description: 'Batch status retrieved successfully',
+                content: {
+                    'application/json': {
+                        schema: BatchStatusResponseSchema,
+                    },
+                },
+            },
+            400: {
+                description: 'batch_id is not a UUID or user_id is missing',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            401: {
+                description: 'Invalid agent token',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Agent lacks the user.progress permission',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            404: {
+                description: 'Batch not found for this user',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Agent Multiple Batch Status Route
+export const agentGetBatchStatusesRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/batches',
+        tags: ['Agent'],
+        summary: 'Get status of several queued updates (Agent)',
+        description: 'Look up up to 50 batch IDs queued for one user in one call. Unknown IDs, IDs of other users\' batches and IDs that are not UUIDs are listed in `not_found`. Requires the `user.progress` agent permission.',
+        request: {
+            query: GetBatchStatusesQuerySchema,
+        },
+        responses: {
+            200: {
+                description: 'Batch statuses retrieved successfully',
+                content: {
+                    'application/json': {
+                        schema: BatchStatusesResponseSchema,
+                    },
+                },
+            },
+            400: {
+                description: 'Missing or too many batch IDs, or missing user_id',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            401: {
+                description: 'Invalid agent token',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Agent lacks the user.progress permission',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Drain Pending Agent Updates Route
+export const agentDrainPendingUpdatesRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/updates/drain',
+        tags: ['Agent'],
+        summary: 'Apply queued agent updates (Cron)',
+        description: `
+Apply progress updates waiting in the durable \`pending_agent_updates\` outbox.
+
+**Scheduling:**
+Called every minute by the Vercel cron in \`vercel.json\`. Safe to run concurrently:
+each row is claimed before it is applied, and applied rows are never processed again.
+A progress delta and its \`applied\` status are written in one transaction, so a crash
+mid-drain cannot apply the same update twice.
+
+**Retries:**
+- Failed rows are retried with exponential backoff (30s, 1m, 2m, ... up to 1h)
+- Rows that fail \`max_attempts\` times (default 5) are moved to \`dead_lettered\`
+- Rows left in \`processing\` for more than 5 minutes are released for retry
+
+**Security:**
+- Requires \`Authorization: Bearer <CRON_SECRET>\`
+        `,
+        request: {
+            query: z.object({
+                limit: z.coerce.number().positive().max(200).default(50).describe('Maximum rows to process in this run'),
+            }),
+        },
+        responses: {
+            200: {
+                description: 'Drain run completed',
+                content: {
+                    'application/json': {
+                        schema: z.object({
+                            success: z.literal(true),
+                            claimed: z.number(),
+                            applied: z.number(),
+                            failed: z.number(),
+                            dead_lettered: z.number(),
+                            released_stale: z.number(),
+                            duration_ms: z.number(),
+                            timestamp: z.string(),
+                        }),
+                    },
+                },
+            },
+            401: {
+                description: 'Invalid or missing cron secret',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            503: {
+                description: 'CRON_SECRET is not configured',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Process Phrase Enhancement Jobs Route
+export const agentProcessEnhancementJobsRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/enhancements/process',
+        tags: ['Agent'],
+        summary: 'Enhance queued phrases (Cron)',
+        description: `
+Fill in romaji, translation, topic and translation breakdown for phrases stored with placeholder data.
+
+**Queue:**
+New or updated pronunciation evaluations with \`pronunciation_needed\`, \`translation_needed\` or no
+breakdown are queued automatically in \`phrase_enhancement_jobs\`. The phrase's \`enhancement_status\`
+moves from \`pending\` to \`processing\` to \`complete\` (or \`failed\` once retries run out).
+
+**Scheduling:**
+Called every minute by the Vercel cron in \`vercel.json\`. Safe to run concurrently:
+each job is claimed before it is processed.
+
+**Rate Limiting:**
+- Phrases are sent to the model 10 at a time, at most one request per second
+- Failed jobs are retried with exponential backoff (1m, 2m, 4m, ... up to 6h), then dead-lettered after 5 attempts
+
+**Security:**
+- Requires \`Authorization: Bearer <CRON_SECRET>\`
+        `,
+        request: {
+            query: z.object({
+                limit: z.coerce.number().positive().max(200).default(50).describe('Maximum jobs to process in this run'),
+            }),
+        },
+        responses: {
+            200: {
+                description: 'Enhancement run completed',
+                content: {
+                    'application/json': {
+                        schema: z.object({
+                            success: z.literal(true),
+                            claimed: z.number(),
+                            completed: z.number(),
+                            failed: z.number(),
+                            dead_lettered: z.number(),
+                            released_stale: z.number(),
+                            batches: z.number(),
+                            duration_ms: z.number(),
+                            timestamp: z.string(),
+                        }),
+                    },
+                },
+            },
+            401: {
+                description: 'Invalid or missing cron secret',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            503: {
+                description: 'CRON_SECRET is not configured',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
 // Agent Health Check Route
 export const agentHealthRoute = createRoute({
     method: 'post',
@@ -650,13 +1081,28 @@ The Python agent calls this endpoint after evaluating user pronunciation to:
 - Creates new evaluation if phrase combination doesn't exist
 - Updates existing evaluation and increments practice_count if found
 - No more 409 conflicts - supports repeated practice of same phrases
-- Tracks user improvement over time with historical data
+- Every attempt is kept in the phrase's attempt history; the evaluation keeps best, latest and average scores
+- Attempts are available from \`GET /pronunciation-evaluations/{user_id}/{evaluation_id}/attempts\`
+
+**Structured Evaluation Details:**
+\`evaluation_details\` is validated when these fields are present; other fields are stored unchanged:
+- \`morae\`: per-mora scores, with what was heard and an error type when wrong
+- \`segments\`: per-segment scores keyed by \`translation_breakdown\` segment position
+- \`pitch_accent\`: expected/produced pattern and whether it was correct
+- \`errors\`: substitutions, omissions, long vowels, double consonants (っ), moraic nasal (ん), devoicing, pitch accent
+
+These are aggregated across attempts to find the learner's weakest sounds.
 
 **Audio Generation:**
 - Set generate_audio: true to receive base64 audio data
-- Uses OpenAI TTS with Japanese female voice
-- Returns audio directly (no filesystem storage)
-- Audio data included in response for immediate use
+- Optional \`audio_options\` sets \`voice\`, \`speed\` (slow/normal) and \`input_mode\` (native/romaji)
+- Unset options follow the user's audio preferences; beginners get slow native-script audio
+- Audio is cached per phrase and variant and included in the response for immediate use
+
+**Flash Card Generation:**
+- Scores below 70 add the phrase to the user's review deck
+- A kanji recognition card is also made when the user wants kanji practice
+- Cards are deduplicated per user and phrase; disable with the \`auto_flash_cards\` preference
 
 **Security:**
 - Requires agent service account JWT 
@@ -796,6 +1242,134 @@ The Python agent calls this endpoint to:
     security: [{ agentAuth: [] }],
 });
 
+// Get Pronunciation Attempts Route
+export const agentGetPronunciationAttemptsRoute = createRoute({
+    method: 'get',
+    path: '/pronunciation-evaluations/{user_id}/{evaluation_id}/attempts',
+    tags: ['Agent'],
+    summary: 'Get attempts at an evaluated phrase (Agent)',
+    description: `
+Retrieve every attempt a user has made at one phrase, oldest first.
+
+**Agent Use Case:**
+- Tell the learner how they have improved on a phrase
+- Compare the latest attempt's feedback with earlier ones
+
+**Security:**
+- Requires agent service account JWT
+  `,
+    request: {
+        params: z.object({
+            user_id: z.string().describe('User ID the evaluation belongs to'),
+            evaluation_id: z.string().describe('Pronunciation evaluation (phrase) ID'),
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Pronunciation attempts retrieved successfully',
+            content: {
+                'application/json': {
+                    schema: PronunciationAttemptsResponseSchema,
+                },
+            },
+        },
+        401: {
+            description: 'Invalid agent token',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+        404: {
+            description: 'Pronunciation evaluation not found',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+        500: {
+            description: 'Server error',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+    },
+    security: [{ agentAuth: [] }],
+});
+
+// Get Weak-Sound Drills Route
+export const agentGetDrillsRoute = createRoute({
+    method: 'get',
+    path: '/drills/{user_id}',
+    tags: ['Agent'],
+    summary: 'Get a ranked pronunciation drill set (Agent)',
+    description: `
+Build a drill set from the learner's pronunciation history, most important first.
+
+**Drill Sources:**
+- Minimal pairs for the sounds the learner gets wrong most often (e.g. つ/す, long vowels, っ)
+- The learner's own lowest-scoring phrases containing those sounds
+- The lowest-scoring phrases from topics averaging below 80
+
+**Query Parameters:**
+- \`limit\`: Maximum drills to return (default: 10, max: 30)
+- \`days_back\`: Days of attempts to analyse for weak sounds (default: 30)
+- \`include_audio\`: Generate TTS audio for each drill word in the user's preferred voice and speed (default: false)
+
+**Agent Use Case:**
+- Run targeted practice instead of improvising drills
+- Play the target and contrast audio before asking the learner to repeat
+
+**Security:**
+- Requires agent service account JWT
+  `,
+    request: {
+        params: z.object({
+            user_id: z.string().describe('User ID to build drills for'),
+        }),
+        query: GetDrillsQuerySchema,
+    },
+    responses: {
+        200: {
+            description: 'Drill set generated successfully',
+            content: {
+                'application/json': {
+                    schema: DrillSetResponseSchema,
+                },
+            },
+        },
+        400: {
+            description: 'Invalid query parameters',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+        401: {
+            description: 'Invalid agent token',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+        500: {
+            description: 'Server error',
+            content: {
+                'application/json': {
+                    schema: APIErrorSchema,
+                },
+            },
+        },
+    },
+    security: [{ agentAuth: [] }],
+});
+
 // Get Evaluated Phrases for LLM Context Route
 export const agentGetEvaluatedPhrasesRoute = createRoute({
     method: 'get',
@@ -1,19 +1,28 @@
 import { createRoute } from '@hono/zod-openapi';
 import { z } from 'zod';
 import { APIErrorSchema } from '../schemas/common.schemas.js';
+import { createAuthenticatedRoute } from '../../../lib/openapi.js';
 import {
     StoreConversationRequestSchema,
     StoreConversationResponseSchema,
+    StreamConversationsResponseSchema,
+    ConversationEntrySchema,
+    GetUserSummaryQuerySchema,
     GetUserSummaryResponseSchema,
+    ListUserConversationsQuerySchema,
+    ListUserConversationsResponseSchema,
+    GetSessionTranscriptQuerySchema,
+    SessionTranscriptResponseSchema,
 } from '../schemas/conversations.schemas.js';
 
 // Store Conversations Route
-export const storeConversationsRoute = createRoute({
-    method: 'post',
-    path: '/conversations',
-    tags: ['Conversations'],
-    summary: 'Store conversation data',
-    description: `
+export const storeConversationsRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'post',
+        path: '/conversations',
+        tags: ['Conversations'],
+        summary: 'Store conversation data',
+        description: `
 Store user conversation messages for summary generation.
 
 **Usage:**
@@ -28,65 +37,143 @@ Store user conversation messages for summary generation.
 - Timestamps automatically added
 - No automatic cleanup (manual deletion required)
 
+**Idempotency:**
+- Give each entry a \`clientMessageId\` (or at least a \`sequence\`) unique within its session
+- Entries already stored under the same user, session and ID are skipped and counted in \`duplicate_count\`
+- Retrying a failed request is therefore safe
+
 **Integration with Summary System:**
 - Stored conversations feed into user summary generation
 - Summary system aggregates all user data including conversations
 - Cache invalidation triggers when new conversations added
-    `,
-    request: {
-        body: {
-            content: {
-                'application/json': {
-                    schema: StoreConversationRequestSchema,
+
+**Authorization:**
+- User token: every entry's \`userId\` must be the caller
+- Agent token: requires the \`conversation.write\` permission
+- All entries in one request must share the same \`userId\`
+        `,
+        request: {
+            body: {
+                content: {
+                    'application/json': {
+                        schema: StoreConversationRequestSchema,
+                    },
                 },
+                description: 'Array of conversation entries to store',
             },
-            description: 'Array of conversation entries to store',
         },
-    },
-    responses: {
-        201: {
-            description: 'Conversations stored successfully',
-            content: {
-                'application/json': {
-                    schema: StoreConversationResponseSchema,
+        responses: {
+            201: {
+                description: 'Conversations stored successfully',
+                content: {
+                    'application/json': {
+                        schema: StoreConversationResponseSchema,
+                    },
                 },
             },
-        },
-        400: {
-            description: 'Invalid conversation data',
-            content: {
-                'application/json': {
-                    schema: APIErrorSchema,
+            400: {
+                description: 'Invalid conversation data',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Not the caller\'s data, or agent lacks conversation.write',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
                 },
             },
         },
-        401: {
-            description: 'Unauthorized - valid JWT required',
-            content: {
-                'application/json': {
-                    schema: APIErrorSchema,
+    })
+);
+
+// Stream Conversations Route
+export const streamConversationsRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'post',
+        path: '/conversations/stream',
+        tags: ['Conversations'],
+        summary: 'Stream conversation data',
+        description: `
+Push conversation messages as they happen, as newline-delimited JSON (\`application/x-ndjson\`).
+
+**Usage:**
+- Keep the request open and write one conversation entry per line as each turn completes
+- Entries are stored as their lines arrive, not when the stream ends
+- The response summarizes the whole stream once the request body is closed
+
+**Idempotency:**
+- Entries use the same \`clientMessageId\` / \`sequence\` keys as \`POST /conversations\`
+- After a dropped connection, resend the stream (or its tail); stored entries are skipped
+
+**Errors:**
+- Invalid lines are skipped and listed in \`rejected\`; the rest of the stream is still stored
+- Lines over 64 KB or streams over 5000 lines abort the stream with 413
+
+**Authorization:**
+- User token: every entry's \`userId\` must be the caller
+- Agent token: requires the \`conversation.write\` permission
+- All entries in one stream must share the same \`userId\`
+        `,
+        request: {
+            body: {
+                content: {
+                    'application/x-ndjson': {
+                        schema: ConversationEntrySchema,
+                    },
                 },
+                description: 'One conversation entry per line',
             },
         },
-        500: {
-            description: 'Server error during storage',
-            content: {
-                'application/json': {
-                    schema: APIErrorSchema,
+        responses: {
+            200: {
+                description: 'Stream processed; see rejected for lines that were not stored',
+                content: {
+                    'application/json': {
+                        schema: StreamConversationsResponseSchema,
+                    },
+                },
+            },
+            400: {
+                description: 'Missing request body',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Agent lacks conversation.write',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            413: {
+                description: 'A line or the stream exceeded its size limit',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
                 },
             },
         },
-    },
-    security: [{ bearerAuth: [] }],
-});
+    })
+);
 
 // Get User Summary Route
-export const getUserSummaryRoute = createRoute({
-    method: 'get',
-    path: '/users/{user_id}/summary',
-    tags: ['User Summaries'],
-    summary: 'Get comprehensive user summary',
-    description: `
+export const getUserSummaryRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/users/{user_id}/summary',
+        tags: ['User Summaries'],
+        summary: 'Get comprehensive user summary',
+        description: `
 Get AI-generated compact summary of all user data for agent consumption.
 
 **Summary Content:**
@@ -97,14 +184,16 @@ Get AI-generated compact summary of all user data for agent consumption.
 - Personality traits and interaction style
 
 **Caching Strategy:**
-- Long-term cache (24-48 hours)
-- Hash-based invalidation when user data changes
-- Lazy generation (on-demand only)
-- Cost-optimized OpenAI usage
+- When a learning session is recorded, it is queued for a short digest
+- On read, queued sessions since the last update are digested and merged into the stored summary (\`summaryMode: incremental\`)
+- Messages and evaluations alone do not regenerate the summary; they reach it through the session digest
+- A full rebuild from all recent data runs when there is no summary, 48 hours after the last rebuild, or after 20 merged digests
+- Use \`POST /users/{user_id}/summary/rebuild\` to force a full rebuild
 
 **Agent Integration:**
 - Optimized for LLM consumption with minimal tokens
-- Structured data format for easy parsing
+- \`format=json\` adds \`summary\`: level estimate, goals, strengths, gaps, recommended topics, learning style, teaching approach and confidence
+- \`compactSummary\` is always rendered from those same fields
 - Detailed but compact for agent context
 - Session-start loading pattern (not real-time)
 
@@ -112,45 +201,213 @@ Get AI-generated compact summary of all user data for agent consumption.
 - First request: ~2-3 seconds (OpenAI generation)
 - Cached requests: <100ms
 - Maximum 1-2 OpenAI calls per user per day
-    `,
-    request: {
-        params: z.object({
-            user_id: z.string().uuid().describe('User ID to get summary for'),
-        }),
-    },
-    responses: {
-        200: {
-            description: 'User summary retrieved successfully',
-            content: {
-                'application/json': {
-                    schema: GetUserSummaryResponseSchema,
+
+**Authorization:**
+- User token: only the caller's own summary
+- Agent token: requires the \`summary.read\` permission
+        `,
+        request: {
+            params: z.object({
+                user_id: z.string().uuid().describe('User ID to get summary for'),
+            }),
+            query: GetUserSummaryQuerySchema,
+        },
+        responses: {
+            200: {
+                description: 'User summary retrieved successfully',
+                content: {
+                    'application/json': {
+                        schema: GetUserSummaryResponseSchema,
+                    },
+                },
+            },
+            404: {
+                description: 'User not found or no data available',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Not the caller\'s data, or agent lacks summary.read',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
                 },
             },
         },
-        404: {
-            description: 'User not found or no data available',
-            content: {
-                'application/json': {
-                    schema: APIErrorSchema,
+    })
+);
+
+// Rebuild User Summary Route
+export const rebuildUserSummaryRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'post',
+        path: '/users/{user_id}/summary/rebuild',
+        tags: ['User Summaries'],
+        summary: 'Rebuild user summary',
+        description: `
+Regenerate the user summary from all recent conversations, evaluations and sessions, discarding incremental merges.
+
+**Usage:**
+- Recover from a summary that has drifted after many incremental merges
+- Pending session digests are treated as merged, since the rebuild already covers them
+
+**Authorization:**
+- User token: only the caller's own summary
+- Agent token: requires the \`summary.write\` permission
+        `,
+        request: {
+            params: z.object({
+                user_id: z.string().uuid().describe('User ID to rebuild the summary for'),
+            }),
+            query: GetUserSummaryQuerySchema,
+        },
+        responses: {
+            200: {
+                description: 'User summary rebuilt successfully',
+                content: {
+                    'application/json': {
+                        schema: GetUserSummaryResponseSchema,
+                    },
+                },
+            },
+            404: {
+                description: 'User not found or no data available',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Not the caller\'s data, or agent lacks summary.write',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
                 },
             },
         },
-        401: {
-            description: 'Unauthorized - valid JWT required',
-            content: {
-                'application/json': {
-                    schema: APIErrorSchema,
+    })
+);
+
+// List User Conversations Route
+export const listUserConversationsRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/users/{user_id}/conversations',
+        tags: ['Conversations'],
+        summary: 'List user conversation messages',
+        description: `
+Page through a user's stored conversation messages, newest first.
+
+**Pagination:**
+- Pass \`next_cursor\` from a response as \`cursor\` to get the next (older) page
+- \`has_more\` is false on the last page
+- Cursors stay valid while new messages arrive; new messages never shift pages
+
+**Filters:**
+- \`session_id\`: messages from one session
+- \`role\`: only \`user\` or only \`assistant\` messages
+- \`from_date\` / \`to_date\`: time range (from inclusive, to exclusive)
+
+**Grouping:**
+- \`group_by=session\` returns the page grouped by session, each session's messages oldest first
+
+**Authorization:**
+- User token: only the caller's own messages
+- Agent token: requires the \`conversation.read\` permission
+        `,
+        request: {
+            params: z.object({
+                user_id: z.string().uuid().describe('User ID to list conversations for'),
+            }),
+            query: ListUserConversationsQuerySchema,
+        },
+        responses: {
+            200: {
+                description: 'Conversations retrieved successfully',
+                content: {
+                    'application/json': {
+                        schema: ListUserConversationsResponseSchema,
+                    },
                 },
             },
+            400: {
+                description: 'Invalid cursor or filters',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Not the caller\'s data, or agent lacks conversation.read',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Get Session Transcript Route
+export const getSessionTranscriptRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/sessions/{session_id}/transcript',
+        tags: ['Conversations'],
+        summary: 'Get session transcript',
+        description: `
+Get the full transcript of a conversation session in the order it was spoken.
+
+**Metadata:**
+- Message counts per role
+- Start and end time and duration, taken from the message timestamps
+- The learning session record (duration, topics, performance) when one exists
+
+Transcripts longer than \`limit\` messages are cut off and flagged with \`truncated\`.
+
+**Authorization:**
+- User token: only the caller's own sessions
+- Agent token: requires the \`conversation.read\` permission
+        `,
+        request: {
+            params: z.object({
+                session_id: z.string().min(1).describe('Session ID to get the transcript for'),
+            }),
+            query: GetSessionTranscriptQuerySchema,
         },
-        500: {
-            description: 'Server error during summary generation',
-            content: {
-                'application/json': {
-                    schema: APIErrorSchema,
+        responses: {
+            200: {
+                description: 'Transcript retrieved successfully',
+                content: {
+                    'application/json': {
+                        schema: SessionTranscriptResponseSchema,
+                    },
+                },
+            },
+            404: {
+                description: 'No messages stored for this session',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Not the caller\'s data, or agent lacks conversation.read',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
                 },
             },
         },
-    },
-    security: [{ bearerAuth: [] }],
-});
\ No newline at end of file
+    })
+);
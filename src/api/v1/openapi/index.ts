@@ -4,3 +4,4 @@ export * from './agent-openapi.js';
 export * from './users-openapi.js';
 export * from './sessions-openapi.js';
 export * from './rooms-openapi.js';
+export * from './topics-openapi.js';
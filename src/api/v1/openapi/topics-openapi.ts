@@ -0,0 +1,146 @@
+import { createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import {
+    APIErrorSchema,
+    createAuthenticatedRoute,
+} from '../../../lib/openapi.js';
+import {
+    ListTopicsQuerySchema,
+    ListTopicsResponseSchema,
+    GetTopicQuerySchema,
+    GetTopicResponseSchema,
+    SearchTopicsQuerySchema,
+    SearchTopicsResponseSchema,
+    SuggestTopicRequestSchema,
+    SuggestTopicResponseSchema,
+} from '../schemas/topics.schemas.js';
+
+// List Topics Route
+export const listTopicsRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/',
+        tags: ['Topics'],
+        summary: 'List topics',
+        description: 'List conversation topics, either as a tree of categories and subtopics or as a flat list. Filter by category and by whether topics are active.',
+        request: {
+            query: ListTopicsQuerySchema,
+        },
+        responses: {
+            200: {
+                description: 'Topics retrieved successfully',
+                content: {
+                    'application/json': {
+                        schema: ListTopicsResponseSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Search Topics Route
+export const searchTopicsRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/search',
+        tags: ['Topics'],
+        summary: 'Search topics',
+        description: 'Find active topics by name or category. Matching ignores case and punctuation and tolerates misspellings; best matches come first.',
+        request: {
+            query: SearchTopicsQuerySchema,
+        },
+        responses: {
+            200: {
+                description: 'Search completed successfully',
+                content: {
+                    'application/json': {
+                        schema: SearchTopicsResponseSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Suggest Topic Route
+export const suggestTopicRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'post',
+        path: '/suggestions',
+        tags: ['Topics'],
+        summary: 'Suggest a topic',
+        description: 'Suggest a new topic. It is stored inactive and only appears in topic lists once a moderator approves it.',
+        request: {
+            body: {
+                content: {
+                    'application/json': {
+                        schema: SuggestTopicRequestSchema,
+                    },
+                },
+                description: 'Topic to suggest',
+            },
+        },
+        responses: {
+            201: {
+                description: 'Suggestion recorded and awaiting approval',
+                content: {
+                    'application/json': {
+                        schema: SuggestTopicResponseSchema,
+                    },
+                },
+            },
+            400: {
+                description: 'Invalid request data, topic name or parent topic',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            409: {
+                description: 'A topic or pending suggestion with this name already exists',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Get Topic Route
+export const getTopicRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/{topic_id}',
+        tags: ['Topics'],
+        summary: 'Get topic',
+        description: 'Retrieve a topic with its subtopics and its parent topic.',
+        request: {
+            params: z.object({
+                topic_id: z.string().uuid().describe('The topic ID to retrieve'),
+            }),
+            query: GetTopicQuerySchema,
+        },
+        responses: {
+            200: {
+                description: 'Topic retrieved successfully',
+                content: {
+                    'application/json': {
+                        schema: GetTopicResponseSchema,
+                    },
+                },
+            },
+            404: {
+                description: 'Topic not found',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
@@ -0,0 +1,307 @@
+import { createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import {
+    APIErrorSchema,
+    createAuthenticatedRoute,
+} from '../../../lib/openapi.js';
+import {
+    CreateFlashCardSchema,
+    UpdateFlashCardSchema,
+    ReviewFlashCardSchema,
+    ListFlashCardsQuerySchema,
+    DueFlashCardsQuerySchema,
+    FlashCardResponseSchema,
+    ListFlashCardsResponseSchema,
+    DueFlashCardsResponseSchema,
+    ReviewFlashCardResponseSchema,
+    DeleteFlashCardResponseSchema,
+} from '../schemas/flashcards.schemas.js';
+
+// List User Flash Cards Route
+export const listUserFlashCardsRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/{user_id}/flashcards',
+        tags: ['User Flash Cards'],
+        summary: 'List user flash cards',
+        description: `
+List all flash cards in the authenticated user's deck.
+
+**Query Parameters:**
+- \`card_type\`: Filter by card type (vocabulary, phrase, kanji_recognition, grammar, pronunciation, custom)
+- \`limit\`: Number of results (default: 50, max: 100)
+- \`offset\`: Pagination offset (default: 0)
+
+Results are ordered by most recently created first.
+        `,
+        request: {
+            params: z.object({
+                user_id: z.string().describe('The user ID (must match authenticated user)'),
+            }),
+            query: ListFlashCardsQuerySchema,
+        },
+        responses: {
+            200: {
+                description: 'Flash cards retrieved successfully',
+                content: {
+                    'application/json': {
+                        schema: ListFlashCardsResponseSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Insufficient permissions - can only access own data',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Get Due Flash Cards Route
+export const getUserDueFlashCardsRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/{user_id}/flashcards/due',
+        tags: ['User Flash Cards'],
+        summary: 'Get flash cards due for review',
+        description: `
+Get the daily review queue: cards whose \`next_due_at\` has passed, oldest due first.
+
+**Review Loop:**
+1. Client fetches this queue
+2. Learner reviews each card and grades recall from 0 to 5
+3. Client posts each grade to \`/{user_id}/flashcards/{card_id}/review\`
+4. When the queue is empty, \`next_due_at\` tells the client when the next card becomes due
+        `,
+        request: {
+            params: z.object({
+                user_id: z.string().describe('The user ID (must match authenticated user)'),
+            }),
+            query: DueFlashCardsQuerySchema,
+        },
+        responses: {
+            200: {
+                description: 'Due flash cards retrieved successfully',
+                content: {
+                    'application/json': {
+                        schema: DueFlashCardsResponseSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Insufficient permissions - can only access own data',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Create Flash Card Route
+export const createUserFlashCardRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'post',
+        path: '/{user_id}/flashcards',
+        tags: ['User Flash Cards'],
+        summary: 'Create flash card',
+        description: 'Add a card to the user\'s deck. New cards are due for review immediately.',
+        request: {
+            params: z.object({
+                user_id: z.string().describe('The user ID (must match authenticated user)'),
+            }),
+            body: {
+                content: {
+                    'application/json': {
+                        schema: CreateFlashCardSchema,
+                    },
+                },
+                description: 'Flash card content',
+            },
+        },
+        responses: {
+            201: {
+                description: 'Flash card created successfully',
+                content: {
+                    'application/json': {
+                        schema: FlashCardResponseSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Insufficient permissions - can only access own data',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            409: {
+                description: 'A card with this card_id already exists',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Update Flash Card Route
+export const updateUserFlashCardRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'patch',
+        path: '/{user_id}/flashcards/{card_id}',
+        tags: ['User Flash Cards'],
+        summary: 'Update flash card',
+        description: 'Update card content or type. Set `reset_schedule` to start the card\'s SM-2 schedule over.',
+        request: {
+            params: z.object({
+                user_id: z.string().describe('The user ID (must match authenticated user)'),
+                card_id: z.string().describe('The flash card ID'),
+            }),
+            body: {
+                content: {
+                    'application/json': {
+                        schema: UpdateFlashCardSchema,
+                    },
+                },
+                description: 'Fields to update',
+            },
+        },
+        responses: {
+            200: {
+                description: 'Flash card updated successfully',
+                content: {
+                    'application/json': {
+                        schema: FlashCardResponseSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Insufficient permissions - can only access own data',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Delete Flash Card Route
+export const deleteUserFlashCardRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'delete',
+        path: '/{user_id}/flashcards/{card_id}',
+        tags: ['User Flash Cards'],
+        summary: 'Delete flash card',
+        description: 'Remove a card from the user\'s deck.',
+        request: {
+            params: z.object({
+                user_id: z.string().describe('The user ID (must match authenticated user)'),
+                card_id: z.string().describe('The flash card ID'),
+            }),
+        },
+        responses: {
+            200: {
+                description: 'Flash card deleted successfully',
+                content: {
+                    'application/json': {
+                        schema: DeleteFlashCardResponseSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Insufficient permissions - can only access own data',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Review Flash Card Route
+export const reviewUserFlashCardRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'post',
+        path: '/{user_id}/flashcards/{card_id}/review',
+        tags: ['User Flash Cards'],
+        summary: 'Grade a flash card review',
+        description: `
+Record a review grade and reschedule the card using the SM-2 algorithm.
+
+**Grades:**
+- \`5\`: Perfect recall
+- \`4\`: Correct after hesitation
+- \`3\`: Correct with serious difficulty
+- \`2\`: Incorrect, but the answer felt familiar
+- \`1\`: Incorrect, answer remembered on seeing it
+- \`0\`: Complete blackout
+
+**Scheduling:**
+- Grades of 3 or above advance the card (1 day, 6 days, then interval × ease factor)
+- Grades below 3 reset repetitions and bring the card back tomorrow
+- The ease factor is adjusted on every review and never drops below 1.3
+        `,
+        request: {
+            params: z.object({
+                user_id: z.string().describe('The user ID (must match authenticated user)'),
+                card_id: z.string().describe('The flash card ID'),
+            }),
+            body: {
+                content: {
+                    'application/json': {
+                        schema: ReviewFlashCardSchema,
+                    },
+                },
+                description: 'Review grade',
+            },
+        },
+        responses: {
+            200: {
+                description: 'Review recorded and card rescheduled',
+                content: {
+                    'application/json': {
+                        schema: ReviewFlashCardResponseSchema,
+                    },
+                },
+            },
+            400: {
+                description: 'Invalid grade',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Insufficient permissions - can only access own data',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            409: {
+                description: 'Card was reviewed concurrently',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
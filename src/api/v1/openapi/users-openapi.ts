@@ -13,6 +13,9 @@ import {
     UserGetPronunciationEvaluationsResponseSchema,
     UserGetEvaluatedPhrasesQuerySchema,
     UserGetEvaluatedPhrasesResponseSchema,
+    GetStreakQuerySchema,
+    StreakResponseSchema,
+    UpdateStreakSettingsRequestSchema,
 } from '../schemas/users.schemas.js';
 
 // Get User Context Route
@@ -106,7 +109,7 @@ export const getUserProgressRoute = createRoute(
         path: '/{user_id}/progress',
         tags: ['Analytics'],
         summary: 'Get user progress analytics',
-        description: 'Retrieve detailed progress analytics including recent activity, achievements, and milestones.',
+        description: 'Retrieve detailed progress analytics including recent activity, achievements, and milestones. Milestones come from the milestone catalog (JLPT milestones are included for users with the jlpt_prep learning goal); completed milestones include their completion date.',
         request: {
             params: z.object({
                 user_id: z.string().describe('The user ID to retrieve progress for'),
@@ -132,3 +135,89 @@ export const getUserProgressRoute = createRoute(
         },
     })
 );
+
+// Get User Streak Route
+export const getUserStreakRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/{user_id}/streak',
+        tags: ['Analytics'],
+        summary: 'Get user study streak',
+        description: `Retrieve the study streak and day-by-day history for a calendar heatmap.
+Days are counted in the user's timezone. Missed days covered by a streak freeze appear with status "frozen".`,
+        request: {
+            params: z.object({
+                user_id: z.string().describe('The user ID to retrieve the streak for'),
+            }),
+            query: GetStreakQuerySchema,
+        },
+        responses: {
+            200: {
+                description: 'Streak retrieved successfully',
+                content: {
+                    'application/json': {
+                        schema: StreakResponseSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Insufficient permissions',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Update User Streak Settings Route
+export const updateUserStreakSettingsRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'put',
+        path: '/{user_id}/streak',
+        tags: ['Analytics'],
+        summary: 'Update streak settings',
+        description: 'Set the IANA timezone streak days are counted in, and how many streak freezes can be held and how often they are earned.',
+        request: {
+            params: z.object({
+                user_id: z.string().describe('The user ID to update streak settings for'),
+            }),
+            body: {
+                content: {
+                    'application/json': {
+                        schema: UpdateStreakSettingsRequestSchema,
+                    },
+                },
+                description: 'Streak settings to update',
+            },
+        },
+        responses: {
+            200: {
+                description: 'Streak settings updated successfully',
+                content: {
+                    'application/json': {
+                        schema: StreakResponseSchema,
+                    },
+                },
+            },
+            400: {
+                description: 'Invalid request data',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Insufficient permissions',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
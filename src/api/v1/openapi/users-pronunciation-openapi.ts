@@ -9,8 +9,14 @@ import {
     UserGetPronunciationEvaluationsResponseSchema,
     UserGetEvaluatedPhrasesQuerySchema,
     UserGetEvaluatedPhrasesResponseSchema,
+    UserPronunciationAudioRequestSchema,
     UserPronunciationAudioResponseSchema,
+    UserGetWeakestSoundsQuerySchema,
 } from '../schemas/users.schemas.js';
+import {
+    PronunciationAttemptsResponseSchema,
+    WeakestSoundsResponseSchema,
+} from '../schemas/agent.schemas.js';
 
 // Get User Pronunciation Evaluations Route
 export const getUserPronunciationEvaluationsRoute = createRoute(
@@ -76,6 +82,112 @@ Get pronunciation evaluations for the authenticated user.
     })
 );
 
+// Get User Weakest Sounds Route
+export const getUserWeakestSoundsRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/{user_id}/pronunciation-evaluations/weakest-sounds',
+        tags: ['User Pronunciation'],
+        summary: 'Get weakest sounds',
+        description: `
+Rank the sounds the user most often gets wrong, worst first, from the structured details of recent attempts.
+
+Individual morae (e.g. "つ vs す") and error categories (long vowels, double consonants, moraic nasal,
+vowel devoicing, pitch accent) are ranked by how often they go wrong.
+Attempts without structured evaluation details are ignored.
+        `,
+        request: {
+            params: z.object({
+                user_id: z.string().describe('The user ID to analyse'),
+            }),
+            query: UserGetWeakestSoundsQuerySchema,
+        },
+        responses: {
+            200: {
+                description: 'Weakest sounds retrieved successfully',
+                content: {
+                    'application/json': {
+                        schema: WeakestSoundsResponseSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Insufficient permissions - can only access own data',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            500: {
+                description: 'Server error',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
+// Get User Pronunciation Attempts Route
+export const getUserPronunciationAttemptsRoute = createRoute(
+    createAuthenticatedRoute({
+        method: 'get',
+        path: '/{user_id}/pronunciation-evaluations/{evaluation_id}/attempts',
+        tags: ['User Pronunciation'],
+        summary: 'Get attempts at an evaluated phrase',
+        description: `
+Get every attempt the user has made at one phrase, oldest first, with the phrase's best, latest and average scores.
+
+**Use Cases:**
+- Plot the improvement curve for a phrase
+- Compare feedback between attempts
+        `,
+        request: {
+            params: z.object({
+                user_id: z.string().describe('The user ID the evaluation belongs to'),
+                evaluation_id: z.string().describe('The pronunciation evaluation (phrase) ID'),
+            }),
+        },
+        responses: {
+            200: {
+                description: 'Pronunciation attempts retrieved successfully',
+                content: {
+                    'application/json': {
+                        schema: PronunciationAttemptsResponseSchema,
+                    },
+                },
+            },
+            403: {
+                description: 'Insufficient permissions - can only access own data',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            404: {
+                description: 'Pronunciation evaluation not found',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+            500: {
+                description: 'Server error',
+                content: {
+                    'application/json': {
+                        schema: APIErrorSchema,
+                    },
+                },
+            },
+        },
+    })
+);
+
 // Get User Evaluated Phrases Route
 export const getUserEvaluatedPhrasesRoute = createRoute(
     createAuthenticatedRoute({
@@ -102,6 +214,8 @@ Get list of phrases that have been evaluated for pronunciation practice review.
 - Shows best score achieved for each phrase
 - Returns latest evaluation date for each phrase
 - Eliminates duplicate entries
+- Read-only: phrases with placeholder romaji/translation are enhanced by a background job
+  and report \`enhancement_status\` (pending, processing, complete, failed) until then
 
 **Use Cases:**
 - Review which phrases have been practiced
@@ -155,9 +269,9 @@ export const getUserPronunciationAudioRoute = createRoute(
 Generate audio pronunciation for a specific evaluation.
 
 **Features:**
-- Uses OpenAI TTS with female voice (Nova)
+- Uses OpenAI TTS (default voice: Nova)
 - Generates lightweight MP3 format
-- Caches audio files on filesystem for performance
+- Audio is cached by phrase and variant, so replaying a phrase does not call TTS again
 - Returns audio data directly in multiple formats for immediate use
 
 **User Access Only:**
@@ -165,14 +279,16 @@ Generate audio pronunciation for a specific evaluation.
 - Validates evaluation ownership before processing
 - Returns error if pronunciation data is not available (dummy data)
 
-**Audio Generation:**
-- Input: Romaji pronunciation from evaluation
-- Output: Spoken Japanese audio (MP3) returned as base64
-- No filesystem storage - audio generated on-demand
+**Audio Options (optional body):**
+- \`voice\`: TTS voice
+- \`speed\`: \`slow\` or \`normal\`
+- \`input_mode\`: \`native\` reads the kana/kanji text with the romaji as a reading hint (natural Japanese); \`romaji\` reads the romanization
+- Unset options come from the user's \`audio_voice\`, \`audio_speed\` and \`audio_input_mode\` preferences; beginners default to slow audio
 
 **Response Format:**
 - audio_data: Complete data URL for direct HTML audio element use
 - audio_base64: Raw base64 data for custom implementations
+- audio_url: Cached file path, streamable with range requests
 
 **Use Cases:**
 - Listen to correct pronunciation of practiced phrases
@@ -185,6 +301,15 @@ Generate audio pronunciation for a specific evaluation.
                 user_id: z.string().describe('The user ID (must match authenticated user)'),
                 evaluation_id: z.string().describe('The pronunciation evaluation ID'),
             }),
+            body: {
+                content: {
+                    'application/json': {
+                        schema: UserPronunciationAudioRequestSchema,
+                    },
+                },
+                description: 'Optional voice, speed and input mode',
+                required: false,
+            },
         },
         responses: {
             200: {
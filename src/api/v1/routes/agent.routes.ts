@@ -3,6 +3,8 @@ import {
     agentAuthMiddleware,
     validateAgentContext,
     requireAgentPermission,
+    requireAgentTokenPermission,
+    requireCronSecret,
 } from '../../../middleware/agent.middleware.js';
 import { AgentController } from '../controllers/agent.controller.js';
 import {
@@ -13,10 +15,19 @@ import {
     agentUserTokenRoute,
     notLoggedInHealthRoute,
     agentCreateUserFlashCardRoute,
+    agentListUserFlashCardsRoute,
+    agentUpdateUserFlashCardRoute,
+    agentDeleteUserFlashCardRoute,
     agentStorePronunciationEvaluationRoute,
     agentGetPronunciationEvaluationsRoute,
     agentGetEvaluatedPhrasesRoute,
+    agentGetPronunciationAttemptsRoute,
+    agentGetDrillsRoute,
     agentBootstrapRoute,
+    agentDrainPendingUpdatesRoute,
+    agentProcessEnhancementJobsRoute,
+    agentGetBatchStatusRoute,
+    agentGetBatchStatusesRoute,
 } from '../openapi/agent-openapi.js';
 
 const agent = new OpenAPIHono();
@@ -40,6 +51,42 @@ agent.openapi(agentProgressRoute, async (c) => {
     return AgentController.updateProgress(c);
 });
 
+// GET /agent/batches - Get status of several queued updates
+agent.openapi(agentGetBatchStatusesRoute, async (c) => {
+    const authResult = await agentAuthMiddleware()(c, async () => { });
+    if (authResult) return authResult;
+    const permissionResult = await requireAgentTokenPermission('user.progress')(c, async () => { });
+    if (permissionResult) return permissionResult;
+
+    return AgentController.getBatchStatuses(c);
+});
+
+// GET /agent/batches/{batch_id} - Get status of a queued update
+agent.openapi(agentGetBatchStatusRoute, async (c) => {
+    const authResult = await agentAuthMiddleware()(c, async () => { });
+    if (authResult) return authResult;
+    const permissionResult = await requireAgentTokenPermission('user.progress')(c, async () => { });
+    if (permissionResult) return permissionResult;
+
+    return AgentController.getBatchStatus(c);
+});
+
+// GET /agent/updates/drain - Apply queued progress updates (cron)
+agent.openapi(agentDrainPendingUpdatesRoute, async (c) => {
+    const authResult = await requireCronSecret()(c, async () => { });
+    if (authResult) return authResult;
+
+    return AgentController.drainPendingUpdates(c);
+});
+
+// GET /agent/enhancements/process - Enhance queued phrases (cron)
+agent.openapi(agentProcessEnhancementJobsRoute, async (c) => {
+    const authResult = await requireCronSecret()(c, async () => { });
+    if (authResult) return authResult;
+
+    return AgentController.processEnhancementJobs(c);
+});
+
 // POST /agent/sessions - Create session on behalf of user
 agent.openapi(agentSessionRoute, async (c) => {
     // Apply middleware manually
@@ -76,6 +123,42 @@ agent.openapi(notLoggedInHealthRoute, async (c) => {
     });
 });
 
+// POST /agent/user/{user_id}/create_flash_card - Create flash card for user
+agent.openapi(agentCreateUserFlashCardRoute, async (c) => {
+    // Apply middleware manually
+    await agentAuthMiddleware()(c, async () => { });
+    await validateAgentContext()(c, async () => { });
+
+    return AgentController.createUserFlashCard(c);
+});
+
+// GET /agent/user/{user_id}/flashcards - List user flash cards
+agent.openapi(agentListUserFlashCardsRoute, async (c) => {
+    // Apply middleware manually
+    await agentAuthMiddleware()(c, async () => { });
+    await validateAgentContext()(c, async () => { });
+
+    return AgentController.listUserFlashCards(c);
+});
+
+// PATCH /agent/user/{user_id}/flashcards/{card_id} - Update user flash card
+agent.openapi(agentUpdateUserFlashCardRoute, async (c) => {
+    // Apply middleware manually
+    await agentAuthMiddleware()(c, async () => { });
+    await validateAgentContext()(c, async () => { });
+
+    return AgentController.updateUserFlashCard(c);
+});
+
+// DELETE /agent/user/{user_id}/flashcards/{card_id} - Delete user flash card
+agent.openapi(agentDeleteUserFlashCardRoute, async (c) => {
+    // Apply middleware manually
+    await agentAuthMiddleware()(c, async () => { });
+    await validateAgentContext()(c, async () => { });
+
+    return AgentController.deleteUserFlashCard(c);
+});
+
 // POST /agent/pronunciation-evaluations - Store pronunciation evaluation
 agent.openapi(agentStorePronunciationEvaluationRoute, async (c) => {
     // Apply middleware manually
@@ -94,6 +177,24 @@ agent.openapi(agentGetPronunciationEvaluationsRoute, async (c) => {
     return AgentController.getPronunciationEvaluations(c);
 });
 
+// GET /agent/pronunciation-evaluations/{user_id}/{evaluation_id}/attempts - Get attempts at a phrase
+agent.openapi(agentGetPronunciationAttemptsRoute, async (c) => {
+    // Apply middleware manually
+    await agentAuthMiddleware()(c, async () => { });
+    await validateAgentContext()(c, async () => { });
+
+    return AgentController.getPronunciationAttempts(c);
+});
+
+// GET /agent/drills/{user_id} - Get ranked pronunciation drills
+agent.openapi(agentGetDrillsRoute, async (c) => {
+    // Apply middleware manually
+    await agentAuthMiddleware()(c, async () => { });
+    await validateAgentContext()(c, async () => { });
+
+    return AgentController.getDrills(c);
+});
+
 // GET /agent/pronunciation-evaluations/{user_id}/phrases - Get evaluated phrases
 agent.openapi(agentGetEvaluatedPhrasesRoute, async (c) => {
     // Apply middleware manually
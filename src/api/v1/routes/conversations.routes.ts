@@ -1,20 +1,69 @@
 import { OpenAPIHono } from '@hono/zod-openapi';
+import { requireUserOrAgent } from '../../../middleware/agent.middleware.js';
 import { ConversationsController } from '../controllers/conversations.controller.js';
 import {
     storeConversationsRoute,
+    streamConversationsRoute,
     getUserSummaryRoute,
+    rebuildUserSummaryRoute,
+    listUserConversationsRoute,
+    getSessionTranscriptRoute,
 } from '../openapi/conversations-openapi.js';
 
 const conversations = new OpenAPIHono();
 
 // POST /conversations - Store conversation data
 conversations.openapi(storeConversationsRoute, async (c) => {
+    // Apply auth middleware (user token, or agent token with the permission)
+    const authResult = await requireUserOrAgent('conversation.write')(c, async () => { });
+    if (authResult) return authResult;
+
     return ConversationsController.storeConversations(c);
 });
 
+// POST /conversations/stream - Stream conversation data as NDJSON
+conversations.openapi(streamConversationsRoute, async (c) => {
+    // Apply auth middleware (user token, or agent token with the permission)
+    const authResult = await requireUserOrAgent('conversation.write')(c, async () => { });
+    if (authResult) return authResult;
+
+    return ConversationsController.streamConversations(c);
+});
+
 // GET /users/{user_id}/summary - Get AI-generated user summary
 conversations.openapi(getUserSummaryRoute, async (c) => {
+    // Apply auth middleware (user token, or agent token with the permission)
+    const authResult = await requireUserOrAgent('summary.read')(c, async () => { });
+    if (authResult) return authResult;
+
     return ConversationsController.getUserSummary(c);
 });
 
+// POST /users/{user_id}/summary/rebuild - Force a full summary rebuild
+conversations.openapi(rebuildUserSummaryRoute, async (c) => {
+    // Apply auth middleware (user token, or agent token with the permission)
+    const authResult = await requireUserOrAgent('summary.write')(c, async () => { });
+    if (authResult) return authResult;
+
+    return ConversationsController.rebuildUserSummary(c);
+});
+
+// GET /users/{user_id}/conversations - List a user's conversation messages
+conversations.openapi(listUserConversationsRoute, async (c) => {
+    // Apply auth middleware (user token, or agent token with the permission)
+    const authResult = await requireUserOrAgent('conversation.read')(c, async () => { });
+    if (authResult) return authResult;
+
+    return ConversationsController.listUserConversations(c);
+});
+
+// GET /sessions/{session_id}/transcript - Get a session's transcript
+conversations.openapi(getSessionTranscriptRoute, async (c) => {
+    // Apply auth middleware (user token, or agent token with the permission)
+    const authResult = await requireUserOrAgent('conversation.read')(c, async () => { });
+    if (authResult) return authResult;
+
+    return ConversationsController.getSessionTranscript(c);
+});
+
 export default conversations;
\ No newline at end of file
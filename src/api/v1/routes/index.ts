@@ -5,3 +5,4 @@ export { default as usersRoutes } from './users.routes.js';
 export { default as sessionsRoutes } from './sessions.routes.js';
 export { default as roomsRoutes } from './rooms.routes.js';
 export { default as conversationsRoutes } from './conversations.routes.js';
+export { default as topicsRoutes } from './topics.routes.js';
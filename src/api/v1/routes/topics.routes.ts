@@ -0,0 +1,49 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { requireAuth } from '../../../middleware/auth.middleware.js';
+import { TopicsController } from '../controllers/topics.controller.js';
+import {
+    listTopicsRoute,
+    searchTopicsRoute,
+    suggestTopicRoute,
+    getTopicRoute,
+} from '../openapi/topics-openapi.js';
+
+const topics = new OpenAPIHono();
+
+// GET /api/topics
+topics.openapi(listTopicsRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return TopicsController.listTopics(c);
+});
+
+// GET /api/topics/search (registered before /{topic_id})
+topics.openapi(searchTopicsRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return TopicsController.searchTopics(c);
+});
+
+// POST /api/topics/suggestions
+topics.openapi(suggestTopicRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return TopicsController.suggestTopic(c);
+});
+
+// GET /api/topics/{topic_id}
+topics.openapi(getTopicRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return TopicsController.getTopic(c);
+});
+
+export default topics;
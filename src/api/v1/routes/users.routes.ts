@@ -4,13 +4,26 @@ import { UsersController } from '../controllers/users.controller.js';
 import {
     getUserContextRoute,
     updateUserContextRoute,
-    getUserProgressRoute
+    getUserProgressRoute,
+    getUserStreakRoute,
+    updateUserStreakSettingsRoute,
 } from '../openapi/users-openapi.js';
 import {
     getUserPronunciationEvaluationsRoute,
     getUserEvaluatedPhrasesRoute,
     getUserPronunciationAudioRoute,
+    getUserPronunciationAttemptsRoute,
+    getUserWeakestSoundsRoute,
 } from '../openapi/users-pronunciation-openapi.js';
+import {
+    listUserFlashCardsRoute,
+    getUserDueFlashCardsRoute,
+    createUserFlashCardRoute,
+    updateUserFlashCardRoute,
+    deleteUserFlashCardRoute,
+    reviewUserFlashCardRoute,
+} from '../openapi/users-flashcards-openapi.js';
+import { FlashCardsController } from '../controllers/flashcards.controller.js';
 
 const users = new OpenAPIHono();
 
@@ -44,6 +57,24 @@ users.openapi(getUserProgressRoute, async (c) => {
     return UsersController.getUserProgress(c);
 });
 
+// GET /api/users/{user_id}/streak
+users.openapi(getUserStreakRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return UsersController.getStreak(c);
+});
+
+// PUT /api/users/{user_id}/streak
+users.openapi(updateUserStreakSettingsRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return UsersController.updateStreakSettings(c);
+});
+
 // GET /api/users/{user_id}/pronunciation-evaluations
 users.openapi(getUserPronunciationEvaluationsRoute, async (c) => {
     // Apply auth middleware
@@ -53,6 +84,24 @@ users.openapi(getUserPronunciationEvaluationsRoute, async (c) => {
     return UsersController.getPronunciationEvaluations(c);
 });
 
+// GET /api/users/{user_id}/pronunciation-evaluations/weakest-sounds
+users.openapi(getUserWeakestSoundsRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return UsersController.getWeakestSounds(c);
+});
+
+// GET /api/users/{user_id}/pronunciation-evaluations/{evaluation_id}/attempts
+users.openapi(getUserPronunciationAttemptsRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return UsersController.getPronunciationAttempts(c);
+});
+
 // GET /api/users/{user_id}/pronunciation-evaluations/phrases
 users.openapi(getUserEvaluatedPhrasesRoute, async (c) => {
     // Apply auth middleware
@@ -71,4 +120,58 @@ users.openapi(getUserPronunciationAudioRoute, async (c) => {
     return UsersController.generatePronunciationAudio(c);
 });
 
+// GET /api/users/{user_id}/flashcards
+users.openapi(listUserFlashCardsRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return FlashCardsController.listFlashCards(c);
+});
+
+// GET /api/users/{user_id}/flashcards/due
+users.openapi(getUserDueFlashCardsRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return FlashCardsController.getDueFlashCards(c);
+});
+
+// POST /api/users/{user_id}/flashcards
+users.openapi(createUserFlashCardRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return FlashCardsController.createFlashCard(c);
+});
+
+// PATCH /api/users/{user_id}/flashcards/{card_id}
+users.openapi(updateUserFlashCardRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return FlashCardsController.updateFlashCard(c);
+});
+
+// DELETE /api/users/{user_id}/flashcards/{card_id}
+users.openapi(deleteUserFlashCardRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return FlashCardsController.deleteFlashCard(c);
+});
+
+// POST /api/users/{user_id}/flashcards/{card_id}/review
+users.openapi(reviewUserFlashCardRoute, async (c) => {
+    // Apply auth middleware
+    const authResult = await requireAuth()(c, async () => { });
+    if (authResult) return authResult;
+
+    return FlashCardsController.reviewFlashCard(c);
+});
+
 export default users;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { UnlockedAchievementSchema, AudioOptionsSchema } from './common.schemas.js';
 
 // Agent Progress Update Schema
 export const AgentProgressUpdateSchema = z.object({
@@ -21,7 +22,7 @@ export const AgentSessionCreateSchema = z.object({
     userId: z.string().describe('User ID from LiveKit metadata'),
     sessionId: z.string().optional().describe('Session ID (auto-generated if not provided)'),
     duration_minutes: z.number().nonnegative(),
-    topics_covered: z.array(z.string()),
+    topics_covered: z.array(z.string()).describe('Topic IDs or names; names are matched to topics and stored in canonical spelling'),
     new_vocabulary: z.array(z.string()),
     grammar_points: z.array(z.string()),
     pronunciation_practice_count: z.number().nonnegative(),
@@ -43,7 +44,7 @@ export const AgentUserContextUpdateSchema = z.object({
     preferences: z.object({
         learning_level: z.string().optional(),
         learning_goals: z.array(z.string()).optional(),
-        preferred_topics: z.array(z.string()).optional(),
+        preferred_topics: z.array(z.string()).optional().describe('Topic IDs or names'),
         practice_frequency: z.string().optional(),
         session_duration_preference: z.number().optional(),
         wants_formal_speech: z.boolean().optional(),
@@ -140,15 +141,64 @@ export const AgentHealthCheckResponseSchema = z.object({
 });
 
 // Pronunciation Evaluation Schemas
+export const PronunciationErrorTypeSchema = z.enum([
+    'substitution',   // a different sound was produced (e.g. す for つ)
+    'omission',       // an expected mora was dropped
+    'insertion',      // an extra sound was added
+    'long_vowel',     // vowel length wrong (おばさん vs おばあさん)
+    'geminate',       // small っ missing or added (きて vs きって)
+    'moraic_nasal',   // ん shortened or merged into the next mora
+    'devoicing',      // vowel devoicing missing or added (です → des)
+    'pitch_accent',   // wrong pitch pattern
+]);
+
+export const MoraScoreSchema = z.object({
+    position: z.number().int().nonnegative().describe('Index of the mora within the phrase'),
+    mora: z.string().min(1).describe('Expected mora in kana'),
+    heard: z.string().optional().describe('What was heard instead, if different'),
+    score: z.number().min(0).max(100),
+    error_type: PronunciationErrorTypeSchema.optional(),
+});
+
+export const SegmentScoreSchema = z.object({
+    segment_position: z.number().int().nonnegative().describe('Matches translation_breakdown.segments[].position'),
+    text: z.string(),
+    score: z.number().min(0).max(100),
+    mora_positions: z.array(z.number().int().nonnegative()).optional().describe('Morae that belong to this segment'),
+});
+
+export const PitchAccentResultSchema = z.object({
+    expected_pattern: z.string().optional().describe('Expected pattern, e.g. LHH or accent number'),
+    produced_pattern: z.string().optional(),
+    correct: z.boolean(),
+    score: z.number().min(0).max(100).optional(),
+});
+
+export const PronunciationErrorSchema = z.object({
+    type: PronunciationErrorTypeSchema,
+    expected: z.string().optional().describe('Expected sound in kana'),
+    heard: z.string().optional().describe('Produced sound in kana'),
+    mora_position: z.number().int().nonnegative().optional(),
+    segment_position: z.number().int().nonnegative().optional(),
+});
+
+// Known fields are validated; unknown fields are kept for older agents
+export const EvaluationDetailsSchema = z.object({
+    morae: z.array(MoraScoreSchema).optional(),
+    segments: z.array(SegmentScoreSchema).optional(),
+    pitch_accent: PitchAccentResultSchema.optional(),
+    errors: z.array(PronunciationErrorSchema).optional(),
+}).passthrough();
+
 export const PronunciationEvaluationSchema = z.object({
     kanji: z.string().min(1, 'Kanji is required'),
     romaji: z.string().min(1, 'Romaji is required'),
     translation: z.string().min(1, 'Translation is required'),
-    topic: z.string().min(1, 'Topic is required'),
+    topic: z.string().min(1, 'Topic is required').describe('Topic ID or name'),
     user_pronunciation: z.string().min(1, 'User pronunciation is required'),
     evaluation_score: z.number().int().min(0).max(100).optional(),
     evaluation_feedback: z.string().optional(),
-    evaluation_details: z.record(z.any()).optional(),
+    evaluation_details: EvaluationDetailsSchema.optional(),
 });
 
 export const StorePronunciationEvaluationSchema = z.object({
@@ -156,17 +206,18 @@ export const StorePronunciationEvaluationSchema = z.object({
     sessionId: z.string().optional(),
     evaluation: PronunciationEvaluationSchema,
     generate_audio: z.boolean().default(false).describe('Whether to generate and return audio data'),
+    audio_options: AudioOptionsSchema.optional().describe('Voice, speed and input mode for generated audio (defaults to the user\'s preferences)'),
 });
 
 export const GetPronunciationEvaluationsQuerySchema = z.object({
-    topic: z.string().optional(),
+    topic: z.string().optional().describe('Topic ID or name'),
     limit: z.coerce.number().positive().max(100).default(50),
     offset: z.coerce.number().nonnegative().default(0),
     since_date: z.string().datetime().optional(),
 });
 
 export const GetEvaluatedPhrasesQuerySchema = z.object({
-    topic: z.string().optional(),
+    topic: z.string().optional().describe('Topic ID or name'),
     days_back: z.coerce.number().positive().max(30).default(7),
 });
 
@@ -180,6 +231,62 @@ export const StorePronunciationEvaluationResponseSchema = z.object({
     is_update: z.boolean().describe('True if this was an update to existing evaluation'),
     practice_count: z.number().describe('Number of times this phrase has been practiced'),
     audio_data: z.string().optional().describe('Base64 encoded audio data for pronunciation'),
+    attempt_id: z.string().describe('ID of the attempt recorded by this request'),
+    attempt_number: z.number().describe('Position of this attempt in the phrase history (1 = first attempt)'),
+    best_score: z.number().nullable().describe('Best score across all attempts at this phrase'),
+    latest_score: z.number().nullable().describe('Score of this attempt'),
+    average_score: z.number().nullable().describe('Average score across all attempts at this phrase'),
+    flash_cards_created: z.number().optional().describe('Review cards generated from a low-scoring evaluation'),
+    new_achievements: z.array(UnlockedAchievementSchema).optional().describe('Achievements unlocked by this evaluation'),
+});
+
+export const PronunciationAttemptSchema = z.object({
+    id: z.string(),
+    attempt_number: z.number(),
+    user_pronunciation: z.string(),
+    evaluation_score: z.number().nullable(),
+    evaluation_feedback: z.string().nullable(),
+    evaluation_details: z.record(z.any()).nullable(),
+    session_id: z.string().nullable(),
+    created_at: z.string(),
+});
+
+export const WeakSoundSchema = z.object({
+    sound: z.string().describe('Mora in kana, or an error category such as long_vowel'),
+    category: z.union([PronunciationErrorTypeSchema, z.literal('low_score')]),
+    label: z.string().describe('Readable name, e.g. "つ vs す" or "Long vowels"'),
+    occurrences: z.number(),
+    error_count: z.number(),
+    error_rate: z.number().min(0).max(1),
+    average_score: z.number().nullable(),
+    example_phrases: z.array(z.string()),
+    last_seen_at: z.string(),
+});
+
+export const WeakestSoundsResponseSchema = z.object({
+    success: z.literal(true),
+    weakest_sounds: z.array(WeakSoundSchema),
+    attempts_analysed: z.number().describe('Attempts with structured evaluation details in the window'),
+    days_back: z.number(),
+});
+
+export const PronunciationAttemptsResponseSchema = z.object({
+    success: z.literal(true),
+    evaluation: z.object({
+        id: z.string(),
+        kanji: z.string(),
+        romaji: z.string(),
+        translation: z.string(),
+        topic: z.string(),
+        practice_count: z.number(),
+        best_score: z.number().nullable(),
+        latest_score: z.number().nullable(),
+        average_score: z.number().nullable(),
+        created_at: z.string(),
+        updated_at: z.string().nullable(),
+    }),
+    attempts: z.array(PronunciationAttemptSchema),
+    weakest_sounds: z.array(WeakSoundSchema).describe('Sounds most often wrong across these attempts'),
 });
 
 export const PronunciationEvaluationItemSchema = z.object({
@@ -218,6 +325,49 @@ export const GetEvaluatedPhrasesResponseSchema = z.object({
     count: z.number(),
 });
 
+// Drill Schemas
+export const GetDrillsQuerySchema = z.object({
+    limit: z.coerce.number().positive().max(30).default(10),
+    days_back: z.coerce.number().positive().max(365).default(30),
+    include_audio: z.enum(['true', 'false']).default('false').transform(value => value === 'true')
+        .describe('Whether to generate TTS audio for each drill word'),
+});
+
+export const DrillWordSchema = z.object({
+    kanji: z.string(),
+    romaji: z.string(),
+    kana: z.string().optional(),
+    translation: z.string().optional(),
+    audio_data: z.string().optional().describe('Base64 encoded audio when include_audio=true'),
+});
+
+export const DrillItemSchema = z.object({
+    rank: z.number().describe('1 = most important drill'),
+    type: z.enum(['minimal_pair', 'phrase']),
+    target: DrillWordSchema.describe('What the learner should say'),
+    contrast: DrillWordSchema.optional().describe('The word the target is confused with (minimal pairs only)'),
+    focus: z.object({
+        kind: z.enum(['sound', 'topic']),
+        key: z.string().describe('Weak sound (e.g. "つ", "long_vowel") or topic ID'),
+        label: z.string(),
+    }),
+    reason: z.string().describe('Why this drill was chosen'),
+    tip: z.string().optional(),
+    evaluation_id: z.string().optional().describe('Evaluated phrase this drill repeats'),
+    last_score: z.number().nullable().optional(),
+});
+
+export const DrillSetResponseSchema = z.object({
+    success: z.literal(true),
+    drills: z.array(DrillItemSchema),
+    weakest_sounds: z.array(WeakSoundSchema),
+    weak_topics: z.array(z.object({
+        topic: z.string(),
+        average_score: z.number(),
+    })),
+    generated_at: z.string(),
+});
+
 // Agent Bootstrap Schemas
 export const AgentBootstrapRequestSchema = z.object({
     user_id: z.string().min(1, 'User ID is required'),
@@ -242,6 +392,21 @@ export const AgentBootstrapResponseSchema = z.object({
         }),
     }),
 
+    // Pronunciation score averages calculated from scored attempts
+    pronunciation_stats: z.object({
+        pronunciation_score_avg: z.number(),
+        pronunciation_score_avg_30d: z.number(),
+        pronunciation_scored_count: z.number(),
+        pronunciation_scored_count_30d: z.number(),
+        pronunciation_topic_averages: z.array(z.object({
+            topic_id: z.string().nullable(),
+            topic: z.string(),
+            average_score: z.number(),
+            evaluation_count: z.number(),
+        })),
+        pronunciation_stats_updated_at: z.string(),
+    }).nullable().optional(),
+
     // User authentication data
     user_auth: z.object({
         display_name: z.string().nullable(),
@@ -276,3 +441,36 @@ export const AgentBootstrapResponseSchema = z.object({
         })).optional(),
     }).optional(),
 });
+
+// Batch Status Schemas
+export const BatchStatusSchema = z.object({
+    batch_id: z.string(),
+    user_id: z.string(),
+    session_id: z.string().nullable(),
+    update_type: z.enum(['progress_update', 'vocabulary_insert', 'achievement_unlock']),
+    status: z.enum(['queued', 'applied', 'failed', 'dead_lettered']),
+    attempts: z.number(),
+    max_attempts: z.number(),
+    applied_delta: z.record(z.any()).nullable().describe('What was written to the user\'s progress once applied'),
+    error: z.string().nullable().describe('Last error if the update failed'),
+    next_attempt_at: z.string().nullable().describe('When a failed update will be retried'),
+    applied_at: z.string().nullable(),
+    created_at: z.string(),
+    updated_at: z.string(),
+});
+
+export const GetBatchStatusesQuerySchema = z.object({
+    ids: z.string().describe('Comma-separated batch IDs (max 50)'),
+    user_id: z.string().describe('User the updates were queued for; batches of other users are listed in not_found'),
+});
+
+export const BatchStatusResponseSchema = z.object({
+    success: z.literal(true),
+    batch: BatchStatusSchema,
+});
+
+export const BatchStatusesResponseSchema = z.object({
+    success: z.literal(true),
+    batches: z.array(BatchStatusSchema),
+    not_found: z.array(z.string()).describe('Requested batch IDs with no record for this user, including any that are not UUIDs'),
+});
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { TTS_VOICES, AUDIO_SPEEDS, AUDIO_INPUT_MODES } from '../../../utils/audio-options.js';
 
 // Common API Error Schema
 export const APIErrorSchema = z.object({
@@ -17,6 +18,23 @@ export const SuccessResponseSchema = z.object({
     timestamp: z.string(),
 });
 
+// Newly Unlocked Achievement Schema
+export const UnlockedAchievementSchema = z.object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string(),
+    icon: z.string().nullable(),
+    unlocked_at: z.string(),
+});
+
+// Pronunciation Audio Options Schema (unset fields fall back to the user's preferences)
+export const AudioOptionsSchema = z.object({
+    voice: z.enum(TTS_VOICES).optional().describe('TTS voice (default: nova)'),
+    speed: z.enum(AUDIO_SPEEDS).optional().describe('slow for beginners; defaults by learning level'),
+    input_mode: z.enum(AUDIO_INPUT_MODES).optional()
+        .describe('native reads the kana/kanji text (natural Japanese); romaji reads the romanization'),
+});
+
 // Pagination Schema
 export const PaginationSchema = z.object({
     limit: z.number().positive(),
@@ -6,7 +6,9 @@ export const ConversationEntrySchema = z.object({
     sessionId: z.string().describe('Session ID to group related conversations'),
     message: z.string().min(1).describe('The conversation message content'),
     role: z.enum(['user', 'assistant']).describe('Who sent the message'),
-    metadata: z.record(z.any()).optional().describe('Additional message metadata')
+    metadata: z.record(z.any()).optional().describe('Additional message metadata'),
+    clientMessageId: z.string().min(1).max(128).optional().describe('Client-assigned message ID, unique within the session. Resending an ID already stored is a no-op, so retries are safe'),
+    sequence: z.number().int().nonnegative().optional().describe('Position of the message within its session. Used as the idempotency key when clientMessageId is omitted')
 });
 
 // User Summary Schema (cached in database)
@@ -27,16 +29,50 @@ export const StoreConversationResponseSchema = z.object({
     success: z.boolean(),
     message: z.string(),
     stored_count: z.number(),
+    duplicate_count: z.number().describe('Entries skipped because their clientMessageId was already stored'),
     session_ids: z.array(z.string()),
     timestamp: z.string().datetime()
 });
 
+export const StreamConversationsResponseSchema = z.object({
+    success: z.boolean(),
+    stored_count: z.number(),
+    duplicate_count: z.number().describe('Entries skipped because their clientMessageId was already stored'),
+    rejected_count: z.number(),
+    rejected: z.array(z.object({
+        line: z.number().describe('1-based line number in the stream'),
+        code: z.string(),
+        message: z.string(),
+    })).describe('Lines that were not stored; at most the first 100 are listed'),
+    session_ids: z.array(z.string()),
+    timestamp: z.string().datetime()
+});
+
+// Structured User Summary Schema (the model's output; compactSummary is rendered from it)
+export const StructuredUserSummarySchema = z.object({
+    levelEstimate: z.enum(['absolute_beginner', 'beginner', 'elementary', 'intermediate', 'upper_intermediate', 'advanced']).describe('Estimated Japanese level'),
+    goals: z.array(z.string()).max(8).describe('What the learner wants to achieve'),
+    strengths: z.array(z.string()).max(8),
+    gaps: z.array(z.string()).max(8).describe('Weak areas to work on'),
+    recommendedTopics: z.array(z.string()).max(8).describe('Topics to practice next'),
+    learningStyle: z.string().min(1).describe('How the learner communicates and likes to practice'),
+    teachingApproach: z.string().min(1).describe('How the agent should teach this learner'),
+    confidence: z.number().min(0).max(1).describe('How well the available data supports this summary, 0-1')
+});
+
+export const GetUserSummaryQuerySchema = z.object({
+    format: z.enum(['json', 'text']).default('text').describe('json adds the structured summary fields to the response'),
+});
+
 export const GetUserSummaryResponseSchema = z.object({
     success: z.boolean(),
     userId: z.string().uuid(),
     compactSummary: z.string().describe('Compact but detailed summary optimized for LLM consumption'),
+    summary: StructuredUserSummarySchema.optional().describe('Structured summary (format=json only)'),
     generatedAt: z.string().datetime(),
     fromCache: z.boolean().describe('Whether this summary was served from cache'),
+    summaryMode: z.enum(['full', 'incremental']).describe('full: rebuilt from all recent data; incremental: session digests merged into the previous summary'),
+    digestsMerged: z.number().describe('Session digests merged since the last full rebuild'),
     dataIncluded: z.object({
         conversationCount: z.number(),
         evaluationCount: z.number(),
@@ -45,6 +81,72 @@ export const GetUserSummaryResponseSchema = z.object({
     }).describe('Metadata about what data was included in the summary')
 });
 
+// Stored Conversation Message Schema
+export const ConversationMessageSchema = z.object({
+    id: z.string(),
+    session_id: z.string(),
+    role: z.enum(['user', 'assistant']),
+    message: z.string(),
+    metadata: z.record(z.any()).nullable(),
+    client_message_id: z.string().nullable(),
+    sequence_number: z.number().nullable(),
+    created_at: z.string(),
+});
+
+// User Conversations Query/Response Schemas
+export const ListUserConversationsQuerySchema = z.object({
+    cursor: z.string().optional().describe('next_cursor from the previous page'),
+    limit: z.coerce.number().int().positive().max(100).default(50),
+    session_id: z.string().optional().describe('Only messages from this session'),
+    role: z.enum(['user', 'assistant']).optional(),
+    from_date: z.string().datetime().optional().describe('Only messages at or after this time'),
+    to_date: z.string().datetime().optional().describe('Only messages before this time'),
+    group_by: z.enum(['none', 'session']).default('none').describe('session groups the page\'s messages by session'),
+});
+
+export const ConversationSessionGroupSchema = z.object({
+    session_id: z.string(),
+    message_count: z.number(),
+    first_message_at: z.string(),
+    last_message_at: z.string(),
+    messages: z.array(ConversationMessageSchema).describe('Oldest first'),
+});
+
+export const ListUserConversationsResponseSchema = z.object({
+    success: z.boolean(),
+    conversations: z.array(ConversationMessageSchema).optional().describe('Newest first (group_by=none)'),
+    sessions: z.array(ConversationSessionGroupSchema).optional().describe('Most recent session first (group_by=session)'),
+    next_cursor: z.string().nullable(),
+    has_more: z.boolean(),
+});
+
+// Session Transcript Schemas
+export const GetSessionTranscriptQuerySchema = z.object({
+    limit: z.coerce.number().int().positive().max(1000).default(500),
+});
+
+export const SessionTranscriptResponseSchema = z.object({
+    success: z.boolean(),
+    session_id: z.string(),
+    user_id: z.string(),
+    messages: z.array(ConversationMessageSchema).describe('In the order they were spoken'),
+    metadata: z.object({
+        message_count: z.number(),
+        user_message_count: z.number(),
+        assistant_message_count: z.number(),
+        started_at: z.string(),
+        ended_at: z.string(),
+        duration_seconds: z.number(),
+        truncated: z.boolean().describe('More messages exist than limit'),
+        learning_session: z.object({
+            duration_minutes: z.number(),
+            topics_covered: z.array(z.string()),
+            overall_performance: z.string().nullable(),
+            created_at: z.string(),
+        }).nullable().describe('The learning session record, when one was created for this session'),
+    }),
+});
+
 // Database Types (for internal use)
 export interface DatabaseConversation {
     id: string;
@@ -53,6 +155,9 @@ export interface DatabaseConversation {
     message: string;
     role: 'user' | 'assistant';
     metadata?: any;
+    client_message_id: string | null;
+    sequence_number: number | null;
+    seq: number;
     created_at: string;
 }
 
@@ -60,15 +165,34 @@ export interface DatabaseUserSummary {
     id: string;
     user_id: string;
     compact_summary: string;
+    structured_summary: StructuredUserSummary | null;
     data_hash: string;
     generated_at: string;
     cache_expires_at: string;
+    summary_mode: 'full' | 'incremental';
+    digest_count: number;
+    last_full_rebuild_at: string | null;
     created_at: string;
     updated_at: string;
 }
 
+export interface DatabaseSessionDigest {
+    id: string;
+    user_id: string;
+    session_id: string;
+    digest: string | null; // null while queued
+    message_count: number;
+    attempt_count: number;
+    merged_at: string | null;
+    merge_claimed_at: string | null;
+    created_at: string;
+}
+
 export type ConversationEntry = z.infer<typeof ConversationEntrySchema>;
 export type UserSummary = z.infer<typeof UserSummarySchema>;
 export type StoreConversationRequest = z.infer<typeof StoreConversationRequestSchema>;
 export type StoreConversationResponse = z.infer<typeof StoreConversationResponseSchema>;
-export type GetUserSummaryResponse = z.infer<typeof GetUserSummaryResponseSchema>;
\ No newline at end of file
+export type StreamConversationsResponse = z.infer<typeof StreamConversationsResponseSchema>;
+export type GetUserSummaryResponse = z.infer<typeof GetUserSummaryResponseSchema>;
+export type StructuredUserSummary = z.infer<typeof StructuredUserSummarySchema>;
+export type ConversationMessage = z.infer<typeof ConversationMessageSchema>;
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { z } from 'zod';
+
+// Flash Card Type Schema
+export const FlashCardTypeSchema = z.enum([
+    'vocabulary',
+    'phrase',
+    'kanji_recognition',
+    'grammar',
+    'pronunciation',
+    'custom',
+]);
+
+// Narrow an unvalidated value (e.g. a raw query parameter) to a card type
+export const isFlashCardType = (value: unknown): value is z.infer<typeof FlashCardTypeSchema> =>
+    FlashCardTypeSchema.safeParse(value).success;
+
+// Flash Card Content Schema
+export const FlashCardDataSchema = z.object({
+    front: z.string().min(1, 'Card front is required').describe('Prompt side of the card'),
+    back: z.string().min(1, 'Card back is required').describe('Answer side of the card'),
+    reading: z.string().optional().describe('Kana or romaji reading'),
+    example: z.string().optional().describe('Example sentence using the card content'),
+    notes: z.string().optional(),
+}).passthrough();
+
+// Create Flash Card Schema
+export const CreateFlashCardSchema = z.object({
+    card_id: z.string().optional().describe('Client-provided card ID (generated if not provided)'),
+    card_type: FlashCardTypeSchema,
+    card_data: FlashCardDataSchema,
+});
+
+// Agent Create Flash Card Schema (camelCase to match other agent payloads)
+export const AgentCreateFlashCardSchema = z.object({
+    userId: z.string().optional().describe('User ID for validation (must match path param)'),
+    cardId: z.string().optional().describe('Client-provided card ID (generated if not provided)'),
+    cardType: FlashCardTypeSchema,
+    cardData: FlashCardDataSchema,
+});
+
+// Update Flash Card Schema
+export const UpdateFlashCardSchema = z.object({
+    card_type: FlashCardTypeSchema.optional(),
+    card_data: FlashCardDataSchema.optional(),
+    reset_schedule: z.boolean().optional().describe('Reset SM-2 scheduling so the card is due again immediately'),
+});
+
+// Review Flash Card Schema
+export const ReviewFlashCardSchema = z.object({
+    grade: z.number().int().min(0).max(5).describe('Recall quality: 0 (blackout) to 5 (perfect recall)'),
+});
+
+// Query Schemas
+export const ListFlashCardsQuerySchema = z.object({
+    card_type: FlashCardTypeSchema.optional(),
+    limit: z.coerce.number().positive().max(100).default(50),
+    offset: z.coerce.number().nonnegative().default(0),
+});
+
+export const DueFlashCardsQuerySchema = z.object({
+    card_type: FlashCardTypeSchema.optional(),
+    limit: z.coerce.number().positive().max(100).default(20),
+});
+
+// Flash Card Response Schemas
+export const FlashCardItemSchema = z.object({
+    card_id: z.string(),
+    card_type: FlashCardTypeSchema,
+    card_data: FlashCardDataSchema,
+    created_by: z.enum(['user', 'agent']),
+    agent_id: z.string().nullable(),
+    ease_factor: z.number(),
+    interval_days: z.number(),
+    repetitions: z.number(),
+    lapses: z.number(),
+    review_count: z.number(),
+    last_grade: z.number().nullable(),
+    last_reviewed_at: z.string().nullable(),
+    next_due_at: z.string(),
+    created_at: z.string(),
+    updated_at: z.string(),
+});
+
+export const FlashCardResponseSchema = z.object({
+    success: z.literal(true),
+    card: FlashCardItemSchema,
+});
+
+export const ListFlashCardsResponseSchema = z.object({
+    success: z.literal(true),
+    cards: z.array(FlashCardItemSchema),
+    total_count: z.number(),
+    has_more: z.boolean(),
+});
+
+export const DueFlashCardsResponseSchema = z.object({
+    success: z.literal(true),
+    cards: z.array(FlashCardItemSchema),
+    due_count: z.number().describe('Total number of cards currently due'),
+    next_due_at: z.string().nullable().describe('When the next not-yet-due card becomes due'),
+});
+
+export const ReviewFlashCardResponseSchema = z.object({
+    success: z.literal(true),
+    card: FlashCardItemSchema,
+    review: z.object({
+        grade: z.number(),
+        passed: z.boolean(),
+        previous_interval_days: z.number(),
+        interval_days: z.number(),
+        next_due_at: z.string(),
+    }),
+});
+
+export const DeleteFlashCardResponseSchema = z.object({
+    success: z.literal(true),
+    card_id: z.string(),
+    deleted_at: z.string(),
+});
+
+export type CreateFlashCardRequest = z.infer<typeof CreateFlashCardSchema>;
+export type UpdateFlashCardRequest = z.infer<typeof UpdateFlashCardSchema>;
@@ -8,3 +8,5 @@ export * from './agent.schemas.js';
 export * from './users.schemas.js';
 export * from './sessions.schemas.js';
 export * from './rooms.schemas.js';
+export * from './flashcards.schemas.js';
+export * from './topics.schemas.js';
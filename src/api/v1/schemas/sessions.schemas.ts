@@ -1,11 +1,13 @@
 import { z } from 'zod';
+import { UnlockedAchievementSchema } from './common.schemas.js';
+import { UserProgressSchema } from './users.schemas.js';
 
 // Create Session Schema
 export const CreateSessionSchema = z.object({
     user_id: z.string(),
     session_id: z.string().optional().describe('Will be generated if not provided'),
     duration_minutes: z.number().positive(),
-    topics_covered: z.array(z.string()),
+    topics_covered: z.array(z.string()).describe('Topic IDs or names; names are matched to topics and stored in canonical spelling'),
     new_vocabulary: z.array(z.string()),
     grammar_points: z.array(z.string()),
     pronunciation_practice_count: z.number().nonnegative(),
@@ -19,6 +21,8 @@ export const SessionResponseSchema = z.object({
     success: z.boolean(),
     session_id: z.string(),
     created_at: z.string(),
+    new_achievements: z.array(UnlockedAchievementSchema).optional().describe('Achievements unlocked by this session'),
+    progress: UserProgressSchema.optional().describe('Progress snapshot after this session was applied'),
 });
 
 // Get User Sessions Query Schema
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { TOPIC_CATEGORIES } from '../../../utils/topic-categories.js';
+
+// Topic Schema
+export const TopicItemSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    category: z.enum(TOPIC_CATEGORIES),
+    parent_id: z.string().nullable(),
+    is_active: z.boolean(),
+    created_at: z.string(),
+    updated_at: z.string().nullable(),
+});
+
+// Topic with its subtopics; children have the same shape, nested to any depth
+export const TopicNodeSchema = TopicItemSchema.extend({
+    children: z.array(z.any()).describe('Child topics, each with its own children'),
+});
+
+// List Topics Query Schema
+export const ListTopicsQuerySchema = z.object({
+    format: z.enum(['tree', 'flat']).default('tree').describe('tree nests subtopics under their parents; flat returns a plain list'),
+    category: z.enum(TOPIC_CATEGORIES).optional(),
+    active: z.enum(['true', 'false', 'all']).default('true').describe('false lists inactive topics, i.e. your own suggestions awaiting approval'),
+});
+
+export const ListTopicsResponseSchema = z.object({
+    success: z.boolean(),
+    format: z.enum(['tree', 'flat']),
+    topics: z.array(TopicNodeSchema.or(TopicItemSchema)),
+    total_count: z.number().describe('Number of topics matched, including nested ones'),
+});
+
+// Get Topic Query Schema
+export const GetTopicQuerySchema = z.object({
+    include_inactive: z.enum(['true', 'false']).default('false').transform(value => value === 'true')
+        .describe('Include inactive child topics you suggested'),
+});
+
+export const GetTopicResponseSchema = z.object({
+    success: z.boolean(),
+    topic: TopicNodeSchema,
+    parent: TopicItemSchema.nullable(),
+});
+
+// Search Topics Query Schema
+export const SearchTopicsQuerySchema = z.object({
+    q: z.string().min(1, 'Search query is required').max(100),
+    category: z.enum(TOPIC_CATEGORIES).optional(),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export const SearchTopicsResponseSchema = z.object({
+    success: z.boolean(),
+    query: z.string(),
+    results: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        category: z.enum(TOPIC_CATEGORIES),
+        parent_id: z.string().nullable(),
+        score: z.number().describe('Match quality from 0 to 1; substring matches score 1'),
+    })),
+});
+
+// Topic Suggestion Schemas
+export const SuggestTopicRequestSchema = z.object({
+    name: z.string().trim().min(2, 'Topic name is required').max(80),
+    category: z.enum(TOPIC_CATEGORIES),
+    parent_id: z.string().uuid().optional().describe('Active topic in the same category to nest under'),
+    reason: z.string().max(500).optional().describe('Why the topic is needed, for the moderator'),
+});
+
+export const SuggestTopicResponseSchema = z.object({
+    success: z.boolean(),
+    topic: TopicItemSchema,
+    status: z.literal('pending_approval'),
+});
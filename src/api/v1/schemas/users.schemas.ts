@@ -1,18 +1,32 @@
 import { z } from 'zod';
+import { isValidTimezone } from '../../../utils/streak-calculator.js';
+import { TTS_VOICES, AUDIO_SPEEDS, AUDIO_INPUT_MODES } from '../../../utils/audio-options.js';
+import { AudioOptionsSchema } from './common.schemas.js';
 
 // User Preferences Schema
 export const UserPreferencesSchema = z.object({
     learning_level: z.string(),
     learning_goals: z.array(z.string()),
-    preferred_topics: z.array(z.string()),
+    preferred_topics: z.array(z.string()).describe('Topic IDs or names'),
     practice_frequency: z.string(),
     session_duration_preference: z.number().positive(),
     wants_formal_speech: z.boolean(),
     wants_kanji_practice: z.boolean(),
     wants_grammar_focus: z.boolean(),
+    auto_flash_cards: z.boolean().optional(),
+    audio_voice: z.enum(TTS_VOICES).optional(),
+    audio_speed: z.enum(AUDIO_SPEEDS).optional(),
+    audio_input_mode: z.enum(AUDIO_INPUT_MODES).optional(),
 });
 
 // User Progress Schema
+export const PronunciationTopicAverageSchema = z.object({
+    topic_id: z.string().nullable(),
+    topic: z.string(),
+    average_score: z.number(),
+    evaluation_count: z.number(),
+});
+
 export const UserProgressSchema = z.object({
     total_sessions: z.number().nonnegative(),
     total_conversation_time: z.number().nonnegative(),
@@ -23,6 +37,8 @@ export const UserProgressSchema = z.object({
     achievements_unlocked: z.array(z.string()),
     last_session_date: z.string().nullable(),
     current_streak: z.number().nonnegative(),
+    pronunciation_score_avg_30d: z.number().min(0).max(100).optional(),
+    pronunciation_topic_averages: z.array(PronunciationTopicAverageSchema).optional(),
 });
 
 // Session History Schema
@@ -58,6 +74,18 @@ export const UpdateContextResponseSchema = z.object({
 });
 
 // Progress Analytics Schema
+export const MilestoneProgressSchema = z.object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string().nullable(),
+    metric: z.string(),
+    jlpt_level: z.string().nullable(),
+    progress: z.number(),
+    target: z.number(),
+    completed: z.boolean(),
+    completed_at: z.string().nullable(),
+});
+
 export const ProgressAnalyticsSchema = z.object({
     total_stats: z.object({
         sessions_completed: z.number(),
@@ -65,7 +93,10 @@ export const ProgressAnalyticsSchema = z.object({
         vocabulary_learned: z.number(),
         current_streak: z.number(),
         level_progression: z.array(z.string()),
+        pronunciation_score_avg: z.number(),
+        pronunciation_score_avg_30d: z.number(),
     }),
+    pronunciation_topic_averages: z.array(PronunciationTopicAverageSchema),
     recent_activity: z.array(z.object({
         date: z.string(),
         session_count: z.number(),
@@ -79,17 +110,47 @@ export const ProgressAnalyticsSchema = z.object({
         unlocked_at: z.string(),
         icon: z.string().optional(),
     })),
-    next_milestones: z.array(z.object({
-        title: z.string(),
-        progress: z.number(),
-        target: z.number(),
-    })),
+    next_milestones: z.array(MilestoneProgressSchema),
+    completed_milestones: z.array(MilestoneProgressSchema),
+});
+
+// Streak Schemas
+export const GetStreakQuerySchema = z.object({
+    days: z.coerce.number().int().positive().max(366).default(90),
+});
+
+export const StreakHistoryDaySchema = z.object({
+    date: z.string(),
+    status: z.enum(['active', 'frozen']),
+    session_count: z.number(),
+    study_minutes: z.number(),
+    streak_length: z.number(),
+});
+
+export const StreakResponseSchema = z.object({
+    user_id: z.string(),
+    timezone: z.string(),
+    today: z.string(),
+    current_streak: z.number(),
+    longest_streak: z.number(),
+    last_active_date: z.string().nullable(),
+    freezes_available: z.number(),
+    max_freezes: z.number(),
+    freeze_earn_interval_days: z.number(),
+    freezes_used_total: z.number(),
+    history: z.array(StreakHistoryDaySchema),
+});
+
+export const UpdateStreakSettingsRequestSchema = z.object({
+    timezone: z.string().refine(isValidTimezone, 'Must be a valid IANA timezone, e.g. Asia/Tokyo').optional(),
+    max_freezes: z.number().int().min(0).max(10).optional(),
+    freeze_earn_interval_days: z.number().int().min(0).max(365).optional(),
 });
 
 // User Pronunciation Evaluation Schemas
 export const UserGetPronunciationEvaluationsQuerySchema = z.object({
-    topic: z.string().optional(), // Legacy topic string filter
-    topic_id: z.string().optional(), // New topic_id filter
+    topic: z.string().optional().describe('Topic ID or name'),
+    topic_id: z.string().optional(),
     category: z.string().optional(),
     limit: z.coerce.number().positive().max(100).default(50),
     offset: z.coerce.number().nonnegative().default(0),
@@ -97,12 +158,17 @@ export const UserGetPronunciationEvaluationsQuerySchema = z.object({
 });
 
 export const UserGetEvaluatedPhrasesQuerySchema = z.object({
-    topic: z.string().optional(), // Legacy topic string filter
-    topic_id: z.string().optional(), // New topic_id filter
+    topic: z.string().optional().describe('Topic ID or name'),
+    topic_id: z.string().optional(),
     category: z.string().optional(),
     days_back: z.coerce.number().positive().max(30).default(7),
 });
 
+export const UserGetWeakestSoundsQuerySchema = z.object({
+    days_back: z.coerce.number().int().positive().max(365).default(90),
+    limit: z.coerce.number().int().positive().max(20).default(5),
+});
+
 // Translation Breakdown Schemas
 export const TranslationSegmentSchema = z.object({
     text: z.string(),
@@ -159,6 +225,8 @@ export const UserEvaluatedPhraseSchema = z.object({
     latest_evaluation_date: z.string(),
     best_score: z.number().nullable(),
     evaluation_count: z.number(),
+    enhancement_status: z.enum(['pending', 'processing', 'complete', 'failed'])
+        .describe('pending/processing: romaji, translation or breakdown are still being filled in'),
 });
 
 export const UserGetEvaluatedPhrasesResponseSchema = z.object({
@@ -168,10 +236,16 @@ export const UserGetEvaluatedPhrasesResponseSchema = z.object({
 });
 
 // User Pronunciation Audio Response Schema
+export const UserPronunciationAudioRequestSchema = AudioOptionsSchema;
+
 export const UserPronunciationAudioResponseSchema = z.object({
     success: z.literal(true),
     audio_data: z.string().describe('Complete data URL with base64 encoded MP3 audio (data:audio/mp3;base64,...)'),
     audio_base64: z.string().describe('Raw base64 encoded MP3 audio data without MIME prefix'),
+    audio_url: z.string().describe('Path of the cached file, e.g. /audio/<hash>.mp3'),
     kanji: z.string().describe('The original Japanese text'),
     romaji: z.string().describe('The romanized pronunciation'),
+    voice: z.enum(TTS_VOICES),
+    speed: z.enum(AUDIO_SPEEDS),
+    input_mode: z.enum(AUDIO_INPUT_MODES),
 });
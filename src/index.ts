@@ -6,6 +6,8 @@ import { supabaseMiddleware } from './middleware/auth.middleware.js';
 import { createRoute } from '@hono/zod-openapi';
 import { z } from 'zod';
 import { APIError } from './types/index.js';
+import { getAudioStorage } from './services/audio-storage.service.js';
+import { parseRangeHeader, etagMatches } from './utils/http-range.js';
 
 // // Import OpenAPI route definitions
 // import {
@@ -29,7 +31,7 @@ import { APIError } from './types/index.js';
 // } from './api/v1/openapi/agent-openapi.js';
 
 // Import actual route handlers
-import { usersRoutes, sessionsRoutes, roomsRoutes, agentRoutes, conversationsRoutes } from './api/v1/routes/index.js';
+import { usersRoutes, sessionsRoutes, roomsRoutes, agentRoutes, conversationsRoutes, topicsRoutes } from './api/v1/routes/index.js';
 
 // Create OpenAPI app
 const app = createOpenAPIApp();
@@ -155,10 +157,56 @@ app.get('/audio/:filename', async (c) => {
   }
 
   try {
-    // This will be handled by the deployment environment (Node.js/Bun)
-    // For now, return a placeholder response that indicates the endpoint exists
-    return c.text('Audio file serving endpoint - implementation depends on runtime environment', 501);
+    const audio = await getAudioStorage().open(filename);
+
+    if (!audio) {
+      const error: APIError = {
+        error: {
+          code: 'AUDIO_FILE_NOT_FOUND',
+          message: 'Audio file not found'
+        },
+        timestamp: new Date().toISOString()
+      };
+      return c.json(error, 404);
+    }
+
+    // File names are content hashes, so the name is a strong validator and never changes
+    const etag = `"${filename.replace('.mp3', '')}"`;
+    const headers: Record<string, string> = {
+      'Content-Type': 'audio/mpeg',
+      'Accept-Ranges': 'bytes',
+      'ETag': etag,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    };
+    if (audio.lastModified) {
+      headers['Last-Modified'] = audio.lastModified.toUTCString();
+    }
+
+    if (etagMatches(c.req.header('If-None-Match'), etag)) {
+      return c.body(null, 304, headers);
+    }
+
+    // If-Range with a different ETag means the client's partial copy is stale
+    const ifRange = c.req.header('If-Range');
+    const range = !ifRange || ifRange === etag
+      ? parseRangeHeader(c.req.header('Range'), audio.size)
+      : null;
+
+    if (range === 'unsatisfiable') {
+      return c.body(null, 416, { ...headers, 'Content-Range': `bytes */${audio.size}` });
+    }
+
+    if (range) {
+      return c.body(audio.stream(range), 206, {
+        ...headers,
+        'Content-Range': `bytes ${range.start}-${range.end}/${audio.size}`,
+        'Content-Length': String(range.end - range.start + 1),
+      });
+    }
+
+    return c.body(audio.stream(), 200, { ...headers, 'Content-Length': String(audio.size) });
   } catch (error) {
+    console.error('Error serving audio file:', error);
     const apiError: APIError = {
       error: {
         code: 'AUDIO_FILE_ERROR',
@@ -174,6 +222,7 @@ app.get('/audio/:filename', async (c) => {
 app.route('/api/users', usersRoutes);
 app.route('/api/sessions', sessionsRoutes);
 app.route('/api/rooms', roomsRoutes);
+app.route('/api/topics', topicsRoutes);
 app.route('/api/v1/agent', agentRoutes);
 app.route('/api/v1', conversationsRoutes);
 
@@ -1,6 +1,7 @@
 import { OpenAPIHono, z } from '@hono/zod-openapi';
 // import { swaggerUI } from '@hono/swagger-ui';  // Temporarily disabled due to dependency issues
 import { apiReference } from '@scalar/hono-api-reference';
+import { TTS_VOICES, AUDIO_SPEEDS, AUDIO_INPUT_MODES } from '../utils/audio-options.js';
 
 // Common response schemas
 export const APIErrorSchema = z.object({
@@ -27,6 +28,17 @@ export const UserPreferencesSchema = z.object({
     wants_formal_speech: z.boolean(),
     wants_kanji_practice: z.boolean(),
     wants_grammar_focus: z.boolean(),
+    auto_flash_cards: z.boolean().optional(),
+    audio_voice: z.enum(TTS_VOICES).optional(),
+    audio_speed: z.enum(AUDIO_SPEEDS).optional(),
+    audio_input_mode: z.enum(AUDIO_INPUT_MODES).optional(),
+});
+
+export const PronunciationTopicAverageSchema = z.object({
+    topic_id: z.string().nullable(),
+    topic: z.string(),
+    average_score: z.number(),
+    evaluation_count: z.number(),
 });
 
 export const UserProgressSchema = z.object({
@@ -39,6 +51,8 @@ export const UserProgressSchema = z.object({
     achievements_unlocked: z.array(z.string()),
     last_session_date: z.string().nullable(),
     current_streak: z.number().nonnegative(),
+    pronunciation_score_avg_30d: z.number().min(0).max(100).optional(),
+    pronunciation_topic_averages: z.array(PronunciationTopicAverageSchema).optional(),
 });
 
 export const SessionHistorySchema = z.array(z.object({
@@ -87,6 +101,14 @@ export const SessionResponseSchema = z.object({
     success: z.boolean(),
     session_id: z.string(),
     created_at: z.string(),
+    new_achievements: z.array(z.object({
+        id: z.string(),
+        title: z.string(),
+        description: z.string(),
+        icon: z.string().nullable(),
+        unlocked_at: z.string(),
+    })).optional(),
+    progress: UserProgressSchema.optional(),
 });
 
 // Room schemas
@@ -103,6 +125,18 @@ export const RoomTokenResponseSchema = z.object({
 });
 
 // Progress analytics schemas
+export const MilestoneProgressSchema = z.object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string().nullable(),
+    metric: z.string(),
+    jlpt_level: z.string().nullable(),
+    progress: z.number(),
+    target: z.number(),
+    completed: z.boolean(),
+    completed_at: z.string().nullable(),
+});
+
 export const ProgressAnalyticsSchema = z.object({
     total_stats: z.object({
         sessions_completed: z.number(),
@@ -110,7 +144,10 @@ export const ProgressAnalyticsSchema = z.object({
         vocabulary_learned: z.number(),
         current_streak: z.number(),
         level_progression: z.array(z.string()),
+        pronunciation_score_avg: z.number(),
+        pronunciation_score_avg_30d: z.number(),
     }),
+    pronunciation_topic_averages: z.array(PronunciationTopicAverageSchema),
     recent_activity: z.array(z.object({
         date: z.string(),
         session_count: z.number(),
@@ -124,11 +161,8 @@ export const ProgressAnalyticsSchema = z.object({
         unlocked_at: z.string(),
         icon: z.string().optional(),
     })),
-    next_milestones: z.array(z.object({
-        title: z.string(),
-        progress: z.number(),
-        target: z.number(),
-    })),
+    next_milestones: z.array(MilestoneProgressSchema),
+    completed_milestones: z.array(MilestoneProgressSchema),
 });
 
 // Common responses
@@ -332,6 +366,10 @@ requests.post('/api/agent/sessions',
                 name: 'LiveKit',
                 description: 'Real-time video/audio room management',
             },
+            {
+                name: 'Topics',
+                description: 'Conversation topic catalogue, search and suggestions',
+            },
             {
                 name: 'Analytics',
                 description: 'Progress tracking and analytics',
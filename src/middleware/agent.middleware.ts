@@ -1,5 +1,7 @@
 import type { Context, MiddlewareHandler } from 'hono';
-import { getSupabase, getAuthManager, getCurrentUser, getAuthenticatedSupabase } from './auth.middleware.js';
+import { env } from 'hono/adapter';
+import jwt from 'jsonwebtoken';
+import { getSupabase, getAuthManager, getCurrentUser, getAuthenticatedSupabase, requireAuth } from './auth.middleware.js';
 import { APIError } from '../types/index.js';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -292,3 +294,101 @@ export const requireAgentPermission = (permission: string): MiddlewareHandler =>
         await next();
     };
 };
+
+// Whether the request was authenticated with an agent token
+export const isAgentRequest = (c: Context): boolean => {
+    return !!getCurrentUser(c)?.metadata?.isAgent;
+};
+
+// Structured log line for denied requests, so they can be found and alerted on
+export const auditAuthorizationFailure = (c: Context, reason: string, details: Record<string, any> = {}) => {
+    const user = getCurrentUser(c);
+    console.warn('AUDIT authorization_denied', JSON.stringify({
+        reason,
+        principal: user ? { id: user.id, type: user.metadata?.isAgent ? 'agent' : 'user' } : null,
+        method: c.req.method,
+        path: c.req.path,
+        ip: c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || null,
+        ...details,
+        timestamp: new Date().toISOString(),
+    }));
+};
+
+// Middleware for routes open to both users and agents. Agent tokens (role "agent")
+// must carry the given permission; anything else goes through user authentication,
+// and the handler checks that the user only touches their own data.
+export const requireUserOrAgent = (permission: string): MiddlewareHandler => {
+    return async (c, next) => {
+        const authHeader = c.req.header('Authorization');
+        const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+        const claims = token ? jwt.decode(token) : null;
+
+        if (!claims || typeof claims === 'string' || claims.role !== 'agent') {
+            const userResult = await requireAuth()(c, next);
+            if (userResult) {
+                auditAuthorizationFailure(c, 'invalid_user_token');
+            }
+            return userResult;
+        }
+
+        const agentResult = await agentAuthMiddleware()(c, async () => { });
+        if (agentResult) {
+            auditAuthorizationFailure(c, 'invalid_agent_token');
+            return agentResult;
+        }
+
+        return requireAgentTokenPermission(permission)(c, next);
+    };
+};
+
+// Check a permission carried by the agent token itself, for agent routes that have no
+// request body to build an agent context from. Run after agentAuthMiddleware.
+export const requireAgentTokenPermission = (permission: string): MiddlewareHandler => {
+    return async (c, next) => {
+        const permissions: string[] = getCurrentUser(c)?.metadata?.permissions || [];
+        if (!permissions.includes(permission)) {
+            auditAuthorizationFailure(c, 'missing_agent_permission', { required_permission: permission });
+            const error: APIError = {
+                error: {
+                    code: 'INSUFFICIENT_AGENT_PERMISSIONS',
+                    message: `Agent lacks required permission: ${permission}`
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 403);
+        }
+
+        await next();
+    };
+};
+
+// Middleware for scheduled jobs (Vercel cron sends "Authorization: Bearer <CRON_SECRET>")
+export const requireCronSecret = (): MiddlewareHandler => {
+    return async (c, next) => {
+        const cronSecret = env<{ CRON_SECRET?: string }>(c).CRON_SECRET ?? import.meta.env.CRON_SECRET;
+
+        if (!cronSecret) {
+            const error: APIError = {
+                error: {
+                    code: 'CRON_NOT_CONFIGURED',
+                    message: 'CRON_SECRET is not configured'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 503);
+        }
+
+        if (c.req.header('Authorization') !== `Bearer ${cronSecret}`) {
+            const error: APIError = {
+                error: {
+                    code: 'INVALID_CRON_SECRET',
+                    message: 'Invalid or missing cron secret'
+                },
+                timestamp: new Date().toISOString()
+            };
+            return c.json(error, 401);
+        }
+
+        await next();
+    };
+};
@@ -0,0 +1,163 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DatabaseAchievement } from '../types/index.js';
+import { globalCache } from '../utils/request-batcher.js';
+import {
+    AchievementStats,
+    AchievementTrigger,
+    HIGH_SCORE_THRESHOLD,
+    findNewlyMetRules,
+} from '../utils/achievement-rules.js';
+
+export interface UnlockedAchievement {
+    id: string;
+    title: string;
+    description: string;
+    icon: string | null;
+    unlocked_at: string;
+}
+
+export class AchievementService {
+    /**
+     * Check the catalog after an event and record any achievements the user has just earned
+     */
+    async evaluate(
+        supabase: SupabaseClient,
+        userId: string,
+        trigger: AchievementTrigger
+    ): Promise<UnlockedAchievement[]> {
+        const [stats, unlockedIds] = await Promise.all([
+            this.getStats(supabase, userId, trigger),
+            this.getUnlockedIds(supabase, userId),
+        ]);
+
+        const rules = findNewlyMetRules(trigger, stats, unlockedIds);
+        if (rules.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await supabase
+            .from('achievements')
+            .upsert(rules.map(rule => ({
+                user_id: userId,
+                achievement_id: rule.id,
+                title: rule.title,
+                description: rule.description,
+                icon: rule.icon,
+                data: { trigger, stats },
+            })), { onConflict: 'user_id,achievement_id', ignoreDuplicates: true })
+            .select('*');
+
+        if (error) {
+            throw new Error(`Failed to record achievements: ${error.message}`);
+        }
+
+        const inserted = (data || []) as DatabaseAchievement[];
+        if (inserted.length === 0) {
+            return [];
+        }
+
+        await this.addToProgress(supabase, userId, inserted.map(a => a.achievement_id));
+
+        console.log(`Unlocked ${inserted.length} achievements for user ${userId}: ${inserted.map(a => a.achievement_id).join(', ')}`);
+
+        return inserted.map(achievement => ({
+            id: achievement.achievement_id,
+            title: achievement.title,
+            description: achievement.description || '',
+            icon: achievement.icon,
+            unlocked_at: achievement.unlocked_at,
+        }));
+    }
+
+    private async getUnlockedIds(supabase: SupabaseClient, userId: string): Promise<Set<string>> {
+        const { data, error } = await supabase
+            .from('achievements')
+            .select('achievement_id')
+            .eq('user_id', userId);
+
+        if (error) {
+            throw new Error(`Failed to load achievements: ${error.message}`);
+        }
+
+        return new Set((data || []).map(row => row.achievement_id));
+    }
+
+    /**
+     * Build the stats snapshot; evaluation-only stats are skipped for other triggers
+     */
+    private async getStats(
+        supabase: SupabaseClient,
+        userId: string,
+        trigger: AchievementTrigger
+    ): Promise<AchievementStats> {
+        const { data: context, error } = await supabase
+            .from('user_contexts')
+            .select('progress')
+            .eq('user_id', userId)
+            .single();
+
+        if (error && error.code !== 'PGRST116') {
+            throw new Error(`Failed to load user progress: ${error.message}`);
+        }
+
+        const progress = context?.progress || {};
+        const stats: AchievementStats = {
+            total_sessions: progress.total_sessions || 0,
+            current_streak: progress.current_streak || 0,
+            words_learned: progress.words_learned || 0,
+            phrases_practiced: progress.phrases_practiced || 0,
+            high_score_phrases: 0,
+            topic_categories_touched: 0,
+            total_topic_categories: 0,
+        };
+
+        if (trigger !== 'evaluation') {
+            return stats;
+        }
+
+        const [highScores, touchedCategories, allCategories] = await Promise.all([
+            supabase
+                .from('pronunciation_evaluations')
+                .select('id', { count: 'exact', head: true })
+                .eq('user_id', userId)
+                .gte('evaluation_score', HIGH_SCORE_THRESHOLD),
+            supabase
+                .from('pronunciation_evaluations')
+                .select('topics!topic_id(category)')
+                .eq('user_id', userId)
+                .not('topic_id', 'is', null),
+            globalCache.getOrSet('topic_categories', async () => {
+                const { data } = await supabase
+                    .from('topics')
+                    .select('category')
+                    .eq('is_active', true);
+                return Array.from(new Set((data || []).map(topic => topic.category)));
+            }, 3600000), // 1 hour cache
+        ]);
+
+        stats.high_score_phrases = highScores.count || 0;
+        stats.topic_categories_touched = new Set(
+            (touchedCategories.data || [])
+                .map((row: any) => row.topics?.category)
+                .filter(Boolean)
+        ).size;
+        stats.total_topic_categories = allCategories.length;
+
+        return stats;
+    }
+
+    private async addToProgress(supabase: SupabaseClient, userId: string, achievementIds: string[]): Promise<void> {
+        // Merged in place so concurrent session and agent progress writes are not overwritten
+        const { error } = await supabase.rpc('add_unlocked_achievements', {
+            p_user_id: userId,
+            p_achievement_ids: achievementIds,
+        });
+
+        if (error) {
+            console.error('Failed to add achievements to progress:', error);
+        }
+    }
+}
+
+// Export singleton instance
+export const achievementService = new AchievementService();
@@ -0,0 +1,317 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { globalRequestBatcher, BatchRequest } from '../utils/request-batcher.js';
+import { SupabaseBatchPersistence } from './batch-persistence.service.js';
+import { achievementService, UnlockedAchievement } from './achievement.service.js';
+
+export type PendingUpdateStatus = 'queued' | 'processing' | 'applied' | 'failed' | 'dead_lettered';
+
+export interface PendingAgentUpdate {
+    id: string;
+    user_id: string;
+    session_id: string | null;
+    agent_id: string | null;
+    update_type: BatchRequest['type'];
+    payload: Record<string, any>;
+    status: PendingUpdateStatus;
+    attempts: number;
+    max_attempts: number;
+    last_error: string | null;
+    applied_delta: Record<string, any> | null;
+    next_attempt_at: string;
+    locked_at: string | null;
+    applied_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface EnqueueUpdateInput {
+    id: string;
+    type: BatchRequest['type'];
+    userId: string;
+    sessionId?: string;
+    agentId?: string;
+    data: any;
+}
+
+export interface DrainResult {
+    claimed: number;
+    applied: number;
+    failed: number;
+    dead_lettered: number;
+    released_stale: number;
+}
+
+/**
+ * Map an outbox row to the status shape reported to agents.
+ * Rows mid-drain are still reported as queued.
+ */
+export function formatBatchStatus(row: PendingAgentUpdate) {
+    const status = row.status === 'processing' ? 'queued' : row.status;
+
+    return {
+        batch_id: row.id,
+        user_id: row.user_id,
+        session_id: row.session_id,
+        update_type: row.update_type,
+        status,
+        attempts: row.attempts,
+        max_attempts: row.max_attempts,
+        applied_delta: row.applied_delta,
+        error: row.last_error,
+        next_attempt_at: status === 'failed' ? row.next_attempt_at : null,
+        applied_at: row.applied_at,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+// Rows stuck in processing longer than this are assumed to belong to a frozen instance
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export class AgentUpdateQueueService {
+    /**
+     * Durably record an update before acknowledging it to the agent
+     */
+    async enqueue(supabase: SupabaseClient, input: EnqueueUpdateInput): Promise<PendingAgentUpdate> {
+        const { data, error } = await supabase
+            .from('pending_agent_updates')
+            .insert({
+                id: input.id,
+                user_id: input.userId,
+                session_id: input.sessionId || null,
+                agent_id: input.agentId || null,
+                update_type: input.type,
+                payload: input.data || {},
+            })
+            .select('*')
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to enqueue agent update: ${error.message}`);
+        }
+
+        return data as PendingAgentUpdate;
+    }
+
+    /**
+     * Look up outbox rows by batch ID
+     */
+    async getUpdates(supabase: SupabaseClient, userId: string, ids: string[]): Promise<PendingAgentUpdate[]> {
+        if (ids.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await supabase
+            .from('pending_agent_updates')
+            .select('*')
+            .eq('user_id', userId)
+            .in('id', ids);
+
+        if (error) {
+            throw new Error(`Failed to load pending agent updates: ${error.message}`);
+        }
+
+        return (data || []) as PendingAgentUpdate[];
+    }
+
+    /**
+     * Apply due updates. Each row is claimed with a conditional status change so
+     * concurrent drains never apply the same row twice; applied rows are never revisited.
+     * Progress deltas are applied and marked applied in one transaction. Vocabulary and
+     * achievement writes skip existing rows, so re-running them after a crash is harmless.
+     */
+    async drain(
+        supabase: SupabaseClient,
+        options: { limit?: number; now?: Date } = {}
+    ): Promise<DrainResult> {
+        const now = options.now || new Date();
+        const result: DrainResult = { claimed: 0, applied: 0, failed: 0, dead_lettered: 0, released_stale: 0 };
+
+        result.released_stale = await this.releaseStaleClaims(supabase, now);
+
+        const { data: candidates, error } = await supabase
+            .from('pending_agent_updates')
+            .select('*')
+            .in('status', ['queued', 'failed'])
+            .lte('next_attempt_at', now.toISOString())
+            .order('created_at', { ascending: true })
+            .limit(options.limit || 50);
+
+        if (error) {
+            throw new Error(`Failed to load pending agent updates: ${error.message}`);
+        }
+
+        const claimed: PendingAgentUpdate[] = [];
+        for (const row of (candidates || []) as PendingAgentUpdate[]) {
+            const { data: claimedRow } = await supabase
+                .from('pending_agent_updates')
+                .update({
+                    status: 'processing',
+                    attempts: row.attempts + 1,
+                    locked_at: now.toISOString(),
+                })
+                .eq('id', row.id)
+                .eq('status', row.status)
+                .eq('attempts', row.attempts)
+                .select('*')
+                .maybeSingle();
+
+            if (claimedRow) {
+                claimed.push(claimedRow as PendingAgentUpdate);
+            }
+        }
+
+        result.claimed = claimed.length;
+        if (claimed.length === 0) {
+            return result;
+        }
+
+        const batchResults = await globalRequestBatcher.processRequests(claimed.map(row => ({
+            id: row.id,
+            type: row.update_type,
+            data: row.payload,
+            userId: row.user_id,
+            sessionId: row.session_id || undefined,
+            timestamp: new Date(row.created_at).getTime(),
+            attempt: row.attempts,
+        })), new SupabaseBatchPersistence(supabase));
+
+        const resultsById = new Map(batchResults.map(r => [r.id, r]));
+
+        // Progress changes can unlock achievements; report them with each applied update
+        const progressUsers = new Set(claimed
+            .filter(row => row.update_type === 'progress_update' && resultsById.get(row.id)?.success)
+            .map(row => row.user_id));
+        const achievementsByUser = new Map<string, UnlockedAchievement[]>();
+        for (const userId of progressUsers) {
+            try {
+                achievementsByUser.set(userId, await achievementService.evaluate(supabase, userId, 'progress'));
+            } catch (achievementError) {
+                console.error(`Achievement evaluation after progress update failed for user ${userId}:`, achievementError);
+            }
+        }
+
+        for (const row of claimed) {
+            const batchResult = resultsById.get(row.id);
+
+            if (batchResult?.success) {
+                const newAchievements = achievementsByUser.get(row.user_id);
+                await this.markApplied(supabase, row, {
+                    ...batchResult.appliedDelta,
+                    ...(newAchievements?.length && { new_achievements: newAchievements }),
+                });
+                result.applied++;
+                continue;
+            }
+
+            const deadLettered = await this.markFailed(
+                supabase,
+                row,
+                batchResult?.error || 'Update was not processed',
+                now
+            );
+            if (deadLettered) {
+                result.dead_lettered++;
+            } else {
+                result.failed++;
+            }
+        }
+
+        console.log(`Drained pending agent updates: ${result.applied} applied, ${result.failed} failed, ${result.dead_lettered} dead-lettered`);
+
+        return result;
+    }
+
+    /**
+     * Put rows whose claim has expired back up for retry
+     */
+    private async releaseStaleClaims(supabase: SupabaseClient, now: Date): Promise<number> {
+        const staleBefore = new Date(now.getTime() - PROCESSING_TIMEOUT_MS).toISOString();
+
+        const { data, error } = await supabase
+            .from('pending_agent_updates')
+            .update({
+                status: 'failed',
+                last_error: 'Processing timed out',
+                locked_at: null,
+            })
+            .eq('status', 'processing')
+            .lt('locked_at', staleBefore)
+            .select('id');
+
+        if (error) {
+            console.error('Failed to release stale pending updates:', error);
+            return 0;
+        }
+
+        return data?.length || 0;
+    }
+
+    /**
+     * Record the applied delta. Progress rows are already marked applied by the apply itself;
+     * this only adds achievements unlocked as a result.
+     */
+    private async markApplied(
+        supabase: SupabaseClient,
+        row: PendingAgentUpdate,
+        appliedDelta: Record<string, any> | null
+    ): Promise<void> {
+        const { error } = await supabase
+            .from('pending_agent_updates')
+            .update({
+                status: 'applied',
+                applied_delta: appliedDelta,
+                applied_at: new Date().toISOString(),
+                last_error: null,
+                locked_at: null,
+            })
+            .eq('id', row.id)
+            .eq('attempts', row.attempts)
+            .in('status', ['processing', 'applied']);
+
+        if (error) {
+            console.error(`Failed to mark pending update ${row.id} as applied:`, error);
+        }
+    }
+
+    /**
+     * Schedule a retry with exponential backoff, or dead-letter the row once
+     * it has used up its attempts. Returns true if the row was dead-lettered.
+     */
+    private async markFailed(
+        supabase: SupabaseClient,
+        row: PendingAgentUpdate,
+        errorMessage: string,
+        now: Date
+    ): Promise<boolean> {
+        const deadLettered = row.attempts >= row.max_attempts;
+        const retryDelay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, row.attempts - 1), MAX_RETRY_DELAY_MS);
+
+        const { error } = await supabase
+            .from('pending_agent_updates')
+            .update({
+                status: deadLettered ? 'dead_lettered' : 'failed',
+                last_error: errorMessage,
+                next_attempt_at: new Date(now.getTime() + retryDelay).toISOString(),
+                locked_at: null,
+            })
+            .eq('id', row.id)
+            .eq('attempts', row.attempts)
+            .eq('status', 'processing');
+
+        if (error) {
+            console.error(`Failed to mark pending update ${row.id} as failed:`, error);
+        }
+
+        if (deadLettered) {
+            console.error(`Pending agent update ${row.id} dead-lettered after ${row.attempts} attempts: ${errorMessage}`);
+        }
+
+        return deadLettered;
+    }
+}
+
+// Export singleton instance
+export const agentUpdateQueueService = new AgentUpdateQueueService();
@@ -0,0 +1,34 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { UserPreferences } from '../types/index.js';
+import { AudioOptions, resolveAudioOptions } from '../utils/audio-options.js';
+
+export class AudioPreferencesService {
+    /**
+     * Audio options for a user: request overrides first, then their stored preferences
+     */
+    async resolve(
+        supabase: SupabaseClient,
+        userId: string,
+        overrides?: Partial<AudioOptions>
+    ): Promise<AudioOptions> {
+        // Nothing left to look up when the request sets every option
+        if (overrides?.voice && overrides.speed && overrides.input_mode) {
+            return resolveAudioOptions(overrides, null);
+        }
+
+        const { data, error } = await supabase
+            .from('user_contexts')
+            .select('preferences')
+            .eq('user_id', userId)
+            .single();
+
+        if (error && error.code !== 'PGRST116') {
+            throw new Error(`Failed to load audio preferences: ${error.message}`);
+        }
+
+        return resolveAudioOptions(overrides, (data?.preferences as Partial<UserPreferences>) || null);
+    }
+}
+
+// Export singleton instance
+export const audioPreferencesService = new AudioPreferencesService();
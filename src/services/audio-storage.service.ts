@@ -0,0 +1,172 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createReadStream } from 'fs';
+import { writeFile, readFile, mkdir, stat, rename } from 'fs/promises';
+import { Readable } from 'stream';
+import * as path from 'path';
+
+export type AudioStorageBackend = 'local' | 'supabase';
+
+export interface ByteRange {
+    start: number;
+    end: number; // inclusive
+}
+
+export interface StoredAudio {
+    size: number;
+    lastModified?: Date;
+    stream(range?: ByteRange): ReadableStream<Uint8Array>;
+}
+
+/**
+ * Content-addressed audio storage; keys are file names such as `<md5>.mp3`
+ */
+export interface AudioStorage {
+    readonly backend: AudioStorageBackend;
+    get(key: string): Promise<Buffer | null>;
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    open(key: string): Promise<StoredAudio | null>;
+}
+
+/**
+ * Stores audio files in a directory on the local filesystem (./audio by default)
+ */
+export class LocalAudioStorage implements AudioStorage {
+    readonly backend = 'local' as const;
+
+    constructor(private directory: string = path.join(process.cwd(), 'audio')) { }
+
+    async get(key: string): Promise<Buffer | null> {
+        try {
+            return await readFile(this.filePath(key));
+        } catch (error) {
+            if (isMissingFile(error)) return null;
+            throw error;
+        }
+    }
+
+    async put(key: string, data: Buffer): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        // Write then rename so readers never see a partial file
+        const tempPath = `${this.filePath(key)}.${process.pid}.tmp`;
+        await writeFile(tempPath, data);
+        await rename(tempPath, this.filePath(key));
+    }
+
+    async open(key: string): Promise<StoredAudio | null> {
+        const filePath = this.filePath(key);
+        try {
+            const info = await stat(filePath);
+            return {
+                size: info.size,
+                lastModified: info.mtime,
+                stream: (range?: ByteRange) => Readable.toWeb(
+                    createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined)
+                ) as ReadableStream<Uint8Array>,
+            };
+        } catch (error) {
+            if (isMissingFile(error)) return null;
+            throw error;
+        }
+    }
+
+    private filePath(key: string): string {
+        return path.join(this.directory, path.basename(key));
+    }
+}
+
+/**
+ * Stores audio files in a Supabase Storage bucket
+ */
+export class SupabaseAudioStorage implements AudioStorage {
+    readonly backend = 'supabase' as const;
+
+    constructor(private client: SupabaseClient, private bucket: string = 'audio') { }
+
+    async get(key: string): Promise<Buffer | null> {
+        const blob = await this.download(key);
+        return blob ? Buffer.from(await blob.arrayBuffer()) : null;
+    }
+
+    async put(key: string, data: Buffer, contentType: string): Promise<void> {
+        const { error } = await this.client.storage
+            .from(this.bucket)
+            .upload(key, data, { contentType, upsert: true, cacheControl: '31536000' });
+
+        if (error) {
+            throw new Error(`Failed to upload audio ${key}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Downloads the whole object to answer every request, Range requests included, and slices it
+     * in memory. Fine for short pronunciation clips; larger files would need ranged downloads.
+     */
+    async open(key: string): Promise<StoredAudio | null> {
+        const blob = await this.download(key);
+        if (!blob) return null;
+
+        return {
+            size: blob.size,
+            stream: (range?: ByteRange) => (range ? blob.slice(range.start, range.end + 1) : blob).stream(),
+        };
+    }
+
+    private async download(key: string): Promise<Blob | null> {
+        const { data, error } = await this.client.storage.from(this.bucket).download(key);
+
+        if (error) {
+            // The storage API reports missing objects as a 400/404 "not found"
+            if (/not.?found/i.test(error.message) || isNotFoundStatus(error)) {
+                return null;
+            }
+            throw new Error(`Failed to download audio ${key}: ${error.message}`);
+        }
+        return data;
+    }
+}
+
+function isNotFoundStatus(error: Error): boolean {
+    // StorageApiError carries a numeric status; older responses pass through statusCode as a string
+    const status = 'status' in error ? error.status : 'statusCode' in error ? error.statusCode : undefined;
+    return String(status) === '404';
+}
+
+function isMissingFile(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Create the storage selected by AUDIO_STORAGE_BACKEND (local | supabase, default local)
+ */
+export function createAudioStorage(): AudioStorage {
+    const backend = (process.env.AUDIO_STORAGE_BACKEND || import.meta.env?.VITE_AUDIO_STORAGE_BACKEND || 'local').toLowerCase();
+
+    if (backend === 'supabase') {
+        const url = process.env.VITE_SUPABASE_URL || import.meta.env?.VITE_SUPABASE_URL;
+        const serviceKey = process.env.VITE_SUPABASE_SERVICE_ROLE_KEY || import.meta.env?.VITE_SUPABASE_SERVICE_ROLE_KEY;
+        if (!url || !serviceKey) {
+            throw new Error('Supabase audio storage requires VITE_SUPABASE_URL and VITE_SUPABASE_SERVICE_ROLE_KEY');
+        }
+
+        const client = createClient(url, serviceKey, { auth: { persistSession: false } });
+        return new SupabaseAudioStorage(client, process.env.AUDIO_STORAGE_BUCKET || 'audio');
+    }
+
+    if (backend !== 'local') {
+        throw new Error(`Unknown audio storage backend: ${backend}`);
+    }
+
+    return new LocalAudioStorage(process.env.AUDIO_STORAGE_DIR || undefined);
+}
+
+let audioStorage: AudioStorage | null = null;
+
+/**
+ * Shared audio storage, created on first use
+ */
+export function getAudioStorage(): AudioStorage {
+    if (!audioStorage) {
+        audioStorage = createAudioStorage();
+    }
+    return audioStorage;
+}
@@ -0,0 +1,118 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+    globalCache,
+    AggregatedProgress,
+    BatchPersistenceAdapter,
+    OutboxClaim,
+    VocabularyItem,
+} from '../utils/request-batcher.js';
+import { getAchievementRule } from '../utils/achievement-rules.js';
+
+/**
+ * Writes batched agent updates to Supabase
+ */
+export class SupabaseBatchPersistence implements BatchPersistenceAdapter {
+    constructor(private supabase: SupabaseClient) { }
+
+    /**
+     * Merge an aggregated progress delta into user_contexts.progress and mark the
+     * claimed outbox rows applied with their own deltas, in one transaction
+     */
+    async applyProgressUpdate(userId: string, delta: AggregatedProgress, claims: OutboxClaim[]): Promise<void> {
+        // pronunciation_score_avg is not taken from the delta; it is recalculated
+        // from pronunciation_attempts whenever an attempt is recorded
+        const { error } = await this.supabase.rpc('apply_agent_progress_update', {
+            p_user_id: userId,
+            p_claims: claims,
+            p_words_learned: delta.words_learned,
+            p_phrases_practiced: delta.phrases_practiced,
+            p_session_time: delta.total_session_time,
+            p_grammar_points: delta.grammar_points_covered,
+        });
+
+        if (error) {
+            throw new Error(`Failed to update user progress: ${error.message}`);
+        }
+
+        // Drop the cached context so agents see the new progress immediately
+        globalCache.delete(`user_context:${userId}`);
+    }
+
+    /**
+     * Insert vocabulary, skipping words the user already has. Returns the number inserted.
+     */
+    async insertVocabulary(userId: string, items: VocabularyItem[]): Promise<number> {
+        const rows = items.map(item => ({
+            user_id: userId,
+            word: item.word,
+            reading: item.reading || null,
+            meaning: item.meaning || null,
+            session_id: item.session_id || null,
+        }));
+
+        const { data, error } = await this.supabase
+            .from('user_vocabulary')
+            .upsert(rows, { onConflict: 'user_id,word', ignoreDuplicates: true })
+            .select('id');
+
+        if (error) {
+            throw new Error(`Failed to insert vocabulary: ${error.message}`);
+        }
+
+        return data?.length || 0;
+    }
+
+    /**
+     * Record achievements the user has not unlocked yet. Returns the newly unlocked IDs.
+     */
+    async unlockAchievements(userId: string, achievementIds: string[]): Promise<string[]> {
+        const { data: existing, error: existingError } = await this.supabase
+            .from('achievements')
+            .select('achievement_id')
+            .eq('user_id', userId)
+            .in('achievement_id', achievementIds);
+
+        if (existingError) {
+            throw new Error(`Failed to load achievements: ${existingError.message}`);
+        }
+
+        const alreadyUnlocked = new Set((existing || []).map(row => row.achievement_id));
+        const newlyUnlocked = achievementIds.filter(id => !alreadyUnlocked.has(id));
+
+        if (newlyUnlocked.length === 0) {
+            return [];
+        }
+
+        const { error: insertError } = await this.supabase
+            .from('achievements')
+            .upsert(newlyUnlocked.map(achievementId => {
+                const rule = getAchievementRule(achievementId);
+                return {
+                    user_id: userId,
+                    achievement_id: achievementId,
+                    title: rule?.title || achievementId,
+                    description: rule?.description || null,
+                    icon: rule?.icon || null,
+                };
+            }), { onConflict: 'user_id,achievement_id', ignoreDuplicates: true });
+
+        if (insertError) {
+            throw new Error(`Failed to unlock achievements: ${insertError.message}`);
+        }
+
+        // Merged in place so concurrent session and agent progress writes are not overwritten
+        const { error: progressError } = await this.supabase.rpc('add_unlocked_achievements', {
+            p_user_id: userId,
+            p_achievement_ids: newlyUnlocked,
+        });
+
+        if (progressError) {
+            throw new Error(`Failed to update user progress: ${progressError.message}`);
+        }
+
+        // Drop the cached context so agents see the new progress immediately
+        globalCache.delete(`user_context:${userId}`);
+
+        return newlyUnlocked;
+    }
+}
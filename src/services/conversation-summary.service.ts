@@ -1,95 +1,187 @@
-import OpenAI from 'openai';
 import * as crypto from 'crypto';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { SpeechProvider, ChatCompletionRequest, getSpeechProvider } from '../speech/index.js';
+import { sessionDigestService } from './session-digest.service.js';
 import {
     ConversationEntry,
     DatabaseConversation,
+    DatabaseSessionDigest,
     DatabaseUserSummary,
-    GetUserSummaryResponse
+    GetUserSummaryResponse,
+    StructuredUserSummary,
+    StructuredUserSummarySchema
 } from '../api/v1/schemas/conversations.schemas.js';
 
-export class ConversationSummaryService {
-    private openai: OpenAI;
+const SUMMARY_JSON_FORMAT = `{
+  "levelEstimate": one of "absolute_beginner", "beginner", "elementary", "intermediate", "upper_intermediate", "advanced",
+  "goals": [up to 5 short phrases],
+  "strengths": [up to 5 short phrases],
+  "gaps": [up to 5 short phrases],
+  "recommendedTopics": [up to 5 topic names],
+  "learningStyle": "communication/learning style in 1 line",
+  "teachingApproach": "best teaching method in 1 line",
+  "confidence": number from 0 to 1, how well the data supports this summary
+}`;
+
+const MAX_SUMMARY_ATTEMPTS = 2;
+
+// A full rebuild is due this long after the last one, or after this many merged digests
+const FULL_REBUILD_INTERVAL_MS = 48 * 60 * 60 * 1000;
+const FULL_REBUILD_AFTER_DIGESTS = 20;
+
+// Bounds on the merge prompt, so its cost does not grow with the user's history
+const MAX_DIGESTS_PER_MERGE = 5;
+const MAX_MERGE_DIGEST_CHARS = 600;
+const MAX_MERGE_SUMMARY_CHARS = 1500;
+
+/**
+ * Render a structured summary in the compact Profile/Style/Progress/Focus/Approach text format
+ */
+export function renderCompactSummary(summary: StructuredUserSummary, name: string): string {
+    const list = (items: string[], fallback: string) => items.length > 0 ? items.join(', ') : fallback;
+
+    return [
+        `**Profile:** ${name}, ${summary.levelEstimate.replace(/_/g, ' ')}, goals: ${list(summary.goals, 'none set')}`,
+        `**Style:** ${summary.learningStyle}`,
+        `**Progress:** Strengths: ${list(summary.strengths, 'none yet')}; gaps: ${list(summary.gaps, 'none identified')}`,
+        `**Focus:** ${list(summary.recommendedTopics, 'general')}`,
+        `**Approach:** ${summary.teachingApproach}`,
+    ].join('\n');
+}
 
-    constructor() {
-        const apiKey = process.env.OPENAI_API_KEY || import.meta.env.VITE_OPENAI_API_KEY;
-        if (!apiKey) {
-            throw new Error('OpenAI API key not found in environment variables');
-        }
+export class ConversationSummaryService {
+    // Resolved on first use so importing this module never needs an API key or network
+    constructor(private speechProvider?: SpeechProvider) { }
 
-        this.openai = new OpenAI({
-            apiKey: apiKey,
-        });
+    private get speech(): SpeechProvider {
+        return this.speechProvider ??= getSpeechProvider();
     }
 
     /**
-     * Store conversation entries in database
+     * Store conversation entries in database.
+     * Entries with a client message id (or sequence) are upserted, so resending them is a no-op.
      */
     async storeConversations(
         supabase: SupabaseClient,
         conversations: ConversationEntry[]
-    ): Promise<{ stored_count: number; session_ids: string[] }> {
-        const conversationsToInsert: Omit<DatabaseConversation, 'id' | 'created_at'>[] = conversations.map(conv => ({
-            user_id: conv.userId,
-            session_id: conv.sessionId,
-            message: conv.message,
-            role: conv.role,
-            metadata: conv.metadata || null,
-        }));
+    ): Promise<{ stored_count: number; duplicate_count: number; session_ids: string[] }> {
+        const conversationsToInsert: Omit<DatabaseConversation, 'id' | 'seq' | 'created_at'>[] = [];
+        const seenKeys = new Set<string>();
+
+        for (const conv of conversations) {
+            const clientMessageId = conv.clientMessageId
+                ?? (conv.sequence !== undefined ? `seq:${conv.sequence}` : null);
+
+            // Repeats within the same batch would otherwise reach the database twice
+            if (clientMessageId) {
+                const key = JSON.stringify([conv.userId, conv.sessionId, clientMessageId]);
+                if (seenKeys.has(key)) continue;
+                seenKeys.add(key);
+            }
+
+            conversationsToInsert.push({
+                user_id: conv.userId,
+                session_id: conv.sessionId,
+                message: conv.message,
+                role: conv.role,
+                metadata: conv.metadata || null,
+                client_message_id: clientMessageId,
+                sequence_number: conv.sequence ?? null,
+            });
+        }
 
         const { data, error } = await supabase
             .from('conversations')
-            .insert(conversationsToInsert)
+            .upsert(conversationsToInsert, {
+                onConflict: 'user_id,session_id,client_message_id',
+                ignoreDuplicates: true
+            })
             .select('session_id');
 
         if (error) {
             throw new Error(`Failed to store conversations: ${error.message}`);
         }
 
-        const sessionIds = [...new Set((data?.map(d => d.session_id) || []) as string[])];
+        // Only newly inserted rows come back; ignored duplicates do not
+        const storedCount = data?.length || 0;
+        const sessionIds = [...new Set(conversations.map(conv => conv.sessionId))];
 
         return {
-            stored_count: conversationsToInsert.length,
+            stored_count: storedCount,
+            duplicate_count: conversations.length - storedCount,
             session_ids: sessionIds
         };
     }
 
     /**
-     * Get or generate user summary with caching
+     * Get the user summary, merging in digests of sessions that ended since it was generated.
+     * Falls back to a full rebuild when there is no summary, one is due, or rebuild is requested.
      */
     async getUserSummary(
         supabase: SupabaseClient,
-        userId: string
+        userId: string,
+        options: { rebuild?: boolean; format?: 'json' | 'text' } = {}
     ): Promise<GetUserSummaryResponse> {
-        // Check if cached summary exists and is valid
-        const cachedSummary = await this.getCachedSummary(supabase, userId);
-
-        if (cachedSummary) {
-            return {
-                success: true,
-                userId: userId,
-                compactSummary: cachedSummary.compact_summary,
-                generatedAt: cachedSummary.generated_at,
-                fromCache: true,
-                dataIncluded: await this.getDataIncludedMetadata(supabase, userId)
-            };
+        const format = options.format || 'text';
+
+        if (!options.rebuild) {
+            const cachedSummary = await this.getCachedSummary(supabase, userId);
+
+            // Summaries stored before structured output have nothing to merge into, so they are rebuilt
+            if (cachedSummary?.structured_summary && cachedSummary.digest_count < FULL_REBUILD_AFTER_DIGESTS) {
+                // Claimed so a concurrent read (e.g. the user and an agent) cannot merge the same digests
+                const claimed = await sessionDigestService.claimUnmerged(supabase, userId, MAX_DIGESTS_PER_MERGE);
+                let summary = cachedSummary;
+
+                try {
+                    const digests = await sessionDigestService.fillQueued(supabase, userId, claimed);
+                    if (digests.length > 0) {
+                        summary = await this.mergeDigests(supabase, cachedSummary, digests);
+                    }
+                } catch (mergeError) {
+                    // The previous summary is still useful; the digests stay queued for the next read
+                    console.error('Summary digest merge failed:', mergeError);
+                } finally {
+                    await sessionDigestService.releaseClaims(supabase, userId, claimed.map(d => d.id));
+                }
+
+                return this.formatSummaryResponse(
+                    summary,
+                    summary === cachedSummary,
+                    await this.getDataIncludedMetadata(supabase, userId),
+                    format
+                );
+            }
         }
 
         // Generate new summary
         const summary = await this.generateUserSummary(supabase, userId);
 
+        return this.formatSummaryResponse(summary.record, false, summary.dataIncluded, format);
+    }
+
+    private formatSummaryResponse(
+        summary: DatabaseUserSummary,
+        fromCache: boolean,
+        dataIncluded: GetUserSummaryResponse['dataIncluded'],
+        format: 'json' | 'text'
+    ): GetUserSummaryResponse {
         return {
             success: true,
-            userId: userId,
+            userId: summary.user_id,
             compactSummary: summary.compact_summary,
+            ...(format === 'json' && summary.structured_summary ? { summary: summary.structured_summary } : {}),
             generatedAt: summary.generated_at,
-            fromCache: false,
-            dataIncluded: summary.dataIncluded
+            fromCache,
+            summaryMode: summary.summary_mode || 'full',
+            digestsMerged: summary.digest_count || 0,
+            dataIncluded
         };
     }
 
     /**
-     * Check for valid cached summary using optimized counters
+     * Stored summary, unless a full rebuild is due.
+     * Activity alone does not invalidate it; finished sessions reach it as digests.
      */
     private async getCachedSummary(
         supabase: SupabaseClient,
@@ -106,32 +198,103 @@ export class ConversationSummaryService {
             return null;
         }
 
-        // Get current data hash from counters table (single query)
+        return cached as DatabaseUserSummary;
+    }
+
+    /**
+     * Fold session digests into the stored summary with a bounded prompt.
+     * The write only succeeds if the summary is still the version that was read.
+     */
+    private async mergeDigests(
+        supabase: SupabaseClient,
+        current: DatabaseUserSummary,
+        digests: DatabaseSessionDigest[]
+    ): Promise<DatabaseUserSummary> {
+        const prompt = `
+CURRENT SUMMARY:
+${current.structured_summary
+            ? JSON.stringify(current.structured_summary)
+            : current.compact_summary.substring(0, MAX_MERGE_SUMMARY_CHARS)}
+
+NEW SESSIONS (oldest first):
+${digests.map(d => `- ${d.digest.substring(0, MAX_MERGE_DIGEST_CHARS)}`).join('\n')}
+
+Update the summary with what the new sessions show.`;
+
+        const [merged, { data: user }] = await Promise.all([
+            this.requestStructuredSummary({
+                model: "gpt-5-nano",
+                messages: [
+                    {
+                        role: "system",
+                        content: `Maintain compact user summaries for AI agents. Rewrite the current summary to reflect the new session notes, preferring newer information where they conflict. Respond with ONLY a JSON object in exactly this shape:\n\n${SUMMARY_JSON_FORMAT}\n\nBe extremely concise. No fluff.`
+                    },
+                    {
+                        role: "user",
+                        content: prompt
+                    }
+                ],
+                purpose: 'user_summary_merge',
+                context: {
+                    summary: current.structured_summary,
+                    digests: digests.length,
+                },
+            }),
+            supabase
+                .from('users')
+                .select('display_name')
+                .eq('user_id', current.user_id)
+                .single()
+        ]);
+
         const { data: counters } = await supabase
             .from('user_activity_counters')
             .select('data_hash')
-            .eq('user_id', userId)
+            .eq('user_id', current.user_id)
             .single();
 
-        if (!counters || cached.data_hash !== counters.data_hash) {
-            // Data has changed, cached summary is stale
-            return null;
+        const { data, error } = await supabase
+            .from('user_summaries')
+            .update({
+                compact_summary: renderCompactSummary(merged, user?.display_name || 'User'),
+                structured_summary: merged,
+                data_hash: counters?.data_hash || current.data_hash,
+                generated_at: new Date().toISOString(),
+                summary_mode: 'incremental',
+                digest_count: current.digest_count + digests.length,
+                updated_at: new Date().toISOString()
+            })
+            .eq('user_id', current.user_id)
+            .eq('generated_at', current.generated_at)
+            .eq('digest_count', current.digest_count)
+            .select('*')
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to cache summary: ${error.message}`);
+        }
+
+        if (!data) {
+            throw new Error('Summary changed while digests were being merged');
         }
 
-        return cached;
+        await sessionDigestService.markMerged(supabase, current.user_id, { ids: digests.map(d => d.id) });
+
+        return data as DatabaseUserSummary;
     }
 
     /**
-     * Generate new user summary using OpenAI
+     * Rebuild the user summary from recent data with the speech provider's chat model
      */
     private async generateUserSummary(
         supabase: SupabaseClient,
         userId: string
     ): Promise<{
-        compact_summary: string;
-        generated_at: string;
+        record: DatabaseUserSummary;
         dataIncluded: any;
     }> {
+        const startedAt = new Date().toISOString();
+
         // Gather all user data
         const userData = await this.gatherUserData(supabase, userId);
 
@@ -139,8 +302,9 @@ export class ConversationSummaryService {
             throw new Error('No user data found to generate summary');
         }
 
-        // Generate summary using OpenAI
-        const compactSummary = await this.callOpenAIForSummary(userData);
+        // Generate summary
+        const structuredSummary = await this.callModelForSummary(userData);
+        const compactSummary = renderCompactSummary(structuredSummary, userData.userProfile?.display_name || 'User');
 
         // Get data hash from counters table (single query)
         const { data: counters } = await supabase
@@ -153,13 +317,15 @@ export class ConversationSummaryService {
 
         // Cache the summary
         const generatedAt = new Date().toISOString();
-        const cacheExpiresAt = new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString(); // 48 hours
+        const cacheExpiresAt = new Date(Date.now() + FULL_REBUILD_INTERVAL_MS).toISOString();
+
+        const record = await this.cacheSummary(supabase, userId, compactSummary, structuredSummary, dataHash, generatedAt, cacheExpiresAt);
 
-        await this.cacheSummary(supabase, userId, compactSummary, dataHash, generatedAt, cacheExpiresAt);
+        // Sessions that ended before the rebuild started are already reflected in it
+        await sessionDigestService.markMerged(supabase, userId, { createdBefore: startedAt });
 
         return {
-            compact_summary: compactSummary,
-            generated_at: generatedAt,
+            record,
             dataIncluded: userData.metadata
         };
     }
@@ -235,39 +401,73 @@ export class ConversationSummaryService {
     }
 
     /**
-     * Call OpenAI to generate compact user summary
+     * Call the chat model to generate the structured user summary
      */
-    private async callOpenAIForSummary(userData: any): Promise<string> {
+    private async callModelForSummary(userData: any): Promise<StructuredUserSummary> {
         const prompt = this.constructSummaryPrompt(userData);
 
-        const completion = await this.openai.chat.completions.create({
+        const summary = await this.requestStructuredSummary({
             model: "gpt-5-nano", // Cost-effective model for summarization
             messages: [
                 {
                     role: "system",
-                    content: "Create ultra-compact user summaries for AI agents. Use EXACTLY this format:\n\n**Profile:** [Name, level, goals in 1 line]\n**Style:** [Communication/learning style in 1 line]\n**Progress:** [Key metrics, strengths, gaps in 1 line]\n**Focus:** [Current topics, interests in 1 line]\n**Approach:** [Best teaching method in 1 line]\n\nBe extremely concise. Each section MAX 20 words. No fluff."
+                    content: `Create compact user summaries for AI agents. Respond with ONLY a JSON object in exactly this shape:\n\n${SUMMARY_JSON_FORMAT}\n\nBe extremely concise. No fluff.`
                 },
                 {
                     role: "user",
                     content: prompt
                 }
             ],
+            purpose: 'user_summary',
+            context: {
+                name: userData.userProfile?.display_name,
+                learning_level: userData.userContext?.preferences?.learning_level,
+                learning_goals: userData.userContext?.preferences?.learning_goals,
+                topics: [...new Set(userData.sessions.flatMap((session: any) => session.topics_covered || []))].slice(0, 5),
+                conversations: userData.conversations.length,
+                evaluations: userData.evaluations.length,
+                sessions: userData.sessions.length,
+            },
         });
 
         console.log(prompt)
 
-        console.log(JSON.stringify(completion, null, 2))
+        return summary;
+    }
 
-        const summary = completion.choices[0]?.message?.content;
-        if (!summary) {
-            throw new Error('Failed to generate summary from OpenAI');
+    /**
+     * Run a summary completion and validate its JSON, retrying once on a malformed reply
+     */
+    private async requestStructuredSummary(request: ChatCompletionRequest): Promise<StructuredUserSummary> {
+        let lastError = 'no response';
+
+        for (let attempt = 1; attempt <= MAX_SUMMARY_ATTEMPTS; attempt++) {
+            const responseText = await this.speech.completeChat(request);
+            if (!responseText) {
+                lastError = 'no response';
+                continue;
+            }
+
+            try {
+                // Models sometimes wrap JSON in a code fence
+                const json = JSON.parse(responseText.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+                const parsed = StructuredUserSummarySchema.safeParse(json);
+                if (parsed.success) {
+                    return parsed.data;
+                }
+                lastError = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+            } catch {
+                lastError = 'reply is not valid JSON';
+            }
+
+            console.warn(`Invalid ${request.purpose} reply (attempt ${attempt}): ${lastError}`);
         }
 
-        return summary;
+        throw new Error(`Failed to generate summary from speech provider: ${lastError}`);
     }
 
     /**
-     * Construct prompt for OpenAI summarization
+     * Construct prompt for summarization
      */
     private constructSummaryPrompt(userData: any): string {
         const userName = userData.userProfile?.display_name || 'User';
@@ -327,30 +527,39 @@ Create compact summary for ${userName}.`;
     }
 
     /**
-     * Cache the generated summary
+     * Cache a fully rebuilt summary
      */
     private async cacheSummary(
         supabase: SupabaseClient,
         userId: string,
         compactSummary: string,
+        structuredSummary: StructuredUserSummary,
         dataHash: string,
         generatedAt: string,
         cacheExpiresAt: string
-    ): Promise<void> {
-        const { error } = await supabase
+    ): Promise<DatabaseUserSummary> {
+        const { data, error } = await supabase
             .from('user_summaries')
             .upsert({
                 user_id: userId,
                 compact_summary: compactSummary,
+                structured_summary: structuredSummary,
                 data_hash: dataHash,
                 generated_at: generatedAt,
                 cache_expires_at: cacheExpiresAt,
+                summary_mode: 'full',
+                digest_count: 0,
+                last_full_rebuild_at: generatedAt,
                 updated_at: new Date().toISOString()
-            }, { onConflict: 'user_id' });
+            }, { onConflict: 'user_id' })
+            .select('*')
+            .single();
 
         if (error) {
             throw new Error(`Failed to cache summary: ${error.message}`);
         }
+
+        return data as DatabaseUserSummary;
     }
 
     /**
@@ -0,0 +1,239 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DatabaseConversation, ConversationMessage } from '../api/v1/schemas/conversations.schemas.js';
+
+const MESSAGE_COLUMNS = 'id, session_id, role, message, metadata, client_message_id, sequence_number, seq, created_at';
+
+export interface ConversationListFilters {
+    cursor?: string;
+    limit?: number;
+    sessionId?: string;
+    role?: 'user' | 'assistant';
+    fromDate?: string;
+    toDate?: string;
+}
+
+export interface ConversationPage {
+    messages: ConversationMessage[];
+    next_cursor: string | null;
+    has_more: boolean;
+}
+
+export interface ConversationSessionGroup {
+    session_id: string;
+    message_count: number;
+    first_message_at: string;
+    last_message_at: string;
+    messages: ConversationMessage[];
+}
+
+export interface SessionTranscript {
+    session_id: string;
+    user_id: string;
+    messages: ConversationMessage[];
+    metadata: {
+        message_count: number;
+        user_message_count: number;
+        assistant_message_count: number;
+        started_at: string;
+        ended_at: string;
+        duration_seconds: number;
+        truncated: boolean;
+        learning_session: {
+            duration_minutes: number;
+            topics_covered: string[];
+            overall_performance: string | null;
+            created_at: string;
+        } | null;
+    };
+}
+
+/**
+ * Format a stored message for API responses
+ */
+export function formatConversationMessage(row: Pick<DatabaseConversation, 'id' | 'session_id' | 'role' | 'message' | 'metadata' | 'client_message_id' | 'sequence_number' | 'created_at'>): ConversationMessage {
+    return {
+        id: row.id,
+        session_id: row.session_id,
+        role: row.role,
+        message: row.message,
+        metadata: row.metadata || null,
+        client_message_id: row.client_message_id ?? null,
+        sequence_number: row.sequence_number ?? null,
+        created_at: row.created_at,
+    };
+}
+
+// Cursors are opaque to clients; they carry the seq of the last message returned
+function encodeCursor(seq: number): string {
+    return Buffer.from(String(seq)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+    const seq = Number(Buffer.from(cursor, 'base64url').toString());
+    if (!Number.isSafeInteger(seq) || seq <= 0) {
+        throw new Error('Invalid cursor');
+    }
+    return seq;
+}
+
+export class ConversationTranscriptService {
+    /**
+     * Page through a user's messages, newest first
+     */
+    async listConversations(
+        supabase: SupabaseClient,
+        userId: string,
+        filters: ConversationListFilters = {}
+    ): Promise<ConversationPage> {
+        const limit = filters.limit || 50;
+
+        let query = supabase
+            .from('conversations')
+            .select(MESSAGE_COLUMNS)
+            .eq('user_id', userId)
+            .order('seq', { ascending: false })
+            .limit(limit + 1);
+
+        if (filters.cursor) {
+            query = query.lt('seq', decodeCursor(filters.cursor));
+        }
+        if (filters.sessionId) {
+            query = query.eq('session_id', filters.sessionId);
+        }
+        if (filters.role) {
+            query = query.eq('role', filters.role);
+        }
+        if (filters.fromDate) {
+            query = query.gte('created_at', filters.fromDate);
+        }
+        if (filters.toDate) {
+            query = query.lt('created_at', filters.toDate);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+            throw new Error(`Failed to load conversations: ${error.message}`);
+        }
+
+        const rows = (data || []) as DatabaseConversation[];
+        const hasMore = rows.length > limit;
+        const page = rows.slice(0, limit);
+
+        return {
+            messages: page.map(formatConversationMessage),
+            next_cursor: hasMore ? encodeCursor(page[page.length - 1].seq) : null,
+            has_more: hasMore,
+        };
+    }
+
+    /**
+     * Group a newest-first page of messages by session, most recent session first
+     */
+    groupBySession(messages: ConversationMessage[]): ConversationSessionGroup[] {
+        const groups = new Map<string, ConversationMessage[]>();
+        for (const message of messages) {
+            const group = groups.get(message.session_id) || [];
+            group.push(message);
+            groups.set(message.session_id, group);
+        }
+
+        return Array.from(groups.entries()).map(([sessionId, sessionMessages]) => {
+            const ordered = [...sessionMessages].reverse();
+            return {
+                session_id: sessionId,
+                message_count: ordered.length,
+                first_message_at: ordered[0].created_at,
+                last_message_at: ordered[ordered.length - 1].created_at,
+                messages: ordered,
+            };
+        });
+    }
+
+    /**
+     * A session's messages in the order they were spoken, with transcript metadata.
+     * Client sequence numbers win over arrival order, since streamed turns can land out of order.
+     * Session ids come from clients and can be shared (e.g. by a room), so pass userId to
+     * read only that user's messages; only agents read a session unscoped.
+     * Returns null when the session has no messages.
+     */
+    async getTranscript(
+        supabase: SupabaseClient,
+        sessionId: string,
+        options: { limit?: number; userId?: string } = {}
+    ): Promise<SessionTranscript | null> {
+        const limit = options.limit || 500;
+
+        let messagesQuery = supabase
+            .from('conversations')
+            .select(`user_id, ${MESSAGE_COLUMNS}`)
+            .eq('session_id', sessionId);
+        let countsQuery = supabase
+            .from('conversations')
+            .select('role, created_at')
+            .eq('session_id', sessionId);
+
+        if (options.userId) {
+            messagesQuery = messagesQuery.eq('user_id', options.userId);
+            countsQuery = countsQuery.eq('user_id', options.userId);
+        }
+
+        const [messagesResult, countsResult] = await Promise.all([
+            messagesQuery
+                .order('sequence_number', { ascending: true, nullsFirst: false })
+                .order('seq', { ascending: true })
+                .limit(limit),
+            countsQuery
+                .order('seq', { ascending: true }),
+        ]);
+
+        if (messagesResult.error) {
+            throw new Error(`Failed to load transcript: ${messagesResult.error.message}`);
+        }
+        if (countsResult.error) {
+            throw new Error(`Failed to load transcript metadata: ${countsResult.error.message}`);
+        }
+
+        const rows = (messagesResult.data || []) as DatabaseConversation[];
+        const allMessages = (countsResult.data || []) as Pick<DatabaseConversation, 'role' | 'created_at'>[];
+        if (rows.length === 0) {
+            return null;
+        }
+
+        const userId = rows[0].user_id;
+        const timestamps = allMessages.map(row => new Date(row.created_at).getTime());
+        const startedAt = new Date(Math.min(...timestamps));
+        const endedAt = new Date(Math.max(...timestamps));
+
+        const { data: learningSession } = await supabase
+            .from('learning_sessions')
+            .select('duration_minutes, topics_covered, overall_performance, created_at')
+            .eq('session_id', sessionId)
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        return {
+            session_id: sessionId,
+            user_id: userId,
+            messages: rows.map(formatConversationMessage),
+            metadata: {
+                message_count: allMessages.length,
+                user_message_count: allMessages.filter(row => row.role === 'user').length,
+                assistant_message_count: allMessages.filter(row => row.role === 'assistant').length,
+                started_at: startedAt.toISOString(),
+                ended_at: endedAt.toISOString(),
+                duration_seconds: Math.round((endedAt.getTime() - startedAt.getTime()) / 1000),
+                truncated: allMessages.length > rows.length,
+                learning_session: learningSession ? {
+                    duration_minutes: learningSession.duration_minutes,
+                    topics_covered: learningSession.topics_covered || [],
+                    overall_performance: learningSession.overall_performance,
+                    created_at: learningSession.created_at,
+                } : null,
+            },
+        };
+    }
+}
+
+// Export singleton instance
+export const conversationTranscriptService = new ConversationTranscriptService();
@@ -0,0 +1,180 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { WeakSound } from '../types/index.js';
+import { getMinimalPairs } from '../utils/minimal-pairs.js';
+import { audioPreferencesService } from './audio-preferences.service.js';
+import { pronunciationService } from './pronunciation.service.js';
+import { pronunciationAttemptService } from './pronunciation-attempt.service.js';
+import { pronunciationStatsService } from './pronunciation-stats.service.js';
+
+// Topics averaging below this score (0-100) get phrase drills
+const LOW_TOPIC_SCORE = 80;
+const MAX_WEAK_SOUNDS = 3;
+const MAX_WEAK_TOPICS = 2;
+const PAIRS_PER_SOUND = 2;
+const PHRASES_PER_FOCUS = 2;
+
+export interface DrillTarget {
+    kanji: string;
+    romaji: string;
+    kana?: string;
+    translation?: string;
+    audio_data?: string;
+}
+
+export interface DrillItem {
+    rank: number;
+    type: 'minimal_pair' | 'phrase';
+    target: DrillTarget;
+    contrast?: DrillTarget;
+    focus: {
+        kind: 'sound' | 'topic';
+        key: string;
+        label: string;
+    };
+    reason: string;
+    tip?: string;
+    evaluation_id?: string;
+    last_score?: number | null;
+}
+
+export interface DrillSet {
+    drills: DrillItem[];
+    weakest_sounds: WeakSound[];
+    weak_topics: Array<{ topic: string; average_score: number }>;
+}
+
+export class DrillService {
+    /**
+     * Build a ranked drill set aimed at the learner's most frequent errors and weakest topics
+     */
+    async buildDrillSet(
+        supabase: SupabaseClient,
+        userId: string,
+        options: { limit?: number; daysBack?: number; includeAudio?: boolean } = {}
+    ): Promise<DrillSet> {
+        const limit = options.limit || 10;
+
+        const [{ weakest_sounds }, stats] = await Promise.all([
+            pronunciationAttemptService.getWeakestSounds(supabase, userId, {
+                daysBack: options.daysBack,
+                limit: MAX_WEAK_SOUNDS,
+            }),
+            pronunciationStatsService.getStats(supabase, userId),
+        ]);
+
+        const weakTopics = stats.pronunciation_topic_averages
+            .filter(topic => topic.average_score < LOW_TOPIC_SCORE)
+            .sort((a, b) => a.average_score - b.average_score)
+            .slice(0, MAX_WEAK_TOPICS);
+
+        const drills: Omit<DrillItem, 'rank'>[] = [];
+        const usedPhrases = new Set<string>();
+
+        for (const sound of weakest_sounds) {
+            const focus = { kind: 'sound' as const, key: sound.sound, label: sound.label };
+            const reason = `${sound.label}: wrong in ${sound.error_count} of ${sound.occurrences} recent attempts`;
+
+            for (const pair of getMinimalPairs(sound.sound).slice(0, PAIRS_PER_SOUND)) {
+                drills.push({
+                    type: 'minimal_pair',
+                    target: { ...pair.target },
+                    contrast: { ...pair.contrast },
+                    focus,
+                    reason,
+                    tip: pair.note,
+                });
+            }
+
+            const phrases = await this.getUserPhrases(supabase, userId, { kanji: sound.example_phrases });
+            for (const phrase of phrases.filter(p => !usedPhrases.has(p.kanji)).slice(0, PHRASES_PER_FOCUS)) {
+                usedPhrases.add(phrase.kanji);
+                drills.push({ type: 'phrase', target: phrase.target, focus, reason, evaluation_id: phrase.id, last_score: phrase.score });
+            }
+        }
+
+        for (const topic of weakTopics) {
+            const focus = { kind: 'topic' as const, key: topic.topic_id || topic.topic, label: topic.topic };
+            const reason = `${topic.topic} averages ${topic.average_score} across ${topic.evaluation_count} phrases`;
+
+            const phrases = await this.getUserPhrases(supabase, userId, { topicId: topic.topic_id, topic: topic.topic });
+            for (const phrase of phrases.filter(p => !usedPhrases.has(p.kanji)).slice(0, PHRASES_PER_FOCUS)) {
+                usedPhrases.add(phrase.kanji);
+                drills.push({ type: 'phrase', target: phrase.target, focus, reason, evaluation_id: phrase.id, last_score: phrase.score });
+            }
+        }
+
+        const ranked: DrillItem[] = drills.slice(0, limit).map((drill, index) => ({ rank: index + 1, ...drill }));
+
+        if (options.includeAudio) {
+            await this.attachAudio(supabase, userId, ranked);
+        }
+
+        return {
+            drills: ranked,
+            weakest_sounds,
+            weak_topics: weakTopics.map(topic => ({ topic: topic.topic, average_score: topic.average_score })),
+        };
+    }
+
+    /**
+     * The user's own phrases, lowest scoring first
+     */
+    private async getUserPhrases(
+        supabase: SupabaseClient,
+        userId: string,
+        filter: { kanji?: string[]; topicId?: string | null; topic?: string }
+    ): Promise<Array<{ id: string; kanji: string; score: number | null; target: DrillTarget }>> {
+        let query = supabase
+            .from('pronunciation_evaluations')
+            .select('id, kanji, romaji, translation, evaluation_score')
+            .eq('user_id', userId)
+            .order('evaluation_score', { ascending: true, nullsFirst: false })
+            .limit(PHRASES_PER_FOCUS * 3);
+
+        if (filter.kanji) {
+            if (filter.kanji.length === 0) {
+                return [];
+            }
+            query = query.in('kanji', filter.kanji);
+        } else if (filter.topicId) {
+            query = query.eq('topic_id', filter.topicId);
+        } else if (filter.topic) {
+            query = query.eq('topic', filter.topic);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+            console.error('Failed to load phrases for drills:', error);
+            return [];
+        }
+
+        return (data || []).map(row => ({
+            id: row.id,
+            kanji: row.kanji,
+            score: row.evaluation_score,
+            target: { kanji: row.kanji, romaji: row.romaji, translation: row.translation },
+        }));
+    }
+
+    /**
+     * Add TTS audio to each drill; a failed clip leaves that drill without audio
+     */
+    private async attachAudio(supabase: SupabaseClient, userId: string, drills: DrillItem[]): Promise<void> {
+        const audioOptions = await audioPreferencesService.resolve(supabase, userId);
+
+        for (const drill of drills) {
+            for (const word of [drill.target, drill.contrast]) {
+                if (!word) continue;
+                try {
+                    word.audio_data = await pronunciationService.generateAudioBase64(word.romaji, word.kanji, audioOptions);
+                } catch (audioError) {
+                    console.error(`Drill audio generation failed for ${word.kanji}:`, audioError);
+                }
+            }
+        }
+    }
+}
+
+// Export singleton instance
+export const drillService = new DrillService();
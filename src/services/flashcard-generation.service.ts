@@ -0,0 +1,198 @@
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { TranslationBreakdown } from './pronunciation.service.js';
+import {
+    DatabaseUserFlashCard,
+    FlashCardType,
+    UserPreferences,
+} from '../types/index.js';
+import { flashCardService, CreateFlashCardInput } from './flashcard.service.js';
+
+// Evaluations scoring below this (0-100) are treated as weak phrases
+export const LOW_SCORE_THRESHOLD = 70;
+
+const KANJI_PATTERN = /[一-龯㐀-䶿]/;
+
+export interface EvaluationCardSource {
+    kanji: string;
+    romaji: string;
+    translation: string;
+    topic?: string;
+    evaluation_score?: number | null;
+    translation_breakdown?: TranslationBreakdown | null;
+}
+
+export interface CardGenerationOptions {
+    createdBy: 'user' | 'agent';
+    agentId?: string | null;
+}
+
+export class FlashCardGenerationService {
+    /**
+     * Build a stable card ID so the same phrase never produces duplicate cards for a user
+     */
+    static buildCardId(cardType: FlashCardType, phrase: string): string {
+        const normalized = phrase.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+        const hash = createHash('sha256').update(`${cardType}:${normalized}`).digest('hex').substring(0, 16);
+        return `auto-${cardType}-${hash}`;
+    }
+
+    /**
+     * Load a user's preferences (null if the user has no context yet)
+     */
+    private async getPreferences(
+        supabase: SupabaseClient,
+        userId: string
+    ): Promise<Partial<UserPreferences> | null> {
+        const { data, error } = await supabase
+            .from('user_contexts')
+            .select('preferences')
+            .eq('user_id', userId)
+            .single();
+
+        if (error && error.code !== 'PGRST116') {
+            throw new Error(`Failed to load user preferences: ${error.message}`);
+        }
+
+        return data?.preferences || null;
+    }
+
+    private isEnabled(preferences: Partial<UserPreferences> | null): boolean {
+        return preferences?.auto_flash_cards !== false;
+    }
+
+    /**
+     * Turn a low-scoring pronunciation evaluation into review cards.
+     * A phrase card is always made; a kanji recognition card is added when the
+     * phrase contains kanji and the user wants kanji practice.
+     */
+    async generateFromEvaluation(
+        supabase: SupabaseClient,
+        userId: string,
+        evaluation: EvaluationCardSource,
+        options: CardGenerationOptions
+    ): Promise<DatabaseUserFlashCard[]> {
+        if (evaluation.evaluation_score == null || evaluation.evaluation_score >= LOW_SCORE_THRESHOLD) {
+            return [];
+        }
+
+        const preferences = await this.getPreferences(supabase, userId);
+        if (!this.isEnabled(preferences)) {
+            return [];
+        }
+
+        const notes = this.formatBreakdown(evaluation.translation_breakdown);
+        const source = {
+            source: 'pronunciation_evaluation',
+            topic: evaluation.topic,
+            evaluation_score: evaluation.evaluation_score,
+        };
+
+        const inputs: CreateFlashCardInput[] = [{
+            cardId: FlashCardGenerationService.buildCardId('phrase', evaluation.kanji),
+            cardType: 'phrase',
+            cardData: {
+                front: evaluation.translation,
+                back: evaluation.kanji,
+                reading: evaluation.romaji,
+                ...(notes && { notes }),
+                ...source,
+            },
+            createdBy: options.createdBy,
+            agentId: options.agentId,
+        }];
+
+        if (preferences?.wants_kanji_practice !== false && KANJI_PATTERN.test(evaluation.kanji)) {
+            inputs.push({
+                cardId: FlashCardGenerationService.buildCardId('kanji_recognition', evaluation.kanji),
+                cardType: 'kanji_recognition',
+                cardData: {
+                    front: evaluation.kanji,
+                    back: evaluation.translation,
+                    reading: evaluation.romaji,
+                    ...(notes && { notes }),
+                    ...source,
+                },
+                createdBy: options.createdBy,
+                agentId: options.agentId,
+            });
+        }
+
+        return flashCardService.createCardsIfMissing(supabase, userId, inputs);
+    }
+
+    /**
+     * Turn new vocabulary from a learning session into vocabulary cards.
+     * Entries may be plain words or "word - meaning" / "word: meaning" pairs.
+     */
+    async generateFromSessionVocabulary(
+        supabase: SupabaseClient,
+        userId: string,
+        sessionId: string,
+        vocabulary: string[] | undefined,
+        options: CardGenerationOptions
+    ): Promise<DatabaseUserFlashCard[]> {
+        if (!vocabulary || vocabulary.length === 0) {
+            return [];
+        }
+
+        const preferences = await this.getPreferences(supabase, userId);
+        if (!this.isEnabled(preferences)) {
+            return [];
+        }
+
+        const seen = new Set<string>();
+        const inputs: CreateFlashCardInput[] = [];
+
+        for (const entry of vocabulary) {
+            const parsed = this.parseVocabularyEntry(entry);
+            if (!parsed) continue;
+
+            const cardId = FlashCardGenerationService.buildCardId('vocabulary', parsed.term);
+            if (seen.has(cardId)) continue;
+            seen.add(cardId);
+
+            inputs.push({
+                cardId,
+                cardType: 'vocabulary',
+                cardData: {
+                    front: parsed.term,
+                    back: parsed.meaning || parsed.term,
+                    source: 'learning_session',
+                    session_id: sessionId,
+                },
+                createdBy: options.createdBy,
+                agentId: options.agentId,
+            });
+        }
+
+        return flashCardService.createCardsIfMissing(supabase, userId, inputs);
+    }
+
+    private parseVocabularyEntry(entry: string): { term: string; meaning?: string } | null {
+        if (typeof entry !== 'string' || !entry.trim()) {
+            return null;
+        }
+
+        const match = entry.match(/^(.+?)\s*(?:\s-\s|:|=)\s*(.+)$/);
+        if (match) {
+            return { term: match[1].trim(), meaning: match[2].trim() };
+        }
+
+        return { term: entry.trim() };
+    }
+
+    private formatBreakdown(breakdown?: TranslationBreakdown | null): string | undefined {
+        if (!breakdown?.segments?.length) {
+            return undefined;
+        }
+
+        return [...breakdown.segments]
+            .sort((a, b) => a.position - b.position)
+            .map(segment => `${segment.text}: ${segment.translation}`)
+            .join('\n');
+    }
+}
+
+// Export singleton instance
+export const flashCardGenerationService = new FlashCardGenerationService();
@@ -0,0 +1,350 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+    DatabaseUserFlashCard,
+    FlashCardData,
+    FlashCardType,
+} from '../types/index.js';
+import { calculateNextSchedule, createInitialSchedule, PASSING_GRADE } from '../utils/spaced-repetition.js';
+
+export interface CreateFlashCardInput {
+    cardId?: string;
+    cardType: FlashCardType;
+    cardData: FlashCardData;
+    createdBy: 'user' | 'agent';
+    agentId?: string | null;
+}
+
+export interface UpdateFlashCardInput {
+    cardType?: FlashCardType;
+    cardData?: FlashCardData;
+    resetSchedule?: boolean;
+}
+
+export interface FlashCardReviewResult {
+    card: DatabaseUserFlashCard;
+    review: {
+        grade: number;
+        passed: boolean;
+        previous_interval_days: number;
+        interval_days: number;
+        next_due_at: string;
+    };
+}
+
+/**
+ * Map a database row to the public API shape (drops internal id and user_id)
+ */
+export function formatFlashCard(card: DatabaseUserFlashCard) {
+    return {
+        card_id: card.card_id,
+        card_type: card.card_type,
+        card_data: card.card_data,
+        created_by: card.created_by,
+        agent_id: card.agent_id,
+        ease_factor: Number(card.ease_factor),
+        interval_days: card.interval_days,
+        repetitions: card.repetitions,
+        lapses: card.lapses,
+        review_count: card.review_count,
+        last_grade: card.last_grade,
+        last_reviewed_at: card.last_reviewed_at,
+        next_due_at: card.next_due_at,
+        created_at: card.created_at,
+        updated_at: card.updated_at,
+    };
+}
+
+export class FlashCardService {
+    /**
+     * List a user's flash cards with optional type filter and pagination
+     */
+    async listCards(
+        supabase: SupabaseClient,
+        userId: string,
+        options: { cardType?: FlashCardType; limit: number; offset: number }
+    ): Promise<{ cards: DatabaseUserFlashCard[]; totalCount: number }> {
+        let query = supabase
+            .from('user_flash_cards')
+            .select('*', { count: 'exact' })
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+
+        if (options.cardType) {
+            query = query.eq('card_type', options.cardType);
+        }
+
+        query = query.range(options.offset, options.offset + options.limit - 1);
+
+        const { data, error, count } = await query;
+
+        if (error) {
+            throw new Error(`Failed to list flash cards: ${error.message}`);
+        }
+
+        return {
+            cards: (data || []) as DatabaseUserFlashCard[],
+            totalCount: count || 0,
+        };
+    }
+
+    /**
+     * Get cards that are due for review, oldest due first
+     */
+    async getDueCards(
+        supabase: SupabaseClient,
+        userId: string,
+        options: { cardType?: FlashCardType; limit: number; now?: Date }
+    ): Promise<{ cards: DatabaseUserFlashCard[]; dueCount: number; nextDueAt: string | null }> {
+        const now = (options.now || new Date()).toISOString();
+
+        let dueQuery = supabase
+            .from('user_flash_cards')
+            .select('*', { count: 'exact' })
+            .eq('user_id', userId)
+            .lte('next_due_at', now)
+            .order('next_due_at', { ascending: true })
+            .limit(options.limit);
+
+        let upcomingQuery = supabase
+            .from('user_flash_cards')
+            .select('next_due_at')
+            .eq('user_id', userId)
+            .gt('next_due_at', now)
+            .order('next_due_at', { ascending: true })
+            .limit(1);
+
+        if (options.cardType) {
+            dueQuery = dueQuery.eq('card_type', options.cardType);
+            upcomingQuery = upcomingQuery.eq('card_type', options.cardType);
+        }
+
+        const [dueResult, upcomingResult] = await Promise.all([dueQuery, upcomingQuery]);
+
+        if (dueResult.error) {
+            throw new Error(`Failed to load due flash cards: ${dueResult.error.message}`);
+        }
+
+        return {
+            cards: (dueResult.data || []) as DatabaseUserFlashCard[],
+            dueCount: dueResult.count || 0,
+            nextDueAt: upcomingResult.data?.[0]?.next_due_at || null,
+        };
+    }
+
+    /**
+     * Get a single card by its card ID
+     */
+    async getCard(
+        supabase: SupabaseClient,
+        userId: string,
+        cardId: string
+    ): Promise<DatabaseUserFlashCard | null> {
+        const { data, error } = await supabase
+            .from('user_flash_cards')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('card_id', cardId)
+            .single();
+
+        if (error && error.code !== 'PGRST116') {
+            throw new Error(`Failed to load flash card: ${error.message}`);
+        }
+
+        return (data as DatabaseUserFlashCard) || null;
+    }
+
+    /**
+     * Create a new card, due for review immediately
+     */
+    async createCard(
+        supabase: SupabaseClient,
+        userId: string,
+        input: CreateFlashCardInput
+    ): Promise<DatabaseUserFlashCard> {
+        const newCard = {
+            user_id: userId,
+            card_id: input.cardId || uuidv4(),
+            card_type: input.cardType,
+            card_data: input.cardData,
+            created_by: input.createdBy,
+            agent_id: input.agentId || null,
+            ...createInitialSchedule(),
+        };
+
+        const { data, error } = await supabase
+            .from('user_flash_cards')
+            .insert(newCard)
+            .select('*')
+            .single();
+
+        if (error) {
+            if (error.code === '23505') { // Unique violation
+                throw new Error(`Flash card already exists: ${newCard.card_id}`);
+            }
+            throw new Error(`Failed to create flash card: ${error.message}`);
+        }
+
+        return data as DatabaseUserFlashCard;
+    }
+
+    /**
+     * Create several cards at once, skipping any card_id the user already has.
+     * Returns only the cards that were newly inserted.
+     */
+    async createCardsIfMissing(
+        supabase: SupabaseClient,
+        userId: string,
+        inputs: CreateFlashCardInput[]
+    ): Promise<DatabaseUserFlashCard[]> {
+        if (inputs.length === 0) {
+            return [];
+        }
+
+        const schedule = createInitialSchedule();
+        const newCards = inputs.map(input => ({
+            user_id: userId,
+            card_id: input.cardId || uuidv4(),
+            card_type: input.cardType,
+            card_data: input.cardData,
+            created_by: input.createdBy,
+            agent_id: input.agentId || null,
+            ...schedule,
+        }));
+
+        const { data, error } = await supabase
+            .from('user_flash_cards')
+            .upsert(newCards, { onConflict: 'user_id,card_id', ignoreDuplicates: true })
+            .select('*');
+
+        if (error) {
+            throw new Error(`Failed to create flash cards: ${error.message}`);
+        }
+
+        return (data || []) as DatabaseUserFlashCard[];
+    }
+
+    /**
+     * Update card content and optionally reset its schedule
+     */
+    async updateCard(
+        supabase: SupabaseClient,
+        userId: string,
+        cardId: string,
+        input: UpdateFlashCardInput
+    ): Promise<DatabaseUserFlashCard | null> {
+        const updateData: Record<string, any> = {};
+
+        if (input.cardType) {
+            updateData.card_type = input.cardType;
+        }
+        if (input.cardData) {
+            updateData.card_data = input.cardData;
+        }
+        if (input.resetSchedule) {
+            Object.assign(updateData, createInitialSchedule(), {
+                last_grade: null,
+                last_reviewed_at: null,
+            });
+        }
+
+        if (Object.keys(updateData).length === 0) {
+            return this.getCard(supabase, userId, cardId);
+        }
+
+        const { data, error } = await supabase
+            .from('user_flash_cards')
+            .update(updateData)
+            .eq('user_id', userId)
+            .eq('card_id', cardId)
+            .select('*')
+            .single();
+
+        if (error && error.code !== 'PGRST116') {
+            throw new Error(`Failed to update flash card: ${error.message}`);
+        }
+
+        return (data as DatabaseUserFlashCard) || null;
+    }
+
+    /**
+     * Delete a card, returns false if it did not exist
+     */
+    async deleteCard(
+        supabase: SupabaseClient,
+        userId: string,
+        cardId: string
+    ): Promise<boolean> {
+        const { data, error } = await supabase
+            .from('user_flash_cards')
+            .delete()
+            .eq('user_id', userId)
+            .eq('card_id', cardId)
+            .select('card_id');
+
+        if (error) {
+            throw new Error(`Failed to delete flash card: ${error.message}`);
+        }
+
+        return (data?.length || 0) > 0;
+    }
+
+    /**
+     * Grade a review and reschedule the card using SM-2
+     */
+    async reviewCard(
+        supabase: SupabaseClient,
+        userId: string,
+        cardId: string,
+        grade: number
+    ): Promise<FlashCardReviewResult | null> {
+        const card = await this.getCard(supabase, userId, cardId);
+        if (!card) {
+            return null;
+        }
+
+        const now = new Date();
+        const schedule = calculateNextSchedule({
+            ease_factor: Number(card.ease_factor),
+            interval_days: card.interval_days,
+            repetitions: card.repetitions,
+            lapses: card.lapses,
+        }, grade, now);
+
+        // Guard on review_count so concurrent reviews of the same card don't both apply
+        const { data, error } = await supabase
+            .from('user_flash_cards')
+            .update({
+                ...schedule,
+                review_count: card.review_count + 1,
+                last_grade: grade,
+                last_reviewed_at: now.toISOString(),
+            })
+            .eq('id', card.id)
+            .eq('review_count', card.review_count)
+            .select('*')
+            .single();
+
+        if (error?.code === 'PGRST116' || (!error && !data)) {
+            throw new Error(`Flash card ${cardId} was modified concurrently`);
+        }
+
+        if (error) {
+            throw new Error(`Failed to record flash card review: ${error.message}`);
+        }
+
+        return {
+            card: data as DatabaseUserFlashCard,
+            review: {
+                grade,
+                passed: grade >= PASSING_GRADE,
+                previous_interval_days: card.interval_days,
+                interval_days: schedule.interval_days,
+                next_due_at: schedule.next_due_at,
+            },
+        };
+    }
+}
+
+// Export singleton instance
+export const flashCardService = new FlashCardService();
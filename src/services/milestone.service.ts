@@ -0,0 +1,179 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+    DatabaseMilestone,
+    DatabaseUserMilestone,
+    MilestoneMetric,
+    MilestoneProgress,
+} from '../types/index.js';
+import { globalCache } from '../utils/request-batcher.js';
+import { HIGH_SCORE_THRESHOLD } from '../utils/achievement-rules.js';
+
+const MILESTONE_CATALOG_CACHE_KEY = 'milestone_catalog';
+
+export class MilestoneService {
+    /**
+     * Get milestone progress for a user, recording any milestones completed since the last check.
+     * Milestones tied to a learning goal are only included for users with that goal.
+     */
+    async getUserMilestones(
+        supabase: SupabaseClient,
+        userId: string
+    ): Promise<{ next: MilestoneProgress[]; completed: MilestoneProgress[] }> {
+        const { data: context, error: contextError } = await supabase
+            .from('user_contexts')
+            .select('preferences, progress')
+            .eq('user_id', userId)
+            .single();
+
+        if (contextError && contextError.code !== 'PGRST116') {
+            throw new Error(`Failed to load user context: ${contextError.message}`);
+        }
+
+        const learningGoals: string[] = context?.preferences?.learning_goals || [];
+        const catalog = (await this.getCatalog(supabase)).filter(milestone =>
+            !milestone.learning_goal || learningGoals.includes(milestone.learning_goal)
+        );
+
+        if (catalog.length === 0) {
+            return { next: [], completed: [] };
+        }
+
+        const [metrics, completions] = await Promise.all([
+            this.getMetrics(supabase, userId, context?.progress || {}),
+            this.getCompletions(supabase, userId),
+        ]);
+
+        // Record milestones reached since the last check
+        const newlyCompleted = catalog.filter(milestone =>
+            !completions.has(milestone.id) && metrics[milestone.metric] >= Number(milestone.target)
+        );
+
+        if (newlyCompleted.length > 0) {
+            const { data: inserted, error: insertError } = await supabase
+                .from('user_milestones')
+                .upsert(newlyCompleted.map(milestone => ({
+                    user_id: userId,
+                    milestone_id: milestone.id,
+                    value_at_completion: metrics[milestone.metric],
+                })), { onConflict: 'user_id,milestone_id', ignoreDuplicates: true })
+                .select('*');
+
+            if (insertError) {
+                console.error('Failed to record completed milestones:', insertError);
+            }
+
+            ((inserted || []) as DatabaseUserMilestone[]).forEach(row => completions.set(row.milestone_id, row));
+        }
+
+        const items: MilestoneProgress[] = catalog.map(milestone => {
+            const completion = completions.get(milestone.id);
+            return {
+                id: milestone.milestone_key,
+                title: milestone.title,
+                description: milestone.description,
+                metric: milestone.metric,
+                jlpt_level: milestone.jlpt_level,
+                progress: metrics[milestone.metric],
+                target: Number(milestone.target),
+                completed: !!completion,
+                completed_at: completion?.completed_at || null,
+            };
+        });
+
+        return {
+            next: items.filter(item => !item.completed),
+            completed: items
+                .filter(item => item.completed)
+                .sort((a, b) => (b.completed_at || '').localeCompare(a.completed_at || '')),
+        };
+    }
+
+    /**
+     * Active milestone catalog, cached briefly so catalog edits show up without a deploy
+     */
+    private async getCatalog(supabase: SupabaseClient): Promise<DatabaseMilestone[]> {
+        return globalCache.getOrSet(
+            MILESTONE_CATALOG_CACHE_KEY,
+            async () => {
+                const { data, error } = await supabase
+                    .from('milestones')
+                    .select('*')
+                    .eq('is_active', true)
+                    .order('sort_order', { ascending: true });
+
+                if (error) {
+                    throw new Error(`Failed to load milestone catalog: ${error.message}`);
+                }
+
+                return (data || []) as DatabaseMilestone[];
+            },
+            300000 // 5 minutes cache
+        );
+    }
+
+    private async getCompletions(
+        supabase: SupabaseClient,
+        userId: string
+    ): Promise<Map<string, DatabaseUserMilestone>> {
+        const { data, error } = await supabase
+            .from('user_milestones')
+            .select('*')
+            .eq('user_id', userId);
+
+        if (error) {
+            throw new Error(`Failed to load user milestones: ${error.message}`);
+        }
+
+        return new Map(((data || []) as DatabaseUserMilestone[]).map(row => [row.milestone_id, row]));
+    }
+
+    /**
+     * Calculate every milestone metric from sessions, evaluations and stored progress
+     */
+    private async getMetrics(
+        supabase: SupabaseClient,
+        userId: string,
+        progress: Record<string, any>
+    ): Promise<Record<MilestoneMetric, number>> {
+        const [sessions, studyMinutes, evaluations, highScores] = await Promise.all([
+            supabase
+                .from('learning_sessions')
+                .select('id', { count: 'exact', head: true })
+                .eq('user_id', userId),
+            supabase.rpc('get_study_minutes', { p_user_id: userId }),
+            supabase
+                .from('pronunciation_evaluations')
+                .select('id', { count: 'exact', head: true })
+                .eq('user_id', userId),
+            supabase
+                .from('pronunciation_evaluations')
+                .select('id', { count: 'exact', head: true })
+                .eq('user_id', userId)
+                .gte('evaluation_score', HIGH_SCORE_THRESHOLD),
+        ]);
+
+        // A failed query would otherwise read as zero progress
+        const failed = [sessions, studyMinutes, evaluations, highScores].find(result => result.error);
+        if (failed) {
+            throw new Error(`Failed to load milestone metrics: ${failed.error!.message}`);
+        }
+
+        const grammarPoints = Array.isArray(progress.grammar_points_covered)
+            ? progress.grammar_points_covered.length
+            : (progress.grammar_points_covered || 0);
+
+        return {
+            total_sessions: sessions.count || 0,
+            study_minutes: Number(studyMinutes.data) || 0,
+            words_learned: progress.words_learned || 0,
+            phrases_practiced: progress.phrases_practiced || 0,
+            current_streak: progress.current_streak || 0,
+            grammar_points: grammarPoints,
+            phrases_evaluated: evaluations.count || 0,
+            high_score_phrases: highScores.count || 0,
+        };
+    }
+}
+
+// Export singleton instance
+export const milestoneService = new MilestoneService();
@@ -0,0 +1,331 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { pronunciationService, EnhancementRequest, EnhancementResult } from './pronunciation.service.js';
+
+export type EnhancementJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'dead_lettered';
+export type PhraseEnhancementStatus = 'pending' | 'processing' | 'complete' | 'failed';
+
+export interface PhraseEnhancementJob {
+    id: string;
+    evaluation_id: string;
+    user_id: string;
+    status: EnhancementJobStatus;
+    attempts: number;
+    max_attempts: number;
+    last_error: string | null;
+    next_attempt_at: string;
+    locked_at: string | null;
+    completed_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface EnhancementRunResult {
+    claimed: number;
+    completed: number;
+    failed: number;
+    dead_lettered: number;
+    released_stale: number;
+    batches: number;
+}
+
+interface PhraseRow {
+    id: string;
+    kanji: string;
+    romaji: string;
+    translation: string;
+    translation_breakdown: any;
+}
+
+// Phrases sent to the model per request, and the minimum gap between requests
+const ENHANCEMENT_BATCH_SIZE = 10;
+const MIN_BATCH_INTERVAL_MS = 1000;
+// Jobs stuck in processing longer than this are assumed to belong to a frozen instance
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export class PhraseEnhancementService {
+    /**
+     * Enhance queued phrases in rate-limited batches. Jobs are claimed with a
+     * conditional status change, so concurrent runs never enhance the same phrase twice.
+     */
+    async processQueue(
+        supabase: SupabaseClient,
+        options: { limit?: number; now?: Date } = {}
+    ): Promise<EnhancementRunResult> {
+        const now = options.now || new Date();
+        const result: EnhancementRunResult = { claimed: 0, completed: 0, failed: 0, dead_lettered: 0, released_stale: 0, batches: 0 };
+
+        result.released_stale = await this.releaseStaleClaims(supabase, now);
+
+        const claimed = await this.claimDueJobs(supabase, options.limit || 50, now);
+        result.claimed = claimed.length;
+        if (claimed.length === 0) {
+            return result;
+        }
+
+        const { data: phrases, error } = await supabase
+            .from('pronunciation_evaluations')
+            .select('id, kanji, romaji, translation, translation_breakdown')
+            .in('id', claimed.map(job => job.evaluation_id));
+
+        if (error) {
+            // Put the claims back so the next run picks them up
+            for (const job of claimed) {
+                await this.markFailed(supabase, job, `Failed to load phrase: ${error.message}`, now);
+            }
+            throw new Error(`Failed to load phrases for enhancement: ${error.message}`);
+        }
+
+        const phrasesById = new Map(((phrases || []) as PhraseRow[]).map(phrase => [phrase.id, phrase]));
+
+        // Jobs whose phrase was deleted or already filled in need no model call
+        const outstanding: Array<{ job: PhraseEnhancementJob; phrase: PhraseRow }> = [];
+        for (const job of claimed) {
+            const phrase = phrasesById.get(job.evaluation_id);
+            if (!phrase || !this.needsEnhancement(phrase)) {
+                await this.markCompleted(supabase, job);
+                await this.setPhraseStatus(supabase, [job.evaluation_id], 'complete');
+                result.completed++;
+            } else {
+                outstanding.push({ job, phrase });
+            }
+        }
+
+        for (let start = 0; start < outstanding.length; start += ENHANCEMENT_BATCH_SIZE) {
+            if (start > 0) {
+                await new Promise(resolve => setTimeout(resolve, MIN_BATCH_INTERVAL_MS));
+            }
+            const batch = outstanding.slice(start, start + ENHANCEMENT_BATCH_SIZE);
+            result.batches++;
+
+            await this.processBatch(supabase, batch, now, result);
+        }
+
+        console.log(`Processed phrase enhancement jobs: ${result.completed} completed, ${result.failed} failed, ${result.dead_lettered} dead-lettered`);
+
+        return result;
+    }
+
+    /**
+     * Enhance one batch; the model sees each kanji once even if several phrases share it
+     */
+    private async processBatch(
+        supabase: SupabaseClient,
+        batch: Array<{ job: PhraseEnhancementJob; phrase: PhraseRow }>,
+        now: Date,
+        result: EnhancementRunResult
+    ): Promise<void> {
+        const requests = new Map<string, EnhancementRequest>();
+        for (const { phrase } of batch) {
+            if (!requests.has(phrase.kanji)) {
+                requests.set(phrase.kanji, {
+                    kanji: phrase.kanji,
+                    currentRomaji: phrase.romaji,
+                    currentTranslation: phrase.translation,
+                    translationBreakdown: phrase.translation_breakdown || undefined,
+                });
+            }
+        }
+
+        let enhancedByKanji = new Map<string, EnhancementResult>();
+        let batchError = '';
+        try {
+            const { enhanced } = await pronunciationService.enhancePronunciationData(Array.from(requests.values()));
+            enhancedByKanji = new Map(enhanced.map(item => [item.kanji, item]));
+        } catch (enhancementError) {
+            batchError = enhancementError instanceof Error ? enhancementError.message : 'Enhancement request failed';
+        }
+
+        for (const { job, phrase } of batch) {
+            const enhanced = enhancedByKanji.get(phrase.kanji);
+
+            if (enhanced) {
+                try {
+                    await this.applyEnhancement(supabase, phrase, enhanced);
+                    await this.markCompleted(supabase, job);
+                    result.completed++;
+                    continue;
+                } catch (applyError) {
+                    batchError = applyError instanceof Error ? applyError.message : 'Failed to save enhancement';
+                }
+            }
+
+            const deadLettered = await this.markFailed(supabase, job, batchError || 'Model returned no valid enhancement', now);
+            if (deadLettered) {
+                result.dead_lettered++;
+            } else {
+                result.failed++;
+            }
+        }
+    }
+
+    private async applyEnhancement(supabase: SupabaseClient, phrase: PhraseRow, enhanced: EnhancementResult): Promise<void> {
+        const updateData: Record<string, any> = {
+            translation_breakdown: enhanced.translationBreakdown,
+            topic: enhanced.topic,
+            enhancement_status: 'complete',
+        };
+
+        if (phrase.romaji === 'pronunciation_needed') {
+            updateData.romaji = enhanced.romaji;
+        }
+        if (phrase.translation === 'translation_needed') {
+            updateData.translation = enhanced.translation;
+        }
+
+        const { error } = await supabase
+            .from('pronunciation_evaluations')
+            .update(updateData)
+            .eq('id', phrase.id);
+
+        if (error) {
+            throw new Error(`Failed to save enhancement for ${phrase.kanji}: ${error.message}`);
+        }
+    }
+
+    private needsEnhancement(phrase: PhraseRow): boolean {
+        return phrase.romaji === 'pronunciation_needed' ||
+            phrase.translation === 'translation_needed' ||
+            !phrase.translation_breakdown;
+    }
+
+    private async claimDueJobs(supabase: SupabaseClient, limit: number, now: Date): Promise<PhraseEnhancementJob[]> {
+        const { data: candidates, error } = await supabase
+            .from('phrase_enhancement_jobs')
+            .select('*')
+            .in('status', ['queued', 'failed'])
+            .lte('next_attempt_at', now.toISOString())
+            .order('created_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            throw new Error(`Failed to load phrase enhancement jobs: ${error.message}`);
+        }
+
+        const claimed: PhraseEnhancementJob[] = [];
+        for (const job of (candidates || []) as PhraseEnhancementJob[]) {
+            const { data: claimedJob } = await supabase
+                .from('phrase_enhancement_jobs')
+                .update({
+                    status: 'processing',
+                    attempts: job.attempts + 1,
+                    locked_at: now.toISOString(),
+                })
+                .eq('id', job.id)
+                .eq('status', job.status)
+                .eq('attempts', job.attempts)
+                .select('*')
+                .maybeSingle();
+
+            if (claimedJob) {
+                claimed.push(claimedJob as PhraseEnhancementJob);
+            }
+        }
+
+        if (claimed.length > 0) {
+            await this.setPhraseStatus(supabase, claimed.map(job => job.evaluation_id), 'processing');
+        }
+
+        return claimed;
+    }
+
+    /**
+     * Put jobs whose claim has expired back up for retry
+     */
+    private async releaseStaleClaims(supabase: SupabaseClient, now: Date): Promise<number> {
+        const staleBefore = new Date(now.getTime() - PROCESSING_TIMEOUT_MS).toISOString();
+
+        const { data, error } = await supabase
+            .from('phrase_enhancement_jobs')
+            .update({
+                status: 'failed',
+                last_error: 'Processing timed out',
+                locked_at: null,
+            })
+            .eq('status', 'processing')
+            .lt('locked_at', staleBefore)
+            .select('evaluation_id');
+
+        if (error) {
+            console.error('Failed to release stale enhancement jobs:', error);
+            return 0;
+        }
+
+        await this.setPhraseStatus(supabase, (data || []).map(job => job.evaluation_id), 'pending');
+        return data?.length || 0;
+    }
+
+    private async markCompleted(supabase: SupabaseClient, job: PhraseEnhancementJob): Promise<void> {
+        const { error } = await supabase
+            .from('phrase_enhancement_jobs')
+            .update({
+                status: 'completed',
+                completed_at: new Date().toISOString(),
+                last_error: null,
+                locked_at: null,
+            })
+            .eq('id', job.id)
+            .eq('status', 'processing');
+
+        if (error) {
+            console.error(`Failed to mark enhancement job ${job.id} as completed:`, error);
+        }
+    }
+
+    /**
+     * Schedule a retry with exponential backoff, or dead-letter the job once
+     * it has used up its attempts. Returns true if the job was dead-lettered.
+     */
+    private async markFailed(
+        supabase: SupabaseClient,
+        job: PhraseEnhancementJob,
+        errorMessage: string,
+        now: Date
+    ): Promise<boolean> {
+        const deadLettered = job.attempts >= job.max_attempts;
+        const retryDelay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, job.attempts - 1), MAX_RETRY_DELAY_MS);
+
+        const { error } = await supabase
+            .from('phrase_enhancement_jobs')
+            .update({
+                status: deadLettered ? 'dead_lettered' : 'failed',
+                last_error: errorMessage,
+                next_attempt_at: new Date(now.getTime() + retryDelay).toISOString(),
+                locked_at: null,
+            })
+            .eq('id', job.id)
+            .eq('status', 'processing');
+
+        if (error) {
+            console.error(`Failed to mark enhancement job ${job.id} as failed:`, error);
+        }
+
+        await this.setPhraseStatus(supabase, [job.evaluation_id], deadLettered ? 'failed' : 'pending');
+
+        if (deadLettered) {
+            console.error(`Phrase enhancement job ${job.id} dead-lettered after ${job.attempts} attempts: ${errorMessage}`);
+        }
+
+        return deadLettered;
+    }
+
+    private async setPhraseStatus(supabase: SupabaseClient, evaluationIds: string[], status: PhraseEnhancementStatus): Promise<void> {
+        if (evaluationIds.length === 0) {
+            return;
+        }
+
+        const { error } = await supabase
+            .from('pronunciation_evaluations')
+            .update({ enhancement_status: status })
+            .in('id', evaluationIds)
+            .neq('enhancement_status', 'complete');
+
+        if (error) {
+            console.error(`Failed to set enhancement status to ${status}:`, error);
+        }
+    }
+}
+
+// Export singleton instance
+export const phraseEnhancementService = new PhraseEnhancementService();
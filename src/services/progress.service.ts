@@ -0,0 +1,69 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { UserProgress } from '../types/index.js';
+import { streakService } from './streak.service.js';
+
+export interface SessionProgressDelta {
+    sessionId: string;
+    durationMinutes: number;
+    newVocabulary: string[];
+    pronunciationPracticeCount: number;
+    grammarPoints: string[];
+    achievements: string[];
+    topicsCovered: string[];
+}
+
+const SESSION_HISTORY_LIMIT = 50;
+const MAX_STREAK_ATTEMPTS = 3;
+const SERIALIZATION_FAILURE = '40001';
+
+export class ProgressService {
+    /**
+     * Roll a completed session up into the user's progress, session history and streak.
+     * The counters, grammar points, history and streak day are applied in a single locked
+     * database call so concurrent sessions cannot overwrite each other, and re-applying
+     * the same session_id changes nothing.
+     */
+    async applySessionDelta(
+        supabase: SupabaseClient,
+        userId: string,
+        delta: SessionProgressDelta
+    ): Promise<UserProgress> {
+        for (let attempt = 1; ; attempt++) {
+            // Streak days are counted in the learner's timezone
+            const { expected_last_active_date, transition } = await streakService.planActivity(supabase, userId);
+
+            const { data, error } = await supabase.rpc('apply_session_progress', {
+                p_user_id: userId,
+                p_session_id: delta.sessionId,
+                p_duration_minutes: delta.durationMinutes || 0,
+                p_new_words: delta.newVocabulary?.length || 0,
+                p_phrases_practiced: delta.pronunciationPracticeCount || 0,
+                p_grammar_points: delta.grammarPoints || [],
+                p_achievements: delta.achievements || [],
+                p_topics_covered: delta.topicsCovered || [],
+                p_current_streak: transition.state.current_streak,
+                p_history_limit: SESSION_HISTORY_LIMIT,
+                p_streak_local_date: transition.local_date,
+                p_expected_last_active_date: expected_last_active_date,
+                p_longest_streak: transition.state.longest_streak,
+                p_freezes_available: transition.state.freezes_available,
+                p_freezes_used: transition.freezes_used,
+                p_frozen_dates: transition.frozen_dates,
+            });
+
+            // Another session moved the streak after we read it; recompute from the new state
+            if (error?.code === SERIALIZATION_FAILURE && attempt < MAX_STREAK_ATTEMPTS) {
+                continue;
+            }
+
+            if (error) {
+                throw new Error(`Failed to apply session progress: ${error.message}`);
+            }
+
+            return data as UserProgress;
+        }
+    }
+}
+
+// Export singleton instance
+export const progressService = new ProgressService();
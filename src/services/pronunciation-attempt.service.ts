@@ -0,0 +1,176 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DatabasePronunciationAttempt, EvaluationDetails, WeakSound } from '../types/index.js';
+import { findWeakestSounds, hasStructuredDetails } from '../utils/pronunciation-analysis.js';
+import { topicService } from './topic.service.js';
+
+// Most recent attempts considered when ranking weak sounds
+const WEAK_SOUND_ATTEMPT_LIMIT = 500;
+
+export interface PronunciationAttemptInput {
+    kanji: string;
+    romaji: string;
+    translation: string;
+    topic: string;
+    user_pronunciation: string;
+    evaluation_score?: number;
+    evaluation_feedback?: string;
+    evaluation_details?: EvaluationDetails;
+}
+
+export interface RecordedAttempt {
+    evaluation_id: string;
+    attempt_id: string;
+    attempt_number: number;
+    practice_count: number;
+    is_update: boolean;
+    best_score: number | null;
+    latest_score: number | null;
+    average_score: number | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export class PronunciationAttemptService {
+    /**
+     * Record an attempt at a phrase, creating the phrase's evaluation row on the first attempt
+     */
+    async recordAttempt(
+        supabase: SupabaseClient,
+        userId: string,
+        attempt: PronunciationAttemptInput,
+        options: { sessionId?: string; agentId?: string } = {}
+    ): Promise<RecordedAttempt> {
+        // The topic may be a topic id or any spelling of a topic name; store the canonical name
+        let topic = attempt.topic;
+        try {
+            topic = (await topicService.resolveRef(supabase, attempt.topic))?.name || attempt.topic;
+        } catch (topicError) {
+            console.error('Topic resolution failed, storing topic as given:', topicError);
+        }
+
+        const { data, error } = await supabase.rpc('record_pronunciation_attempt', {
+            p_user_id: userId,
+            p_kanji: attempt.kanji,
+            p_romaji: attempt.romaji,
+            p_translation: attempt.translation,
+            p_topic: topic,
+            p_user_pronunciation: attempt.user_pronunciation,
+            p_evaluation_score: attempt.evaluation_score ?? null,
+            p_evaluation_feedback: attempt.evaluation_feedback || null,
+            p_evaluation_details: attempt.evaluation_details || null,
+            p_session_id: options.sessionId || null,
+            p_agent_id: options.agentId || null,
+        });
+
+        if (error) {
+            throw new Error(`Failed to record pronunciation attempt: ${error.message}`);
+        }
+
+        const recorded = data as RecordedAttempt;
+        return {
+            ...recorded,
+            average_score: recorded.average_score !== null ? Number(recorded.average_score) : null,
+        };
+    }
+
+    /**
+     * Get every attempt at a phrase in order, for plotting improvement over time
+     */
+    async listAttempts(
+        supabase: SupabaseClient,
+        userId: string,
+        evaluationId: string
+    ): Promise<{ evaluation: Record<string, any>; attempts: DatabasePronunciationAttempt[]; weakest_sounds: WeakSound[] }> {
+        const { data: evaluation, error: evaluationError } = await supabase
+            .from('pronunciation_evaluations')
+            .select('id, kanji, romaji, translation, topic, practice_count, best_score, latest_score, average_score, created_at, updated_at')
+            .eq('id', evaluationId)
+            .eq('user_id', userId)
+            .single();
+
+        if (evaluationError) {
+            if (evaluationError.code === 'PGRST116') {
+                throw new Error('Pronunciation evaluation not found');
+            }
+            throw new Error(`Failed to load pronunciation evaluation: ${evaluationError.message}`);
+        }
+
+        const { data: attempts, error: attemptsError } = await supabase
+            .from('pronunciation_attempts')
+            .select('*')
+            .eq('evaluation_id', evaluationId)
+            .order('attempt_number', { ascending: true });
+
+        if (attemptsError) {
+            throw new Error(`Failed to load pronunciation attempts: ${attemptsError.message}`);
+        }
+
+        return {
+            evaluation: {
+                ...evaluation,
+                average_score: evaluation.average_score !== null ? Number(evaluation.average_score) : null,
+            },
+            attempts: (attempts || []) as DatabasePronunciationAttempt[],
+            weakest_sounds: findWeakestSounds((attempts || []).map(attempt => ({
+                kanji: evaluation.kanji,
+                created_at: attempt.created_at,
+                evaluation_details: attempt.evaluation_details,
+            }))),
+        };
+    }
+
+    /**
+     * Rank the sounds the user gets wrong most often across recent attempts
+     */
+    async getWeakestSounds(
+        supabase: SupabaseClient,
+        userId: string,
+        options: { daysBack?: number; limit?: number } = {}
+    ): Promise<{ weakest_sounds: WeakSound[]; attempts_analysed: number }> {
+        const since = new Date();
+        since.setDate(since.getDate() - (options.daysBack || 90));
+
+        const { data, error } = await supabase
+            .from('pronunciation_attempts')
+            .select('created_at, evaluation_details, pronunciation_evaluations!evaluation_id(kanji)')
+            .eq('user_id', userId)
+            .not('evaluation_details', 'is', null)
+            .gte('created_at', since.toISOString())
+            .order('created_at', { ascending: false })
+            .limit(WEAK_SOUND_ATTEMPT_LIMIT);
+
+        if (error) {
+            throw new Error(`Failed to load pronunciation attempts: ${error.message}`);
+        }
+
+        const attempts = (data || []).map((row: any) => ({
+            kanji: row.pronunciation_evaluations?.kanji || '',
+            created_at: row.created_at,
+            evaluation_details: row.evaluation_details,
+        }));
+
+        return {
+            weakest_sounds: findWeakestSounds(attempts, options.limit || 5),
+            attempts_analysed: attempts.filter(attempt => hasStructuredDetails(attempt.evaluation_details)).length,
+        };
+    }
+}
+
+/**
+ * Format an attempt row for API responses
+ */
+export function formatPronunciationAttempt(attempt: DatabasePronunciationAttempt) {
+    return {
+        id: attempt.id,
+        attempt_number: attempt.attempt_number,
+        user_pronunciation: attempt.user_pronunciation,
+        evaluation_score: attempt.evaluation_score,
+        evaluation_feedback: attempt.evaluation_feedback,
+        evaluation_details: attempt.evaluation_details,
+        session_id: attempt.session_id,
+        created_at: attempt.created_at,
+    };
+}
+
+// Export singleton instance
+export const pronunciationAttemptService = new PronunciationAttemptService();
@@ -0,0 +1,36 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PronunciationScoreStats } from '../types/index.js';
+
+const EMPTY_STATS: Omit<PronunciationScoreStats, 'pronunciation_stats_updated_at'> = {
+    pronunciation_score_avg: 0,
+    pronunciation_score_avg_30d: 0,
+    pronunciation_scored_count: 0,
+    pronunciation_scored_count_30d: 0,
+    pronunciation_topic_averages: [],
+};
+
+export class PronunciationStatsService {
+    /**
+     * Calculate score averages from the user's pronunciation attempts.
+     * The stored copy in user_contexts.progress is kept current by a database trigger;
+     * this reads them fresh so the 30-day window is always up to date.
+     */
+    async getStats(supabase: SupabaseClient, userId: string): Promise<PronunciationScoreStats> {
+        const { data, error } = await supabase.rpc('get_pronunciation_score_stats', {
+            p_user_id: userId,
+        });
+
+        if (error) {
+            throw new Error(`Failed to calculate pronunciation stats: ${error.message}`);
+        }
+
+        return {
+            ...EMPTY_STATS,
+            pronunciation_stats_updated_at: new Date().toISOString(),
+            ...(data || {}),
+        } as PronunciationScoreStats;
+    }
+}
+
+// Export singleton instance
+export const pronunciationStatsService = new PronunciationStatsService();
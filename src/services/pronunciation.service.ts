@@ -1,7 +1,11 @@
-import OpenAI from 'openai';
-import { writeFile, mkdir, access, readFile } from 'fs/promises';
 import { createHash } from 'crypto';
-import * as path from 'path';
+import { z } from 'zod';
+import { AudioStorage, getAudioStorage } from './audio-storage.service.js';
+import { SpeechProvider, getSpeechProvider } from '../speech/index.js';
+import { AudioOptions, DEFAULT_AUDIO_OPTIONS, buildSpeechRequest } from '../utils/audio-options.js';
+import { TOPIC_CATEGORIES, normalizeTopicCategory } from '../utils/topic-categories.js';
+
+const TTS_MODEL = "gpt-4o-mini-tts"; // Lightweight model
 
 export interface PronunciationData {
     kanji: string;
@@ -30,71 +34,112 @@ export interface EnhancementRequest {
     translationBreakdown?: TranslationBreakdown;
 }
 
-export interface EnhancementResult {
-    kanji: string;
-    romaji: string;
-    translation: string;
-    topic?: string;
-    translationBreakdown?: TranslationBreakdown;
+// Model output for one item; topic labels are normalized into a topics.category value
+export const EnhancementResultSchema = z.object({
+    kanji: z.string().min(1),
+    romaji: z.string().trim().min(1).refine(value => value !== 'pronunciation_needed', 'romaji is a placeholder'),
+    translation: z.string().trim().min(1).refine(value => value !== 'translation_needed', 'translation is a placeholder'),
+    topic: z.string().nullish().transform(topic => normalizeTopicCategory(topic)),
+    translationBreakdown: z.object({
+        originalText: z.string(),
+        segments: z.array(z.object({
+            text: z.string().min(1),
+            translation: z.string(),
+            confidence: z.coerce.number().min(0).max(1),
+            position: z.coerce.number().int().nonnegative(),
+        })).min(1),
+    }),
+});
+
+export type EnhancementResult = z.infer<typeof EnhancementResultSchema>;
+
+export interface EnhancementOutcome {
+    enhanced: EnhancementResult[];
+    failed: string[]; // kanji of items that could not be enhanced
 }
 
-export class PronunciationService {
-    private openai: OpenAI;
-    private audioDir: string;
+const MAX_ENHANCEMENT_ATTEMPTS = 3;
 
-    constructor() {
-        const apiKey = process.env.OPENAI_API_KEY || import.meta.env.VITE_OPENAI_API_KEY;
-        if (!apiKey) {
-            throw new Error('OpenAI API key not found in environment variables');
-        }
+function needsEnhancement(item: EnhancementRequest): boolean {
+    return item.currentRomaji === 'pronunciation_needed' ||
+        item.currentTranslation === 'translation_needed' ||
+        !item.translationBreakdown;
+}
 
-        this.openai = new OpenAI({
-            apiKey: apiKey,
-        });
+export interface GeneratedAudio {
+    buffer: Buffer;
+    base64: string;
+    filename: string; // served from /audio/:filename
+    cached: boolean;
+    options: AudioOptions;
+}
+
+export class PronunciationService {
+    // Resolved on first use so importing this module never needs an API key or network
+    constructor(
+        private speechProvider?: SpeechProvider,
+        private audioStorage?: AudioStorage
+    ) { }
+
+    private get speech(): SpeechProvider {
+        return this.speechProvider ??= getSpeechProvider();
+    }
 
-        // Audio files will be stored in ./audio directory
-        this.audioDir = path.join(process.cwd(), 'audio');
-        this.ensureAudioDirectory();
+    private get storage(): AudioStorage {
+        return this.audioStorage ??= getAudioStorage();
     }
 
     /**
-     * Ensure audio directory exists
+     * Cache file name for a TTS request: md5 of everything that affects the audio
      */
-    private async ensureAudioDirectory(): Promise<void> {
-        try {
-            await access(this.audioDir);
-        } catch {
-            await mkdir(this.audioDir, { recursive: true });
-        }
+    static audioCacheKey(request: { input: string; voice: string; model: string; instructions: string; speed: string; input_mode: string }): string {
+        const hash = createHash('md5')
+            .update(JSON.stringify([request.input, request.voice, request.model, request.instructions, request.speed, request.input_mode]))
+            .digest('hex');
+        return `${hash}.mp3`;
     }
 
     /**
-     * Generate audio for romaji pronunciation using OpenAI TTS
-     * Returns audio buffer and base64 data (no filesystem storage)
+     * Generate audio for a phrase via the speech provider's TTS in the requested voice, speed and input mode
+     * Audio is cached by content, so repeat requests for the same variant skip the TTS call
      */
-    async generateAudio(romaji: string, kanji: string): Promise<{ buffer: Buffer, base64: string }> {
+    async generateAudio(romaji: string, kanji: string, options: AudioOptions = DEFAULT_AUDIO_OPTIONS): Promise<GeneratedAudio> {
+        const { input, instructions } = buildSpeechRequest(romaji, kanji, options);
+        const filename = PronunciationService.audioCacheKey({ input, instructions, model: TTS_MODEL, ...options });
+
         try {
-            console.log(`Generating audio for: ${romaji} (${kanji})`);
-
-            // Use OpenAI TTS with female voice
-            const mp3 = await this.openai.audio.speech.create({
-                model: "gpt-4o-mini-tts", // Lightweight model
-                voice: "nova", // Female voice
-                input: romaji,
-                response_format: "mp3",
-                instructions: "Please pronounce the japanese phrase in a natural, clear, and conversational tone."
-            });
+            const cachedAudio = await this.storage.get(filename);
+            if (cachedAudio) {
+                return { buffer: cachedAudio, base64: cachedAudio.toString('base64'), filename, cached: true, options };
+            }
+        } catch (cacheError) {
+            // A broken cache should cost a TTS call, not the request
+            console.error(`Audio cache read failed for ${filename}:`, cacheError);
+        }
+
+        try {
+            console.log(`Generating ${options.speed} ${options.input_mode} audio (${options.voice}) for: ${romaji} (${kanji})`);
 
-            // Convert response to buffer
-            const buffer = Buffer.from(await mp3.arrayBuffer());
+            const buffer = await this.speech.synthesizeSpeech({
+                model: TTS_MODEL,
+                voice: options.voice,
+                input,
+                instructions
+            });
 
-            // Convert to base64
-            const base64 = buffer.toString('base64');
+            try {
+                await this.storage.put(filename, buffer, 'audio/mpeg');
+            } catch (cacheError) {
+                console.error(`Audio cache write failed for ${filename}:`, cacheError);
+            }
 
             console.log(`Audio generated successfully for: ${romaji}`);
             return {
                 buffer: buffer,
-                base64: base64
+                base64: buffer.toString('base64'),
+                filename,
+                cached: false,
+                options
             };
 
         } catch (error) {
@@ -104,87 +149,98 @@ export class PronunciationService {
     }
 
     /**
-     * Enhance pronunciation data using OpenAI batch processing
-     * This processes multiple items in one request for efficiency
+     * Enhance pronunciation data using batch chat completion
+     * Each returned item is validated on its own; only the items that fail are retried,
+     * and items still failing after the last attempt are reported instead of failing the batch
      */
-    async enhancePronunciationData(items: EnhancementRequest[]): Promise<EnhancementResult[]> {
-        try {
-            // Filter items that need enhancement
-            const needsEnhancement = items.filter(item =>
-                item.currentRomaji === 'pronunciation_needed' ||
-                item.currentTranslation === 'translation_needed' ||
-                !item.translationBreakdown
-            );
-
-            if (needsEnhancement.length === 0) {
-                return items.map(item => ({
-                    kanji: item.kanji,
-                    romaji: item.currentRomaji,
-                    translation: item.currentTranslation,
-                    topic: undefined,
-                    translationBreakdown: undefined,
-                }));
-            }
+    async enhancePronunciationData(items: EnhancementRequest[]): Promise<EnhancementOutcome> {
+        let pending = items.filter(needsEnhancement);
+        const enhanced: EnhancementResult[] = [];
 
-            console.log(`Enhancing ${needsEnhancement.length} pronunciation items`);
-
-            // Construct batch prompt for OpenAI
-            const prompt = this.constructEnhancementPrompt(needsEnhancement);
-
-            const completion = await this.openai.chat.completions.create({
-                model: "gpt-5-nano", // Cost-effective model
-                messages: [
-                    {
-                        role: "system",
-                        content: "You are a Japanese language expert specializing in pronunciation and translation. Always respond with valid JSON format."
-                    },
-                    {
-                        role: "user",
-                        content: prompt
-                    }
-                ],
-            });
+        if (pending.length === 0) {
+            return { enhanced, failed: [] };
+        }
+
+        console.log(`Enhancing ${pending.length} pronunciation items`);
 
-            const responseText = completion.choices[0]?.message?.content;
-            if (!responseText) {
-                throw new Error('No response from OpenAI');
+        for (let attempt = 1; attempt <= MAX_ENHANCEMENT_ATTEMPTS && pending.length > 0; attempt++) {
+            let output: unknown[];
+            try {
+                output = await this.requestEnhancements(pending);
+            } catch (error) {
+                console.error(`Enhancement attempt ${attempt} failed:`, error);
+                continue;
             }
 
-            // Parse the JSON response
-            const enhancedData = JSON.parse(responseText);
+            const stillFailing: EnhancementRequest[] = [];
+            const unmatched = [...output];
 
-            console.log(enhancedData);
+            for (const item of pending) {
+                // Match by kanji rather than position, so a dropped or extra item only affects itself
+                const matchIndex = unmatched.findIndex(entry => (entry as { kanji?: unknown })?.kanji === item.kanji);
+                const parsed = matchIndex === -1
+                    ? null
+                    : EnhancementResultSchema.safeParse(unmatched.splice(matchIndex, 1)[0]);
 
-            if (!Array.isArray(enhancedData) || enhancedData.length !== needsEnhancement.length) {
-                throw new Error('Invalid response format from OpenAI');
+                if (parsed?.success) {
+                    enhanced.push(parsed.data);
+                } else {
+                    if (parsed) {
+                        console.warn(`Invalid enhancement for ${item.kanji}:`, parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+                    }
+                    stillFailing.push(item);
+                }
             }
 
-            // Merge enhanced data with original items
-            const results: EnhancementResult[] = [];
-            let enhancedIndex = 0;
+            pending = stillFailing;
+            if (pending.length > 0 && attempt < MAX_ENHANCEMENT_ATTEMPTS) {
+                console.log(`Retrying ${pending.length} pronunciation items`);
+            }
+        }
 
-            for (const item of items) {
-                if (item.currentRomaji === 'pronunciation_needed' || item.currentTranslation === 'translation_needed' || !item.translationBreakdown) {
-                    results.push(enhancedData[enhancedIndex]);
-                    enhancedIndex++;
-                } else {
-                    results.push({
-                        kanji: item.kanji,
-                        romaji: item.currentRomaji,
-                        translation: item.currentTranslation,
-                        topic: undefined,
-                        translationBreakdown: undefined,
-                    });
+        const failed = pending.map(item => item.kanji);
+        if (failed.length > 0) {
+            console.error(`Could not enhance ${failed.length} items: ${failed.join(', ')}`);
+        }
+        console.log(`Enhanced ${enhanced.length} items successfully`);
+
+        return { enhanced, failed };
+    }
+
+    /**
+     * Ask the model for enhancements and return its raw item list
+     */
+    private async requestEnhancements(items: EnhancementRequest[]): Promise<unknown[]> {
+        const prompt = this.constructEnhancementPrompt(items);
+
+        const responseText = await this.speech.completeChat({
+            model: "gpt-5-nano", // Cost-effective model
+            messages: [
+                {
+                    role: "system",
+                    content: "You are a Japanese language expert specializing in pronunciation and translation. Always respond with valid JSON format."
+                },
+                {
+                    role: "user",
+                    content: prompt
                 }
-            }
+            ],
+            purpose: 'pronunciation_enhancement',
+            context: { items: items.map(item => ({ kanji: item.kanji })) },
+        });
 
-            console.log(`Enhanced ${needsEnhancement.length} items successfully`);
-            return results;
+        if (!responseText) {
+            throw new Error('No response from speech provider');
+        }
 
-        } catch (error) {
-            console.error('Error enhancing pronunciation data:', error);
-            throw new Error('Failed to enhance pronunciation data');
+        // Models sometimes wrap JSON in a code fence or an object
+        const json = JSON.parse(responseText.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+        const list = Array.isArray(json) ? json : (json?.items ?? json?.results);
+
+        if (!Array.isArray(list)) {
+            throw new Error('Invalid response format from speech provider');
         }
+        return list;
     }
 
     /**
@@ -199,7 +255,7 @@ export class PronunciationService {
 
         return `
 Please provide accurate romaji pronunciation, English translation, topic classification, and detailed translation breakdown for the following Japanese kanji/phrases. 
-Return the response as a JSON array with exactly ${items.length} objects in the same order as provided.
+Return the response as a JSON array with exactly ${items.length} objects, one per input item, each with the input "kanji" copied exactly.
 
 Input data:
 ${JSON.stringify(itemsJson, null, 2)}
@@ -207,7 +263,7 @@ ${JSON.stringify(itemsJson, null, 2)}
 Instructions:
 1. For each item, provide accurate romaji pronunciation using standard Hepburn romanization
 2. Provide clear, concise English translation (no more than 3-4 words when possible)
-3. Classify the topic into one of: 'daily_life' ,'travel', 'shopping', 'food', 'health', 'professional', 'education', 'social','technology','culture','general'     
+3. Classify the topic into exactly one of: ${TOPIC_CATEGORIES.map(category => `'${category}'`).join(', ')}
 4. Create detailed translation breakdown with segments for compound phrases
 5. For compound words or phrases, provide the most common/natural pronunciation and meaning
 6. Return ONLY valid JSON format, no explanations or extra text
@@ -219,7 +275,7 @@ Example response format:
     "kanji": "こんにちは", 
     "romaji": "konnichiwa", 
     "translation": "hello",
-    "topic": "conversation",
+    "topic": "daily_life",
     "translationBreakdown": {
       "originalText": "こんにちは",
       "segments": [
@@ -236,7 +292,7 @@ Example response format:
     "kanji": "お疲れ様でした", 
     "romaji": "otsukaresama deshita", 
     "translation": "good work",
-    "topic": "business",
+    "topic": "professional",
     "translationBreakdown": {
       "originalText": "お疲れ様でした",
       "segments": [
@@ -267,11 +323,11 @@ Respond with the JSON array now:`;
     }
 
     /**
-     * Generate audio base64 for pronunciation (no filesystem storage)
+     * Generate audio base64 for pronunciation (served from the audio cache when available)
      */
-    async generateAudioBase64(romaji: string, kanji: string): Promise<string> {
+    async generateAudioBase64(romaji: string, kanji: string, options?: AudioOptions): Promise<string> {
         try {
-            const result = await this.generateAudio(romaji, kanji);
+            const result = await this.generateAudio(romaji, kanji, options);
             return result.base64;
         } catch (error) {
             console.error('Error generating audio base64:', error);
@@ -0,0 +1,292 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SpeechProvider, getSpeechProvider } from '../speech/index.js';
+import { DatabaseSessionDigest } from '../api/v1/schemas/conversations.schemas.js';
+
+// Bounds on what one digest prompt can contain
+const MAX_DIGEST_MESSAGES = 40;
+const MAX_DIGEST_ATTEMPTS = 20;
+const MAX_MESSAGE_CHARS = 200;
+
+// A merge claim older than this is assumed to belong to a request that died
+const MERGE_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+export class SessionDigestService {
+    // Resolved on first use so importing this module never needs an API key or network
+    constructor(private speechProvider?: SpeechProvider) { }
+
+    private get speech(): SpeechProvider {
+        return this.speechProvider ??= getSpeechProvider();
+    }
+
+    /**
+     * Queue a finished session to be digested when the user's summary is next read.
+     * Queueing a session again clears its digest so it is regenerated and merged again.
+     */
+    async queueDigest(supabase: SupabaseClient, userId: string, sessionId: string): Promise<void> {
+        const { error } = await supabase
+            .from('session_digests')
+            .upsert({
+                user_id: userId,
+                session_id: sessionId,
+                digest: null,
+                message_count: 0,
+                attempt_count: 0,
+                merged_at: null,
+                created_at: new Date().toISOString()
+            }, { onConflict: 'user_id,session_id' });
+
+        if (error) {
+            throw new Error(`Failed to queue session digest: ${error.message}`);
+        }
+    }
+
+    /**
+     * Generate the digest for each queued entry. Sessions with nothing to summarize are
+     * dropped from the queue; entries that fail stay queued for the next read.
+     * Returns the entries that now have a digest.
+     */
+    async fillQueued(
+        supabase: SupabaseClient,
+        userId: string,
+        digests: DatabaseSessionDigest[]
+    ): Promise<DatabaseSessionDigest[]> {
+        const filled = await Promise.all(digests.map(async (entry) => {
+            if (entry.digest !== null) {
+                return entry;
+            }
+
+            try {
+                const digest = await this.createDigest(supabase, userId, entry.session_id);
+                if (!digest) {
+                    await supabase.from('session_digests').delete().eq('id', entry.id);
+                }
+                return digest;
+            } catch (digestError) {
+                console.error(`Session digest for ${entry.session_id} failed:`, digestError);
+                return null;
+            }
+        }));
+
+        return filled.filter((digest): digest is DatabaseSessionDigest => digest !== null);
+    }
+
+    /**
+     * Summarize a finished session and store it for the next summary merge.
+     * Re-digesting a session replaces its digest and queues it to be merged again.
+     * Returns null when the session has nothing to summarize.
+     */
+    async createDigest(
+        supabase: SupabaseClient,
+        userId: string,
+        sessionId: string
+    ): Promise<DatabaseSessionDigest | null> {
+        const [conversations, attempts, learningSession] = await Promise.all([
+            // The end of a long session reflects where the learner finished, so keep the latest messages
+            supabase
+                .from('conversations')
+                .select('role, message', { count: 'exact' })
+                .eq('user_id', userId)
+                .eq('session_id', sessionId)
+                .order('sequence_number', { ascending: false, nullsFirst: true })
+                .order('seq', { ascending: false })
+                .limit(MAX_DIGEST_MESSAGES),
+
+            supabase
+                .from('pronunciation_attempts')
+                .select('evaluation_score, evaluation_feedback, pronunciation_evaluations(kanji, romaji)')
+                .eq('user_id', userId)
+                .eq('session_id', sessionId)
+                .order('created_at', { ascending: true })
+                .limit(MAX_DIGEST_ATTEMPTS),
+
+            supabase
+                .from('learning_sessions')
+                .select('duration_minutes, topics_covered, new_vocabulary, grammar_points, overall_performance')
+                .eq('user_id', userId)
+                .eq('session_id', sessionId)
+                .maybeSingle()
+        ]);
+
+        if (conversations.error) {
+            throw new Error(`Failed to load session conversations: ${conversations.error.message}`);
+        }
+
+        const messages = (conversations.data || []).reverse();
+        const messageCount = conversations.count ?? messages.length;
+        const attemptRows = attempts.data || [];
+        const session = learningSession.data;
+
+        if (messages.length === 0 && attemptRows.length === 0 && !session) {
+            return null;
+        }
+
+        const digest = await this.speech.completeChat({
+            model: "gpt-5-nano",
+            messages: [
+                {
+                    role: "system",
+                    content: "Summarize one Japanese practice session for a tutor's notes in at most 80 words: what was practiced, what went well, what was hard, and anything new about the learner's goals or preferences. Plain text, no headings."
+                },
+                {
+                    role: "user",
+                    content: this.constructDigestPrompt(messages, messageCount, attemptRows, session)
+                }
+            ],
+            purpose: 'session_digest',
+            context: {
+                session_id: sessionId,
+                messages: messageCount,
+                attempts: attemptRows.length,
+                topics: session?.topics_covered || [],
+            },
+        });
+
+        if (!digest) {
+            throw new Error('Failed to generate session digest from speech provider');
+        }
+
+        const { data, error } = await supabase
+            .from('session_digests')
+            .upsert({
+                user_id: userId,
+                session_id: sessionId,
+                digest: digest.trim(),
+                message_count: messageCount,
+                attempt_count: attemptRows.length,
+                merged_at: null,
+                created_at: new Date().toISOString()
+            }, { onConflict: 'user_id,session_id' })
+            .select('*')
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to store session digest: ${error.message}`);
+        }
+
+        return data as DatabaseSessionDigest;
+    }
+
+    /**
+     * Claim up to `limit` digests not yet merged into the user's summary, oldest first.
+     * The claim is a conditional update, so a digest is only ever returned to one merge at a time;
+     * release the claim with releaseClaims() once the merge is done or has failed.
+     */
+    async claimUnmerged(
+        supabase: SupabaseClient,
+        userId: string,
+        limit: number
+    ): Promise<DatabaseSessionDigest[]> {
+        const claimExpiredBefore = new Date(Date.now() - MERGE_CLAIM_TIMEOUT_MS).toISOString();
+        const unclaimed = `merge_claimed_at.is.null,merge_claimed_at.lt.${claimExpiredBefore}`;
+
+        const { data: candidates, error } = await supabase
+            .from('session_digests')
+            .select('id')
+            .eq('user_id', userId)
+            .is('merged_at', null)
+            .or(unclaimed)
+            .order('created_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            throw new Error(`Failed to load session digests: ${error.message}`);
+        }
+
+        if (!candidates || candidates.length === 0) {
+            return [];
+        }
+
+        const { data: claimed, error: claimError } = await supabase
+            .from('session_digests')
+            .update({ merge_claimed_at: new Date().toISOString() })
+            .eq('user_id', userId)
+            .in('id', candidates.map(candidate => candidate.id))
+            .is('merged_at', null)
+            .or(unclaimed)
+            .select('*');
+
+        if (claimError) {
+            throw new Error(`Failed to claim session digests: ${claimError.message}`);
+        }
+
+        return ((claimed || []) as DatabaseSessionDigest[])
+            .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    }
+
+    /**
+     * Release merge claims on digests that were not merged, so the next read picks them up
+     */
+    async releaseClaims(supabase: SupabaseClient, userId: string, ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+
+        const { error } = await supabase
+            .from('session_digests')
+            .update({ merge_claimed_at: null })
+            .eq('user_id', userId)
+            .in('id', ids)
+            .is('merged_at', null);
+
+        if (error) {
+            console.error('Failed to release session digest claims:', error);
+        }
+    }
+
+    /**
+     * Mark digests as merged, either by id or every digest created before a point in time
+     * (as after a full rebuild that already covers them)
+     */
+    async markMerged(
+        supabase: SupabaseClient,
+        userId: string,
+        options: { ids?: string[]; createdBefore?: string }
+    ): Promise<void> {
+        let query = supabase
+            .from('session_digests')
+            .update({ merged_at: new Date().toISOString(), merge_claimed_at: null })
+            .eq('user_id', userId)
+            .is('merged_at', null);
+
+        if (options.ids) {
+            if (options.ids.length === 0) return;
+            query = query.in('id', options.ids);
+        }
+        if (options.createdBefore) {
+            query = query.lt('created_at', options.createdBefore);
+        }
+
+        const { error } = await query;
+
+        if (error) {
+            throw new Error(`Failed to mark session digests merged: ${error.message}`);
+        }
+    }
+
+    /**
+     * Construct prompt for a session digest
+     */
+    private constructDigestPrompt(messages: any[], messageCount: number, attempts: any[], session: any): string {
+        const transcript = messages.map((m: any) =>
+            `[${m.role}]: ${m.message.substring(0, MAX_MESSAGE_CHARS)}${m.message.length > MAX_MESSAGE_CHARS ? '...' : ''}`
+        );
+
+        return `
+SESSION: ${session ? `${session.duration_minutes} minutes, performance: ${session.overall_performance || 'unrated'}` : 'no session record'}
+
+TOPICS: ${session?.topics_covered?.join(', ') || 'none recorded'}
+
+NEW VOCABULARY: ${session?.new_vocabulary?.join(', ') || 'none'}
+
+GRAMMAR: ${session?.grammar_points?.join(', ') || 'none'}
+
+PRONUNCIATION ATTEMPTS:
+${attempts.length > 0 ? attempts.map((a: any) =>
+            `${a.pronunciation_evaluations?.kanji || '?'} (${a.pronunciation_evaluations?.romaji || '?'}) - ${a.evaluation_score ?? '?'}/100`
+        ).join(', ') : 'None'}
+
+CONVERSATION${messageCount > transcript.length ? ` (last ${transcript.length} of ${messageCount} messages)` : ''}:
+${transcript.length > 0 ? transcript.join('\n') : 'None'}`;
+    }
+}
+
+// Export singleton instance
+export const sessionDigestService = new SessionDigestService();
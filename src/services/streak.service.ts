@@ -0,0 +1,161 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DatabaseStreakHistory, DatabaseUserStreak, StreakSummary } from '../types/index.js';
+import {
+    DEFAULT_FREEZE_EARN_INTERVAL_DAYS,
+    DEFAULT_MAX_STREAK_FREEZES,
+    DEFAULT_TIMEZONE,
+    StreakState,
+    StreakTransition,
+    addDays,
+    applyActivity,
+    getEffectiveStreak,
+    isValidTimezone,
+    toLocalDate,
+} from '../utils/streak-calculator.js';
+
+export interface StreakActivityPlan {
+    // last_active_date the transition was computed from, checked again when it is applied
+    expected_last_active_date: string | null;
+    timezone: string;
+    transition: StreakTransition;
+}
+
+export class StreakService {
+    /**
+     * Work out how a study session at the given time moves the user's streak, counting days
+     * in their own timezone. Nothing is written here: apply_session_progress records the
+     * transition in the same transaction as the session, so a retried session is not counted twice.
+     */
+    async planActivity(
+        supabase: SupabaseClient,
+        userId: string,
+        at: Date = new Date()
+    ): Promise<StreakActivityPlan> {
+        const row = await this.getOrCreateStreak(supabase, userId);
+        const localDate = toLocalDate(at, row.timezone);
+        const transition = applyActivity(this.toState(row), localDate);
+
+        return {
+            expected_last_active_date: row.last_active_date,
+            timezone: row.timezone,
+            transition,
+        };
+    }
+
+    /**
+     * Current streak state plus day-by-day history for a calendar heatmap
+     */
+    async getStreak(supabase: SupabaseClient, userId: string, days: number = 90): Promise<StreakSummary> {
+        const row = await this.getOrCreateStreak(supabase, userId);
+        const today = toLocalDate(new Date(), row.timezone);
+        const since = addDays(today, -(days - 1));
+
+        const { data, error } = await supabase
+            .from('streak_history')
+            .select('*')
+            .eq('user_id', userId)
+            .gte('activity_date', since)
+            .order('activity_date', { ascending: true });
+
+        if (error) {
+            throw new Error(`Failed to load streak history: ${error.message}`);
+        }
+
+        return {
+            user_id: userId,
+            timezone: row.timezone,
+            today,
+            current_streak: getEffectiveStreak(this.toState(row), today),
+            longest_streak: row.longest_streak,
+            last_active_date: row.last_active_date,
+            freezes_available: row.freezes_available,
+            max_freezes: row.max_freezes,
+            freeze_earn_interval_days: row.freeze_earn_interval_days,
+            freezes_used_total: row.freezes_used_total,
+            history: ((data || []) as DatabaseStreakHistory[]).map(day => ({
+                date: day.activity_date,
+                status: day.status,
+                session_count: day.session_count,
+                study_minutes: day.study_minutes,
+                streak_length: day.streak_length,
+            })),
+        };
+    }
+
+    /**
+     * Update the timezone and freeze settings used for the user's streak
+     */
+    async updateSettings(
+        supabase: SupabaseClient,
+        userId: string,
+        settings: { timezone?: string; max_freezes?: number; freeze_earn_interval_days?: number }
+    ): Promise<void> {
+        if (settings.timezone !== undefined && !isValidTimezone(settings.timezone)) {
+            throw new Error(`Invalid timezone: ${settings.timezone}`);
+        }
+
+        const row = await this.getOrCreateStreak(supabase, userId);
+        const updates: Record<string, any> = { ...settings };
+
+        // Lowering the cap drops any freezes above it
+        if (settings.max_freezes !== undefined) {
+            updates.freezes_available = Math.min(row.freezes_available, settings.max_freezes);
+        }
+
+        const { error } = await supabase
+            .from('user_streaks')
+            .update(updates)
+            .eq('user_id', userId);
+
+        if (error) {
+            throw new Error(`Failed to update streak settings: ${error.message}`);
+        }
+    }
+
+    private async getOrCreateStreak(supabase: SupabaseClient, userId: string): Promise<DatabaseUserStreak> {
+        const { data, error } = await supabase
+            .from('user_streaks')
+            .select('*')
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load streak: ${error.message}`);
+        }
+
+        if (data) {
+            return data as DatabaseUserStreak;
+        }
+
+        const { data: created, error: createError } = await supabase
+            .from('user_streaks')
+            .upsert({
+                user_id: userId,
+                timezone: DEFAULT_TIMEZONE,
+                max_freezes: DEFAULT_MAX_STREAK_FREEZES,
+                freeze_earn_interval_days: DEFAULT_FREEZE_EARN_INTERVAL_DAYS,
+            }, { onConflict: 'user_id' })
+            .select('*')
+            .single();
+
+        if (createError) {
+            throw new Error(`Failed to create streak: ${createError.message}`);
+        }
+
+        return created as DatabaseUserStreak;
+    }
+
+    private toState(row: DatabaseUserStreak): StreakState {
+        return {
+            current_streak: row.current_streak,
+            longest_streak: row.longest_streak,
+            last_active_date: row.last_active_date,
+            freezes_available: row.freezes_available,
+            max_freezes: row.max_freezes,
+            freeze_earn_interval_days: row.freeze_earn_interval_days,
+        };
+    }
+}
+
+// Export singleton instance
+export const streakService = new StreakService();
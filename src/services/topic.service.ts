@@ -0,0 +1,310 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DatabaseTopic } from '../types/index.js';
+import { TopicCategory } from '../utils/topic-categories.js';
+import { globalCache } from '../utils/request-batcher.js';
+
+// Topics change only through suggestions and moderation, so the full list is cached
+const TOPICS_CACHE_KEY = 'topics:all';
+const TOPICS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+export interface TopicMatch {
+    ref: string;
+    topic_id: string | null;
+    name: string | null;
+    category: string | null;
+}
+
+export interface CanonicalTopics {
+    labels: string[];
+    topic_ids: string[];
+    unmapped: string[];
+}
+
+export interface TopicNode extends DatabaseTopic {
+    children: TopicNode[];
+}
+
+export interface TopicSearchResult {
+    id: string;
+    name: string;
+    category: string;
+    parent_id: string | null;
+    score: number;
+}
+
+export interface TopicSuggestionInput {
+    name: string;
+    category: TopicCategory;
+    parentId?: string;
+    reason?: string;
+}
+
+export interface TopicListOptions {
+    category?: string;
+    active?: 'true' | 'false' | 'all';
+    // Inactive topics are only listed when this user suggested them
+    viewerId?: string | null;
+}
+
+/**
+ * Format a topic for API responses (suggestion details stay internal)
+ */
+export function formatTopic(topic: DatabaseTopic) {
+    return {
+        id: topic.id,
+        name: topic.name,
+        category: topic.category,
+        parent_id: topic.parent_id,
+        is_active: topic.is_active,
+        created_at: topic.created_at,
+        updated_at: topic.updated_at,
+    };
+}
+
+export type FormattedTopicNode = ReturnType<typeof formatTopic> & { children: FormattedTopicNode[] };
+
+export function formatTopicNode(node: TopicNode): FormattedTopicNode {
+    return {
+        ...formatTopic(node),
+        children: node.children.map(formatTopicNode),
+    };
+}
+
+export class TopicService {
+    /**
+     * Every topic, including everyone's inactive suggestions, ordered by category and name.
+     * Internal use only: filter with isVisibleTo() before returning topics to a user.
+     */
+    async listAll(supabase: SupabaseClient): Promise<DatabaseTopic[]> {
+        return globalCache.getOrSet(TOPICS_CACHE_KEY, async () => {
+            const { data, error } = await supabase
+                .from('topics')
+                .select('*')
+                .order('category', { ascending: true })
+                .order('name', { ascending: true });
+
+            if (error) {
+                throw new Error(`Failed to load topics: ${error.message}`);
+            }
+
+            return (data || []) as DatabaseTopic[];
+        }, TOPICS_CACHE_TTL_MS);
+    }
+
+    async listTopics(supabase: SupabaseClient, options: TopicListOptions = {}): Promise<DatabaseTopic[]> {
+        const active = options.active || 'true';
+        const topics = await this.listAll(supabase);
+
+        return topics.filter(topic =>
+            isVisibleTo(topic, options.viewerId) &&
+            (!options.category || topic.category === options.category) &&
+            (active === 'all' || topic.is_active === (active === 'true'))
+        );
+    }
+
+    /**
+     * Nest topics under their parents. A topic whose parent was filtered out
+     * becomes a root, so a filtered tree never drops topics.
+     */
+    buildTree(topics: DatabaseTopic[]): TopicNode[] {
+        const nodes = new Map<string, TopicNode>(topics.map(topic => [topic.id, { ...topic, children: [] }]));
+        const roots: TopicNode[] = [];
+
+        for (const node of nodes.values()) {
+            const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+            if (parent) {
+                parent.children.push(node);
+            } else {
+                roots.push(node);
+            }
+        }
+
+        return roots;
+    }
+
+    /**
+     * A topic with its descendants; inactive children are left out unless asked for.
+     * Inactive topics are only ever visible to the user who suggested them.
+     */
+    async getTopic(
+        supabase: SupabaseClient,
+        topicId: string,
+        options: { includeInactive?: boolean; viewerId?: string | null } = {}
+    ): Promise<{ topic: TopicNode; parent: DatabaseTopic | null } | null> {
+        const topics = (await this.listAll(supabase)).filter(candidate => isVisibleTo(candidate, options.viewerId));
+        const topic = topics.find(candidate => candidate.id === topicId);
+        if (!topic) {
+            return null;
+        }
+
+        const visible = topics.filter(candidate => candidate.id === topicId || options.includeInactive || candidate.is_active);
+        const node = this.findNode(this.buildTree(visible), topicId);
+
+        return {
+            topic: node || { ...topic, children: [] },
+            parent: topics.find(candidate => candidate.id === topic.parent_id) || null,
+        };
+    }
+
+    async searchTopics(
+        supabase: SupabaseClient,
+        query: string,
+        options: { category?: string; limit?: number } = {}
+    ): Promise<TopicSearchResult[]> {
+        const { data, error } = await supabase.rpc('search_topics', {
+            p_query: query,
+            p_category: options.category || null,
+            p_limit: options.limit || 20,
+        });
+
+        if (error) {
+            throw new Error(`Failed to search topics: ${error.message}`);
+        }
+
+        return ((data || []) as TopicSearchResult[]).map(result => ({ ...result, score: Number(result.score) }));
+    }
+
+    /**
+     * Store a user's topic suggestion as an inactive topic awaiting moderator approval
+     */
+    async suggestTopic(supabase: SupabaseClient, userId: string, input: TopicSuggestionInput): Promise<DatabaseTopic> {
+        const topics = await this.listAll(supabase);
+        const normalizedName = normalizeTopicLabel(input.name);
+        if (!normalizedName) {
+            throw new Error('Topic name must contain letters or numbers');
+        }
+
+        const existing = topics.find(topic => normalizeTopicLabel(topic.name) === normalizedName);
+        if (existing) {
+            throw new Error(existing.is_active
+                ? `Topic already exists: ${existing.id}`
+                : `Topic suggestion already pending: ${existing.id}`);
+        }
+
+        if (input.parentId) {
+            const parent = topics.find(topic => topic.id === input.parentId);
+            if (!parent || !parent.is_active) {
+                throw new Error(`Parent topic not found: ${input.parentId}`);
+            }
+            if (parent.category !== input.category) {
+                throw new Error(`Parent topic category mismatch: ${parent.category}`);
+            }
+        }
+
+        const { data, error } = await supabase
+            .from('topics')
+            .insert({
+                name: input.name.trim(),
+                category: input.category,
+                parent_id: input.parentId || null,
+                is_active: false,
+                suggested_by: userId,
+                suggestion_reason: input.reason || null,
+            })
+            .select('*')
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to suggest topic: ${error.message}`);
+        }
+
+        globalCache.delete(TOPICS_CACHE_KEY);
+        return data as DatabaseTopic;
+    }
+
+    private findNode(nodes: TopicNode[], topicId: string): TopicNode | undefined {
+        for (const node of nodes) {
+            if (node.id === topicId) return node;
+            const found = this.findNode(node.children, topicId);
+            if (found) return found;
+        }
+        return undefined;
+    }
+
+    /**
+     * Resolve topic ids or free-form labels to topics. Matching happens in the
+     * database (resolve_topic_refs) so the API and the write triggers agree.
+     */
+    async resolveRefs(supabase: SupabaseClient, refs: string[]): Promise<TopicMatch[]> {
+        const cleaned = refs.map(ref => ref?.trim()).filter((ref): ref is string => !!ref);
+        if (cleaned.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await supabase.rpc('resolve_topic_refs', { p_refs: cleaned });
+
+        if (error) {
+            throw new Error(`Failed to resolve topics: ${error.message}`);
+        }
+
+        return (data || []) as TopicMatch[];
+    }
+
+    async resolveRef(supabase: SupabaseClient, ref: string): Promise<TopicMatch | null> {
+        const [match] = await this.resolveRefs(supabase, [ref]);
+        return match?.topic_id ? match : null;
+    }
+
+    /**
+     * Replace topic ids and label variants with canonical topic names, so stored
+     * labels are spelled the same whichever agent wrote them. Labels that match
+     * no topic are kept as given and reported back.
+     */
+    async canonicalize(supabase: SupabaseClient, refs: string[] | undefined): Promise<CanonicalTopics> {
+        const matches = await this.resolveRefs(supabase, refs || []);
+
+        const labels: string[] = [];
+        const topicIds: string[] = [];
+        const unmapped: string[] = [];
+        for (const match of matches) {
+            if (match.topic_id && match.name) {
+                if (!topicIds.includes(match.topic_id)) {
+                    topicIds.push(match.topic_id);
+                    labels.push(match.name);
+                }
+            } else if (!labels.includes(match.ref)) {
+                labels.push(match.ref);
+                unmapped.push(match.ref);
+            }
+        }
+
+        return { labels, topic_ids: topicIds, unmapped };
+    }
+
+    /**
+     * canonicalize() for write paths: if the lookup fails the labels are stored
+     * as given, and the database triggers still link them to topics
+     */
+    async canonicalLabels(supabase: SupabaseClient, refs: string[] | undefined): Promise<string[]> {
+        try {
+            return (await this.canonicalize(supabase, refs)).labels;
+        } catch (error) {
+            console.error('Topic resolution failed, storing topics as given:', error);
+            return refs || [];
+        }
+    }
+
+    /**
+     * Query filter for a `topic` parameter that may be a topic id or a label:
+     * filter by topic_id when it resolves, otherwise by the raw label
+     */
+    async filterFor(supabase: SupabaseClient, ref: string): Promise<{ column: 'topic_id' | 'topic'; value: string }> {
+        const match = await this.resolveRef(supabase, ref);
+        return match?.topic_id
+            ? { column: 'topic_id', value: match.topic_id }
+            : { column: 'topic', value: ref };
+    }
+}
+
+// Same normalization as normalize_topic_label() in the database; letters in any script are kept
+function normalizeTopicLabel(label: string): string {
+    return label.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+// Mirrors the topics RLS policy, which the service-role client bypasses
+function isVisibleTo(topic: DatabaseTopic, userId: string | null | undefined): boolean {
+    return topic.is_active || (!!userId && topic.suggested_by === userId);
+}
+
+// Export singleton instance
+export const topicService = new TopicService();
@@ -0,0 +1,45 @@
+import { EnvironmentConfig } from '../utils/environment-config.js';
+import { SpeechProvider } from './providers/base.js';
+import { OpenAISpeechProvider } from './providers/openai.js';
+import { FakeSpeechProvider } from './providers/fake.js';
+
+export type { SpeechProvider, SpeechSynthesisRequest, ChatCompletionRequest, ChatMessage, ChatCompletionPurpose } from './providers/base.js';
+export { OpenAISpeechProvider } from './providers/openai.js';
+export { FakeSpeechProvider } from './providers/fake.js';
+
+let speechProvider: SpeechProvider | null = null;
+
+/**
+ * Create the provider selected by EnvironmentConfig (SPEECH_PROVIDER, or 'fake' when no OpenAI key is set outside production)
+ */
+export function createSpeechProvider(): SpeechProvider {
+    const providerName = EnvironmentConfig.getInstance().getSpeechProvider();
+
+    if (providerName === 'fake') {
+        return new FakeSpeechProvider();
+    }
+
+    const apiKey = process.env.OPENAI_API_KEY || import.meta.env.VITE_OPENAI_API_KEY;
+    if (!apiKey) {
+        throw new Error('OpenAI API key not found in environment variables');
+    }
+    return new OpenAISpeechProvider(apiKey);
+}
+
+/**
+ * Shared speech provider, created on first use
+ */
+export function getSpeechProvider(): SpeechProvider {
+    if (!speechProvider) {
+        speechProvider = createSpeechProvider();
+        console.log(`Speech provider: ${speechProvider.name}`);
+    }
+    return speechProvider;
+}
+
+/**
+ * Replace the shared provider (e.g. with a FakeSpeechProvider in tests)
+ */
+export function setSpeechProvider(provider: SpeechProvider | null): void {
+    speechProvider = provider;
+}
@@ -0,0 +1,33 @@
+// Base speech provider interface (text-to-speech and chat completion)
+export interface SpeechSynthesisRequest {
+    model: string;
+    voice: string;
+    input: string;
+    instructions?: string;
+}
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+// What a completion is for; lets offline providers return a well-formed answer
+export type ChatCompletionPurpose = 'pronunciation_enhancement' | 'user_summary' | 'session_digest' | 'user_summary_merge';
+
+export interface ChatCompletionRequest {
+    model: string;
+    messages: ChatMessage[];
+    purpose?: ChatCompletionPurpose;
+    // Structured data the prompt was built from
+    context?: unknown;
+}
+
+export interface SpeechProvider {
+    name: string;
+
+    // Synthesize speech and return MP3 audio
+    synthesizeSpeech(request: SpeechSynthesisRequest): Promise<Buffer>;
+
+    // Run a chat completion and return the reply text (null if the model returned nothing)
+    completeChat(request: ChatCompletionRequest): Promise<string | null>;
+}
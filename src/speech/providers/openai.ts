@@ -0,0 +1,34 @@
+import OpenAI from 'openai';
+import { SpeechProvider, SpeechSynthesisRequest, ChatCompletionRequest } from './base.js';
+
+export class OpenAISpeechProvider implements SpeechProvider {
+    name = 'openai';
+    private openai: OpenAI;
+
+    constructor(apiKey: string) {
+        this.openai = new OpenAI({
+            apiKey: apiKey,
+        });
+    }
+
+    async synthesizeSpeech(request: SpeechSynthesisRequest): Promise<Buffer> {
+        const mp3 = await this.openai.audio.speech.create({
+            model: request.model,
+            voice: request.voice,
+            input: request.input,
+            response_format: "mp3",
+            instructions: request.instructions,
+        });
+
+        return Buffer.from(await mp3.arrayBuffer());
+    }
+
+    async completeChat(request: ChatCompletionRequest): Promise<string | null> {
+        const completion = await this.openai.chat.completions.create({
+            model: request.model,
+            messages: request.messages,
+        });
+
+        return completion.choices[0]?.message?.content || null;
+    }
+}
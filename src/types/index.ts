@@ -8,8 +8,17 @@ export interface UserPreferences {
     wants_formal_speech: null | boolean;
     wants_kanji_practice: null | boolean;
     wants_grammar_focus: null | boolean;
+    auto_flash_cards?: null | boolean;
+    audio_voice?: null | TtsVoice;
+    audio_speed?: null | AudioSpeed;
+    audio_input_mode?: null | AudioInputMode;
 }
 
+export type TtsVoice = "nova" | "alloy" | "coral" | "echo" | "fable" | "onyx" | "sage" | "shimmer";
+export type AudioSpeed = "slow" | "normal";
+// native = kana/kanji text read by the TTS model; romaji = the romanized reading
+export type AudioInputMode = "native" | "romaji";
+
 export interface UserProgress {
     total_sessions: number;
     total_conversation_time: number;
@@ -20,6 +29,90 @@ export interface UserProgress {
     achievements_unlocked: string[];
     last_session_date: string;
     current_streak: number;
+    pronunciation_score_avg_30d?: number;
+    pronunciation_topic_averages?: PronunciationTopicAverage[];
+}
+
+export interface PronunciationTopicAverage {
+    topic_id: string | null;
+    topic: string;
+    average_score: number;
+    evaluation_count: number;
+}
+
+export type PronunciationErrorType =
+    | "substitution"
+    | "omission"
+    | "insertion"
+    | "long_vowel"
+    | "geminate"
+    | "moraic_nasal"
+    | "devoicing"
+    | "pitch_accent";
+
+export interface EvaluationDetails {
+    morae?: Array<{
+        position: number;
+        mora: string;
+        heard?: string;
+        score: number;
+        error_type?: PronunciationErrorType;
+    }>;
+    segments?: Array<{
+        segment_position: number;
+        text: string;
+        score: number;
+        mora_positions?: number[];
+    }>;
+    pitch_accent?: {
+        expected_pattern?: string;
+        produced_pattern?: string;
+        correct: boolean;
+        score?: number;
+    };
+    errors?: Array<{
+        type: PronunciationErrorType;
+        expected?: string;
+        heard?: string;
+        mora_position?: number;
+        segment_position?: number;
+    }>;
+    [key: string]: any;
+}
+
+export interface WeakSound {
+    sound: string;
+    category: PronunciationErrorType | "low_score";
+    label: string;
+    occurrences: number;
+    error_count: number;
+    error_rate: number;
+    average_score: number | null;
+    example_phrases: string[];
+    last_seen_at: string;
+}
+
+export interface DatabasePronunciationAttempt {
+    id: string;
+    evaluation_id: string;
+    user_id: string;
+    attempt_number: number;
+    user_pronunciation: string;
+    evaluation_score: number | null;
+    evaluation_feedback: string | null;
+    evaluation_details: EvaluationDetails | null;
+    session_id: string | null;
+    agent_id: string | null;
+    created_at: string;
+}
+
+export interface PronunciationScoreStats {
+    pronunciation_score_avg: number;
+    pronunciation_score_avg_30d: number;
+    pronunciation_scored_count: number;
+    pronunciation_scored_count_30d: number;
+    pronunciation_topic_averages: PronunciationTopicAverage[];
+    pronunciation_stats_updated_at: string;
 }
 
 export interface SessionHistory {
@@ -62,6 +155,14 @@ export interface SessionResponse {
     success: boolean;
     session_id: string;
     created_at: string;
+    new_achievements?: Array<{
+        id: string;
+        title: string;
+        description: string;
+        icon: string | null;
+        unlocked_at: string;
+    }>;
+    progress?: UserProgress;
 }
 
 // LiveKit Types
@@ -86,7 +187,10 @@ export interface ProgressAnalytics {
         vocabulary_learned: number;
         current_streak: number;
         level_progression: string[];
+        pronunciation_score_avg: number;
+        pronunciation_score_avg_30d: number;
     };
+    pronunciation_topic_averages: PronunciationTopicAverage[];
     recent_activity: Array<{
         date: string;
         session_count: number;
@@ -100,11 +204,20 @@ export interface ProgressAnalytics {
         unlocked_at: string;
         icon?: string;
     }>;
-    next_milestones: Array<{
-        title: string;
-        progress: number;
-        target: number;
-    }>;
+    next_milestones: Array<MilestoneProgress>;
+    completed_milestones: Array<MilestoneProgress>;
+}
+
+export interface MilestoneProgress {
+    id: string;
+    title: string;
+    description: string | null;
+    metric: MilestoneMetric;
+    jlpt_level: string | null;
+    progress: number;
+    target: number;
+    completed: boolean;
+    completed_at: string | null;
 }
 
 // Error Types
@@ -154,13 +267,53 @@ export interface DatabaseLearningSession {
     created_at: string;
 }
 
-export interface DatabaseUserFlashCard {
+// Topic Types
+export interface DatabaseTopic {
+    id: string;
+    name: string;
+    category: string;
+    parent_id: string | null;
+    is_active: boolean;
+    suggested_by: string | null;
+    suggestion_reason: string | null;
+    approved_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+// Flash Card Types
+export type FlashCardType = "vocabulary" | "phrase" | "kanji_recognition" | "grammar" | "pronunciation" | "custom";
+
+export interface FlashCardData {
+    front: string;
+    back: string;
+    reading?: string;
+    example?: string;
+    notes?: string;
+    [key: string]: any;
+}
+
+export interface FlashCardSchedule {
+    ease_factor: number;
+    interval_days: number;
+    repetitions: number;
+    lapses: number;
+    next_due_at: string;
+}
+
+export interface DatabaseUserFlashCard extends FlashCardSchedule {
+    id: string;
     user_id: string;
     card_id: string;
-    card_type: string;
-    card_data: string;
-    created_by: string;
-    agent_id: string;
+    card_type: FlashCardType;
+    card_data: FlashCardData;
+    created_by: "user" | "agent";
+    agent_id: string | null;
+    review_count: number;
+    last_grade: number | null;
+    last_reviewed_at: string | null;
+    created_at: string;
+    updated_at: string;
 }
 
 export interface DatabaseAchievement {
@@ -174,6 +327,86 @@ export interface DatabaseAchievement {
     unlocked_at: string;
 }
 
+export type MilestoneMetric =
+    | "total_sessions"
+    | "study_minutes"
+    | "words_learned"
+    | "phrases_practiced"
+    | "current_streak"
+    | "grammar_points"
+    | "phrases_evaluated"
+    | "high_score_phrases";
+
+export interface DatabaseMilestone {
+    id: string;
+    milestone_key: string;
+    title: string;
+    description: string | null;
+    metric: MilestoneMetric;
+    target: number;
+    learning_goal: string | null;
+    jlpt_level: "N5" | "N4" | "N3" | "N2" | "N1" | null;
+    sort_order: number;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface DatabaseUserMilestone {
+    id: string;
+    user_id: string;
+    milestone_id: string;
+    value_at_completion: number | null;
+    completed_at: string;
+}
+
+export interface DatabaseUserStreak {
+    id: string;
+    user_id: string;
+    timezone: string;
+    current_streak: number;
+    longest_streak: number;
+    last_active_date: string | null;
+    freezes_available: number;
+    max_freezes: number;
+    freeze_earn_interval_days: number;
+    freezes_used_total: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface DatabaseStreakHistory {
+    id: string;
+    user_id: string;
+    activity_date: string;
+    status: "active" | "frozen";
+    session_count: number;
+    study_minutes: number;
+    streak_length: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface StreakSummary {
+    user_id: string;
+    timezone: string;
+    today: string;
+    current_streak: number;
+    longest_streak: number;
+    last_active_date: string | null;
+    freezes_available: number;
+    max_freezes: number;
+    freeze_earn_interval_days: number;
+    freezes_used_total: number;
+    history: Array<{
+        date: string;
+        status: "active" | "frozen";
+        session_count: number;
+        study_minutes: number;
+        streak_length: number;
+    }>;
+}
+
 // Agent Context Types
 export interface AgentContext {
     agentId: string;
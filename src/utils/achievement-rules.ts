@@ -0,0 +1,132 @@
+/**
+ * Declarative achievement catalog
+ * Each rule is checked against a snapshot of the learner's stats after the events it listens to
+ */
+
+export type AchievementTrigger = 'session' | 'evaluation' | 'progress';
+
+export interface AchievementStats {
+  total_sessions: number;
+  current_streak: number;
+  words_learned: number;
+  phrases_practiced: number;
+  high_score_phrases: number;
+  topic_categories_touched: number;
+  total_topic_categories: number;
+}
+
+export interface AchievementRule {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  triggers: AchievementTrigger[];
+  isMet: (stats: AchievementStats) => boolean;
+}
+
+// Evaluations scoring at or above this (0-100) count towards high-score achievements
+export const HIGH_SCORE_THRESHOLD = 90;
+
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  {
+    id: 'first_session',
+    title: 'First Steps',
+    description: 'Complete your first learning session',
+    icon: '🌱',
+    triggers: ['session', 'progress'],
+    isMet: stats => stats.total_sessions >= 1,
+  },
+  {
+    id: 'sessions_10',
+    title: 'Regular Learner',
+    description: 'Complete 10 learning sessions',
+    icon: '📚',
+    triggers: ['session', 'progress'],
+    isMet: stats => stats.total_sessions >= 10,
+  },
+  {
+    id: 'sessions_50',
+    title: 'Dedicated Student',
+    description: 'Complete 50 learning sessions',
+    icon: '🎓',
+    triggers: ['session', 'progress'],
+    isMet: stats => stats.total_sessions >= 50,
+  },
+  {
+    id: 'streak_3',
+    title: 'Warming Up',
+    description: 'Study 3 days in a row',
+    icon: '🔥',
+    triggers: ['session', 'progress'],
+    isMet: stats => stats.current_streak >= 3,
+  },
+  {
+    id: 'streak_7',
+    title: 'Week Warrior',
+    description: 'Study 7 days in a row',
+    icon: '⚡',
+    triggers: ['session', 'progress'],
+    isMet: stats => stats.current_streak >= 7,
+  },
+  {
+    id: 'streak_30',
+    title: 'Unstoppable',
+    description: 'Study 30 days in a row',
+    icon: '🏆',
+    triggers: ['session', 'progress'],
+    isMet: stats => stats.current_streak >= 30,
+  },
+  {
+    id: 'words_100',
+    title: 'Vocabulary Builder',
+    description: 'Learn 100 words',
+    icon: '📝',
+    triggers: ['session', 'progress'],
+    isMet: stats => stats.words_learned >= 100,
+  },
+  {
+    id: 'words_500',
+    title: 'Word Collector',
+    description: 'Learn 500 words',
+    icon: '📖',
+    triggers: ['session', 'progress'],
+    isMet: stats => stats.words_learned >= 500,
+  },
+  {
+    id: 'high_scores_10',
+    title: 'Clear Speaker',
+    description: `Score ${HIGH_SCORE_THRESHOLD} or higher on 10 different phrases`,
+    icon: '🎤',
+    triggers: ['evaluation'],
+    isMet: stats => stats.high_score_phrases >= 10,
+  },
+  {
+    id: 'all_topic_categories',
+    title: 'Well Rounded',
+    description: 'Practice phrases from every topic category',
+    icon: '🌏',
+    triggers: ['evaluation'],
+    isMet: stats => stats.total_topic_categories > 0
+      && stats.topic_categories_touched >= stats.total_topic_categories,
+  },
+];
+
+/**
+ * Rules that listen to the trigger, are satisfied and have not been unlocked yet
+ */
+export function findNewlyMetRules(
+  trigger: AchievementTrigger,
+  stats: AchievementStats,
+  unlockedIds: Set<string>
+): AchievementRule[] {
+  return ACHIEVEMENT_RULES.filter(rule =>
+    rule.triggers.includes(trigger) && !unlockedIds.has(rule.id) && rule.isMet(stats)
+  );
+}
+
+/**
+ * Look up catalog metadata for an achievement ID
+ */
+export function getAchievementRule(id: string): AchievementRule | undefined {
+  return ACHIEVEMENT_RULES.find(rule => rule.id === id);
+}
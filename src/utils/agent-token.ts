@@ -11,7 +11,11 @@ export function createAgentToken(agentId: string = 'livekit-agent', jwtSecret?:
     return agentProvider.generateAgentToken(agentId, [
         'user.context',
         'user.progress',
-        'session.create'
+        'session.create',
+        'conversation.write',
+        'conversation.read',
+        'summary.read',
+        'summary.write'
     ]);
 }
 
@@ -0,0 +1,74 @@
+/**
+ * Text-to-speech variants for pronunciation audio
+ * Resolves per-request overrides against the learner's stored preferences
+ * and builds the TTS input and instructions for each variant
+ */
+
+import { AudioInputMode, AudioSpeed, TtsVoice, UserPreferences } from '../types/index.js';
+
+export const TTS_VOICES = ['nova', 'alloy', 'coral', 'echo', 'fable', 'onyx', 'sage', 'shimmer'] as const satisfies readonly TtsVoice[];
+export const AUDIO_SPEEDS = ['slow', 'normal'] as const satisfies readonly AudioSpeed[];
+export const AUDIO_INPUT_MODES = ['native', 'romaji'] as const satisfies readonly AudioInputMode[];
+
+export interface AudioOptions {
+  voice: TtsVoice;
+  speed: AudioSpeed;
+  input_mode: AudioInputMode;
+}
+
+export const DEFAULT_AUDIO_OPTIONS: AudioOptions = {
+  voice: 'nova',
+  speed: 'normal',
+  input_mode: 'native',
+};
+
+// Learners at these levels get slowed-down audio unless they choose otherwise
+const SLOW_AUDIO_LEVELS: Array<UserPreferences['learning_level']> = ['absolute_beginner', 'beginner'];
+
+const BASE_INSTRUCTIONS = 'Please pronounce the japanese phrase in a natural, clear, and conversational tone.';
+const SLOW_INSTRUCTIONS = 'Speak slowly and clearly, giving every mora its full length, with a short pause between words.';
+
+/**
+ * Merge request overrides, then stored preferences, then level-based defaults
+ */
+export function resolveAudioOptions(
+  overrides: Partial<AudioOptions> | undefined,
+  preferences: Partial<UserPreferences> | null | undefined
+): AudioOptions {
+  const levelSpeed: AudioSpeed = preferences?.learning_level && SLOW_AUDIO_LEVELS.includes(preferences.learning_level)
+    ? 'slow'
+    : DEFAULT_AUDIO_OPTIONS.speed;
+
+  return {
+    voice: overrides?.voice || preferences?.audio_voice || DEFAULT_AUDIO_OPTIONS.voice,
+    speed: overrides?.speed || preferences?.audio_speed || levelSpeed,
+    input_mode: overrides?.input_mode || preferences?.audio_input_mode || DEFAULT_AUDIO_OPTIONS.input_mode,
+  };
+}
+
+/**
+ * TTS input text and instructions for a phrase.
+ * Native-script input is given the romaji reading as a hint so that kanji
+ * with several readings are pronounced the way the lesson teaches them.
+ */
+export function buildSpeechRequest(
+  romaji: string,
+  kanji: string,
+  options: AudioOptions
+): { input: string; instructions: string } {
+  const hasReading = !!romaji && romaji !== 'pronunciation_needed';
+  const useNative = options.input_mode === 'native' || !hasReading;
+
+  const instructions = [BASE_INSTRUCTIONS];
+  if (useNative && hasReading) {
+    instructions.push(`Read it as "${romaji}".`);
+  }
+  if (options.speed === 'slow') {
+    instructions.push(SLOW_INSTRUCTIONS);
+  }
+
+  return {
+    input: useNative ? kanji : romaji,
+    instructions: instructions.join(' '),
+  };
+}
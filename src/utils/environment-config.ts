@@ -4,6 +4,7 @@
  */
 
 export type Environment = 'development' | 'staging' | 'production';
+export type SpeechProviderName = 'openai' | 'fake';
 
 export interface AgentConfig {
   environment: Environment;
@@ -16,6 +17,7 @@ export interface AgentConfig {
   retryDelayMs: number;
   circuitBreakerThreshold: number;
   circuitBreakerTimeoutMs: number;
+  speechProvider: SpeechProviderName;
 }
 
 export class EnvironmentConfig {
@@ -64,6 +66,7 @@ export class EnvironmentConfig {
       retryDelayMs: 1000,
       circuitBreakerThreshold: 5, // failures before opening circuit
       circuitBreakerTimeoutMs: 30000, // 30 seconds
+      speechProvider: this.getSpeechProviderName(environment),
     };
 
     // Environment-specific overrides
@@ -161,6 +164,24 @@ export class EnvironmentConfig {
     return apiUrls[environment] || process.env.API_BASE_URL || import.meta.env?.VITE_API_BASE_URL || apiUrls.development;
   }
 
+  private getSpeechProviderName(environment: Environment): SpeechProviderName {
+    const configured = (process.env.SPEECH_PROVIDER || import.meta.env?.VITE_SPEECH_PROVIDER)?.toLowerCase();
+    if (configured === 'openai' || configured === 'fake') {
+      return configured;
+    }
+    if (configured) {
+      throw new Error(`Unknown speech provider: ${configured}. Use 'openai' or 'fake'`);
+    }
+
+    // Without an API key, local environments run offline; production must fail loudly instead
+    const hasOpenAIKey = !!(process.env.OPENAI_API_KEY || import.meta.env?.VITE_OPENAI_API_KEY);
+    if (!hasOpenAIKey && environment !== 'production') {
+      console.warn(`No OpenAI API key found; using the offline 'fake' speech provider in ${environment}`);
+      return 'fake';
+    }
+    return 'openai';
+  }
+
   public getConfig(): AgentConfig {
     return { ...this.config };
   }
@@ -177,6 +198,10 @@ export class EnvironmentConfig {
     return this.config.environment;
   }
 
+  public getSpeechProvider(): SpeechProviderName {
+    return this.config.speechProvider;
+  }
+
   public isProduction(): boolean {
     return this.config.environment === 'production';
   }
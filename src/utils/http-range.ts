@@ -0,0 +1,53 @@
+/**
+ * HTTP Range header parsing for serving partial file content
+ * Supports a single byte range: bytes=start-end, bytes=start- and bytes=-suffix
+ */
+
+export interface ParsedRange {
+  start: number;
+  end: number; // inclusive
+}
+
+/**
+ * Parse a Range header against a file size.
+ * Returns null when there is no usable range (serve the whole file),
+ * or 'unsatisfiable' when the range lies outside the file.
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ParsedRange | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  // Multiple ranges and other units are ignored; the full file is sent instead
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(match[2], 10);
+    if (suffixLength === 0) return 'unsatisfiable';
+    start = Math.max(size - suffixLength, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+
+  return { start, end };
+}
+
+/**
+ * Whether an If-None-Match header matches the given ETag
+ */
+export function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+
+  return ifNoneMatch
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .includes(etag);
+}
@@ -0,0 +1,111 @@
+/**
+ * Minimal pairs for common Japanese pronunciation errors
+ * Keyed by mora (for substitutions) or by error category
+ */
+
+export interface DrillWord {
+  kanji: string;
+  kana: string;
+  romaji: string;
+  translation: string;
+}
+
+export interface MinimalPair {
+  target: DrillWord;
+  contrast: DrillWord;
+  note: string;
+}
+
+export const MINIMAL_PAIRS: Record<string, MinimalPair[]> = {
+  'つ': [
+    {
+      target: { kanji: '月', kana: 'つき', romaji: 'tsuki', translation: 'moon' },
+      contrast: { kanji: '好き', kana: 'すき', romaji: 'suki', translation: 'like' },
+      note: 'つ starts with a short "t" stop; す has none',
+    },
+    {
+      target: { kanji: '使う', kana: 'つかう', romaji: 'tsukau', translation: 'to use' },
+      contrast: { kanji: '吸う', kana: 'すう', romaji: 'suu', translation: 'to inhale' },
+      note: 'Start つ with the tongue touching behind the teeth',
+    },
+  ],
+  'ふ': [
+    {
+      target: { kanji: '船', kana: 'ふね', romaji: 'fune', translation: 'ship' },
+      contrast: { kanji: '骨', kana: 'ほね', romaji: 'hone', translation: 'bone' },
+      note: 'ふ is blown through rounded lips, without touching the teeth',
+    },
+  ],
+  'り': [
+    {
+      target: { kanji: '栗鼠', kana: 'りす', romaji: 'risu', translation: 'squirrel' },
+      contrast: { kanji: '椅子', kana: 'いす', romaji: 'isu', translation: 'chair' },
+      note: 'Tap the tongue once for り; do not drop it',
+    },
+  ],
+  'ん': [
+    {
+      target: { kanji: 'こんな', kana: 'こんな', romaji: 'konna', translation: 'this kind of' },
+      contrast: { kanji: '粉', kana: 'こな', romaji: 'kona', translation: 'powder' },
+      note: 'ん is a full beat of its own',
+    },
+    {
+      target: { kanji: '担任', kana: 'たんにん', romaji: 'tannin', translation: 'homeroom teacher' },
+      contrast: { kanji: '他人', kana: 'たにん', romaji: 'tanin', translation: 'stranger' },
+      note: 'Hold ん for a whole beat before the next mora',
+    },
+  ],
+  long_vowel: [
+    {
+      target: { kanji: 'おばあさん', kana: 'おばあさん', romaji: 'obaasan', translation: 'grandmother' },
+      contrast: { kanji: 'おばさん', kana: 'おばさん', romaji: 'obasan', translation: 'aunt' },
+      note: 'A long vowel lasts two beats',
+    },
+    {
+      target: { kanji: 'おじいさん', kana: 'おじいさん', romaji: 'ojiisan', translation: 'grandfather' },
+      contrast: { kanji: 'おじさん', kana: 'おじさん', romaji: 'ojisan', translation: 'uncle' },
+      note: 'Count the beats: o-ji-i-sa-n',
+    },
+    {
+      target: { kanji: 'ビール', kana: 'ビール', romaji: 'biiru', translation: 'beer' },
+      contrast: { kanji: 'ビル', kana: 'ビル', romaji: 'biru', translation: 'building' },
+      note: 'ー doubles the length of the vowel before it',
+    },
+  ],
+  geminate: [
+    {
+      target: { kanji: '切手', kana: 'きって', romaji: 'kitte', translation: 'stamp' },
+      contrast: { kanji: '来て', kana: 'きて', romaji: 'kite', translation: 'come (te-form)' },
+      note: 'っ is a one-beat silent pause before the consonant',
+    },
+    {
+      target: { kanji: '言った', kana: 'いった', romaji: 'itta', translation: 'said' },
+      contrast: { kanji: '居た', kana: 'いた', romaji: 'ita', translation: 'was (there)' },
+      note: 'Hold the closure for a full beat',
+    },
+    {
+      target: { kanji: '作家', kana: 'さっか', romaji: 'sakka', translation: 'author' },
+      contrast: { kanji: '坂', kana: 'さか', romaji: 'saka', translation: 'slope' },
+      note: 'さっか has three beats; さか has two',
+    },
+  ],
+  pitch_accent: [
+    {
+      target: { kanji: '箸', kana: 'はし', romaji: 'hashi', translation: 'chopsticks (high-low)' },
+      contrast: { kanji: '橋', kana: 'はし', romaji: 'hashi', translation: 'bridge (low-high)' },
+      note: 'Same sounds, different pitch',
+    },
+    {
+      target: { kanji: '雨', kana: 'あめ', romaji: 'ame', translation: 'rain (high-low)' },
+      contrast: { kanji: '飴', kana: 'あめ', romaji: 'ame', translation: 'candy (low-high)' },
+      note: 'Start high for 雨, low for 飴',
+    },
+  ],
+};
+
+/**
+ * Minimal pairs targeting a sound or error category
+ */
+export function getMinimalPairs(sound: string): MinimalPair[] {
+  return MINIMAL_PAIRS[sound] || [];
+}
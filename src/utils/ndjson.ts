@@ -0,0 +1,100 @@
+/**
+ * Incremental NDJSON (newline-delimited JSON) reading for streamed request bodies
+ * Yields lines as chunks arrive, so callers can act on each record without waiting for the body to end
+ */
+
+export interface NdjsonLine {
+  // 1-based position in the stream, counting blank lines
+  line: number;
+  value?: unknown;
+  error?: string;
+}
+
+export interface NdjsonReadOptions {
+  maxLineBytes?: number;
+  maxLines?: number;
+}
+
+export class NdjsonLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NdjsonLimitError';
+  }
+}
+
+function parseLine(text: string, line: number): NdjsonLine | null {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  try {
+    return { line, value: JSON.parse(trimmed) };
+  } catch {
+    return { line, error: 'Line is not valid JSON' };
+  }
+}
+
+/**
+ * Read an NDJSON stream, yielding the complete lines from each chunk as one batch.
+ * Blank lines are skipped; lines that fail to parse are yielded with an error instead of a value.
+ * Throws NdjsonLimitError when a line or the line count exceeds the configured limits.
+ */
+export async function* readNdjsonBatches(
+  stream: ReadableStream<Uint8Array>,
+  options: NdjsonReadOptions = {}
+): AsyncGenerator<NdjsonLine[]> {
+  const maxLineBytes = options.maxLineBytes ?? 64 * 1024;
+  const maxLines = options.maxLines ?? 5000;
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let lineNumber = 0;
+
+  const takeLine = (text: string): NdjsonLine | null => {
+    lineNumber++;
+    if (lineNumber > maxLines) {
+      throw new NdjsonLimitError(`Stream exceeds ${maxLines} lines`);
+    }
+    return parseLine(text, lineNumber);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const parts = buffer.split('\n');
+      buffer = parts.pop() ?? '';
+
+      if (Buffer.byteLength(buffer) > maxLineBytes) {
+        throw new NdjsonLimitError(`Line ${lineNumber + parts.length + 1} exceeds ${maxLineBytes} bytes`);
+      }
+
+      const batch: NdjsonLine[] = [];
+      for (const part of parts) {
+        if (Buffer.byteLength(part) > maxLineBytes) {
+          throw new NdjsonLimitError(`Line ${lineNumber + 1} exceeds ${maxLineBytes} bytes`);
+        }
+        const parsed = takeLine(part);
+        if (parsed) batch.push(parsed);
+      }
+      if (batch.length > 0) {
+        yield batch;
+      }
+    }
+
+    // The final line does not need a trailing newline
+    buffer += decoder.decode();
+    if (Buffer.byteLength(buffer) > maxLineBytes) {
+      throw new NdjsonLimitError(`Line ${lineNumber + 1} exceeds ${maxLineBytes} bytes`);
+    }
+    if (buffer.trim()) {
+      const last = takeLine(buffer);
+      if (last) yield [last];
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Aggregate structured evaluation details across pronunciation attempts
+ * to find the sounds a learner struggles with most
+ */
+
+import { EvaluationDetails, PronunciationErrorType, WeakSound } from '../types/index.js';
+
+// Morae scoring below this (0-100) count as mispronounced even without an explicit error
+export const MORA_ERROR_SCORE = 60;
+
+const MAX_EXAMPLE_PHRASES = 3;
+
+// Errors tracked per category rather than per individual mora
+const CATEGORY_ERRORS: PronunciationErrorType[] = ['long_vowel', 'geminate', 'moraic_nasal', 'devoicing', 'pitch_accent'];
+
+const CATEGORY_LABELS: Record<string, string> = {
+  long_vowel: 'Long vowels',
+  geminate: 'Double consonants (っ)',
+  moraic_nasal: 'Moraic nasal (ん)',
+  devoicing: 'Vowel devoicing',
+  pitch_accent: 'Pitch accent',
+};
+
+export interface AnalyzedAttempt {
+  kanji: string;
+  created_at: string;
+  evaluation_details: EvaluationDetails | null;
+}
+
+interface SoundTally {
+  sound: string;
+  category: WeakSound['category'];
+  occurrences: number;
+  errorCount: number;
+  scoreTotal: number;
+  scoreCount: number;
+  heardAs: Map<string, number>;
+  examples: Set<string>;
+  lastSeenAt: string;
+}
+
+/**
+ * Whether an attempt carries any structured detail worth analysing
+ */
+export function hasStructuredDetails(details: EvaluationDetails | null | undefined): details is EvaluationDetails {
+  return !!details && (
+    (Array.isArray(details.morae) && details.morae.length > 0)
+    || (Array.isArray(details.errors) && details.errors.length > 0)
+    || !!details.pitch_accent
+  );
+}
+
+/**
+ * Rank the learner's weakest sounds across attempts, most frequent errors first.
+ * Error rate only breaks ties, so a sound missed once in one attempt cannot outrank
+ * one missed again and again.
+ */
+export function findWeakestSounds(attempts: AnalyzedAttempt[], limit: number = 5): WeakSound[] {
+  const tallies = new Map<string, SoundTally>();
+  const analysed = attempts.filter(attempt => hasStructuredDetails(attempt.evaluation_details));
+
+  const tally = (key: string, sound: string, category: WeakSound['category'], createdAt: string): SoundTally => {
+    let entry = tallies.get(key);
+    if (!entry) {
+      entry = {
+        sound,
+        category,
+        occurrences: 0,
+        errorCount: 0,
+        scoreTotal: 0,
+        scoreCount: 0,
+        heardAs: new Map(),
+        examples: new Set(),
+        lastSeenAt: createdAt,
+      };
+      tallies.set(key, entry);
+    }
+    if (createdAt > entry.lastSeenAt) {
+      entry.lastSeenAt = createdAt;
+    }
+    return entry;
+  };
+
+  for (const attempt of analysed) {
+    const details = attempt.evaluation_details as EvaluationDetails;
+    const categoryErrors = new Set<string>();
+
+    // Individual morae
+    for (const mora of details.morae || []) {
+      const entry = tally(`mora:${mora.mora}`, mora.mora, 'low_score', attempt.created_at);
+      entry.occurrences++;
+      entry.scoreTotal += mora.score;
+      entry.scoreCount++;
+
+      const misheard = !!mora.heard && mora.heard !== mora.mora;
+      if (mora.error_type || misheard || mora.score < MORA_ERROR_SCORE) {
+        entry.errorCount++;
+        entry.examples.add(attempt.kanji);
+        if (misheard) {
+          entry.heardAs.set(mora.heard as string, (entry.heardAs.get(mora.heard as string) || 0) + 1);
+        }
+        if (mora.error_type && !CATEGORY_ERRORS.includes(mora.error_type)) {
+          entry.category = mora.error_type;
+        } else if (misheard) {
+          entry.category = 'substitution';
+        }
+      }
+
+      if (mora.error_type && CATEGORY_ERRORS.includes(mora.error_type)) {
+        categoryErrors.add(mora.error_type);
+      }
+    }
+
+    // Listed errors; substitutions only count here when the agent sent no mora scores
+    for (const error of details.errors || []) {
+      if (CATEGORY_ERRORS.includes(error.type)) {
+        categoryErrors.add(error.type);
+      } else if (!details.morae?.length && error.expected) {
+        const entry = tally(`mora:${error.expected}`, error.expected, error.type, attempt.created_at);
+        entry.occurrences++;
+        entry.errorCount++;
+        entry.examples.add(attempt.kanji);
+        if (error.heard && error.heard !== error.expected) {
+          entry.heardAs.set(error.heard, (entry.heardAs.get(error.heard) || 0) + 1);
+        }
+      }
+    }
+
+    if (details.pitch_accent && !details.pitch_accent.correct) {
+      categoryErrors.add('pitch_accent');
+    }
+
+    // Categories are measured against every analysed attempt
+    for (const category of CATEGORY_ERRORS) {
+      const entry = tally(`category:${category}`, category, category, attempt.created_at);
+      entry.occurrences++;
+      if (category === 'pitch_accent' && typeof details.pitch_accent?.score === 'number') {
+        entry.scoreTotal += details.pitch_accent.score;
+        entry.scoreCount++;
+      }
+      if (categoryErrors.has(category)) {
+        entry.errorCount++;
+        entry.examples.add(attempt.kanji);
+      }
+    }
+  }
+
+  return Array.from(tallies.values())
+    .filter(entry => entry.errorCount > 0)
+    .map(entry => toWeakSound(entry))
+    .sort((a, b) =>
+      b.error_count - a.error_count
+      || b.error_rate - a.error_rate
+      || (a.average_score ?? 100) - (b.average_score ?? 100)
+    )
+    .slice(0, limit);
+}
+
+function toWeakSound(entry: SoundTally): WeakSound {
+  const topHeard = Array.from(entry.heardAs.entries()).sort(([, a], [, b]) => b - a)[0]?.[0];
+  const label = CATEGORY_LABELS[entry.sound]
+    || (topHeard ? `${entry.sound} vs ${topHeard}` : entry.sound);
+
+  return {
+    sound: entry.sound,
+    category: entry.category,
+    label,
+    occurrences: entry.occurrences,
+    error_count: entry.errorCount,
+    error_rate: Math.round((entry.errorCount / entry.occurrences) * 100) / 100,
+    average_score: entry.scoreCount > 0 ? Math.round((entry.scoreTotal / entry.scoreCount) * 10) / 10 : null,
+    example_phrases: Array.from(entry.examples).slice(0, MAX_EXAMPLE_PHRASES),
+    last_seen_at: entry.lastSeenAt,
+  };
+}
@@ -10,12 +10,51 @@ export interface BatchRequest {
   userId: string;
   sessionId?: string;
   timestamp: number;
+  // Outbox attempt this request was claimed under, when it came from pending_agent_updates
+  attempt?: number;
 }
 
+// Identifies an outbox row as claimed by one drain run, with the delta that row contributes
+export interface OutboxClaim {
+  id: string;
+  attempts: number;
+  delta: Record<string, any>;
+}
+
+export type BatchStatus = 'applied' | 'failed';
+
 export interface BatchResult {
   id: string;
   success: boolean;
+  status: BatchStatus;
   error?: string;
+  appliedDelta?: Record<string, any>;
+  processedAt?: string;
+}
+
+export interface AggregatedProgress {
+  words_learned: number;
+  phrases_practiced: number;
+  pronunciation_score_avg?: number;
+  grammar_points_covered: string[];
+  total_session_time: number;
+}
+
+export interface VocabularyItem {
+  word: string;
+  reading?: string;
+  meaning?: string;
+  session_id?: string;
+}
+
+/**
+ * Storage backend the batcher writes aggregated updates to
+ */
+export interface BatchPersistenceAdapter {
+  // Must mark the claimed outbox rows applied in the same write as the delta, so it is applied once
+  applyProgressUpdate(userId: string, delta: AggregatedProgress, claims: OutboxClaim[]): Promise<void>;
+  insertVocabulary(userId: string, items: VocabularyItem[]): Promise<number>;
+  unlockAchievements(userId: string, achievementIds: string[]): Promise<string[]>;
 }
 
 export interface CacheEntry<T = any> {
@@ -27,7 +66,8 @@ export interface CacheEntry<T = any> {
 
 export class RequestBatcher {
   private static instance: RequestBatcher;
-  private batchQueue = new Map<string, BatchRequest[]>();
+  // Each pending batch keeps the storage backend its requests were queued with
+  private batchQueue = new Map<string, { persistence: BatchPersistenceAdapter; requests: BatchRequest[] }>();
   private batchTimers = new Map<string, NodeJS.Timeout>();
   private readonly batchSizeLimit = 10;
   // Removed unused batchTimeoutMs - using maxBatchDelay instead
@@ -42,18 +82,36 @@ export class RequestBatcher {
     return RequestBatcher.instance;
   }
 
+  /**
+   * Execute requests immediately against the given storage backend, bypassing the in-memory queue.
+   * Used when draining the durable outbox.
+   */
+  async processRequests(requests: BatchRequest[], persistence: BatchPersistenceAdapter): Promise<BatchResult[]> {
+    try {
+      return await this.executeBatch(requests, persistence);
+    } catch (error) {
+      return requests.map(req => this.failure(req, error, 'Batch processing failed'));
+    }
+  }
+
   /**
    * Add a request to the batch queue
    */
-  async addToBatch(request: BatchRequest): Promise<void> {
+  async addToBatch(request: BatchRequest, persistence: BatchPersistenceAdapter): Promise<void> {
     const batchKey = this.getBatchKey(request);
-    
+
+    // A batch is written with a single backend; flush one queued with a different backend first
+    const existing = this.batchQueue.get(batchKey);
+    if (existing && existing.persistence !== persistence) {
+      await this.processBatch(batchKey);
+    }
+
     // Initialize batch if it doesn't exist
     if (!this.batchQueue.has(batchKey)) {
-      this.batchQueue.set(batchKey, []);
+      this.batchQueue.set(batchKey, { persistence, requests: [] });
     }
 
-    const batch = this.batchQueue.get(batchKey)!;
+    const batch = this.batchQueue.get(batchKey)!.requests;
     batch.push(request);
 
     // If batch is full, process immediately
@@ -70,10 +128,11 @@ export class RequestBatcher {
    * Process a batch of requests
    */
   private async processBatch(batchKey: string): Promise<BatchResult[]> {
-    const batch = this.batchQueue.get(batchKey);
-    if (!batch || batch.length === 0) {
+    const queued = this.batchQueue.get(batchKey);
+    if (!queued || queued.requests.length === 0) {
       return [];
     }
+    const batch = queued.requests;
 
     // Clear the batch and timer
     this.batchQueue.delete(batchKey);
@@ -85,24 +144,22 @@ export class RequestBatcher {
 
     console.log(`Processing batch ${batchKey} with ${batch.length} requests`);
 
+    let results: BatchResult[];
     try {
-      const results = await this.executeBatch(batch);
+      results = await this.executeBatch(batch, queued.persistence);
       console.log(`Batch ${batchKey} completed: ${results.filter(r => r.success).length}/${results.length} successful`);
-      return results;
     } catch (error) {
       console.error(`Batch ${batchKey} failed:`, error);
-      return batch.map(req => ({
-        id: req.id,
-        success: false,
-        error: error instanceof Error ? error.message : 'Batch processing failed'
-      }));
+      results = batch.map(req => this.failure(req, error, 'Batch processing failed'));
     }
+
+    return results;
   }
 
   /**
    * Execute a batch of requests based on type
    */
-  private async executeBatch(batch: BatchRequest[]): Promise<BatchResult[]> {
+  private async executeBatch(batch: BatchRequest[], persistence: BatchPersistenceAdapter): Promise<BatchResult[]> {
     // Group by request type
     const groupedRequests = batch.reduce((groups, request) => {
       if (!groups[request.type]) {
@@ -118,20 +175,16 @@ export class RequestBatcher {
     for (const [type, requests] of Object.entries(groupedRequests)) {
       switch (type) {
         case 'progress_update':
-          allResults.push(...await this.batchProgressUpdates(requests));
+          allResults.push(...await this.batchProgressUpdates(requests, persistence));
           break;
         case 'vocabulary_insert':
-          allResults.push(...await this.batchVocabularyInserts(requests));
+          allResults.push(...await this.batchVocabularyInserts(requests, persistence));
           break;
         case 'achievement_unlock':
-          allResults.push(...await this.batchAchievementUnlocks(requests));
+          allResults.push(...await this.batchAchievementUnlocks(requests, persistence));
           break;
         default:
-          allResults.push(...requests.map(req => ({
-            id: req.id,
-            success: false,
-            error: `Unknown request type: ${type}`
-          })));
+          allResults.push(...requests.map(req => this.failure(req, new Error(`Unknown request type: ${type}`))));
       }
     }
 
@@ -141,41 +194,24 @@ export class RequestBatcher {
   /**
    * Batch process progress updates
    */
-  private async batchProgressUpdates(requests: BatchRequest[]): Promise<BatchResult[]> {
-    // Group by user for efficient updates
-    const userUpdates = new Map<string, BatchRequest[]>();
-    
-    for (const request of requests) {
-      if (!userUpdates.has(request.userId)) {
-        userUpdates.set(request.userId, []);
-      }
-      userUpdates.get(request.userId)!.push(request);
-    }
-
+  private async batchProgressUpdates(requests: BatchRequest[], persistence: BatchPersistenceAdapter): Promise<BatchResult[]> {
     const results: BatchResult[] = [];
 
-    for (const [userId, userRequests] of userUpdates) {
+    for (const [userId, userRequests] of this.groupByUser(requests)) {
       try {
-        // Aggregate all progress updates for this user
+        // Aggregate all progress updates for this user into a single database update,
+        // but report each request's own delta so batch status shows what that batch applied
         const aggregatedProgress = this.aggregateProgressUpdates(userRequests);
-        
-        // Single database update per user
-        // This would integrate with your Supabase client
-        console.log(`Updating progress for user ${userId}:`, aggregatedProgress);
-        
-        // Mark all requests as successful
-        results.push(...userRequests.map(req => ({
-          id: req.id,
-          success: true
-        })));
+        const ownDeltas = new Map(userRequests.map(req => [req, { progress: this.aggregateProgressUpdates([req]) }]));
+        const claims = userRequests
+          .filter(req => req.attempt !== undefined)
+          .map(req => ({ id: req.id, attempts: req.attempt!, delta: ownDeltas.get(req)! }));
+        await persistence.applyProgressUpdate(userId, aggregatedProgress, claims);
 
+        results.push(...userRequests.map(req => this.success(req, ownDeltas.get(req)!)));
       } catch (error) {
         // Mark all requests for this user as failed
-        results.push(...userRequests.map(req => ({
-          id: req.id,
-          success: false,
-          error: error instanceof Error ? error.message : 'Progress update failed'
-        })));
+        results.push(...userRequests.map(req => this.failure(req, error, 'Progress update failed')));
       }
     }
 
@@ -185,71 +221,96 @@ export class RequestBatcher {
   /**
    * Batch process vocabulary insertions
    */
-  private async batchVocabularyInserts(requests: BatchRequest[]): Promise<BatchResult[]> {
-    try {
-      // Collect all vocabulary items
-      const vocabularyItems = requests.flatMap(req => req.data.vocabulary || []);
-      
-      if (vocabularyItems.length === 0) {
-        return requests.map(req => ({ id: req.id, success: true }));
-      }
-
-      // Bulk insert vocabulary
-      console.log(`Bulk inserting ${vocabularyItems.length} vocabulary items`);
-      
-      // This would be a single bulk insert to your database
-      // await supabase.from('vocabulary').insert(vocabularyItems);
-
-      return requests.map(req => ({ id: req.id, success: true }));
+  private async batchVocabularyInserts(requests: BatchRequest[], persistence: BatchPersistenceAdapter): Promise<BatchResult[]> {
+    const results: BatchResult[] = [];
 
-    } catch (error) {
-      return requests.map(req => ({
-        id: req.id,
-        success: false,
-        error: error instanceof Error ? error.message : 'Vocabulary insert failed'
-      }));
+    for (const [userId, userRequests] of this.groupByUser(requests)) {
+      try {
+        // Collect all vocabulary items, accepting plain words or item objects
+        const vocabularyItems: VocabularyItem[] = userRequests.flatMap(req =>
+          (req.data.vocabulary || []).map((item: string | VocabularyItem) =>
+            typeof item === 'string'
+              ? { word: item, session_id: req.sessionId }
+              : { ...item, session_id: item.session_id || req.sessionId }
+          )
+        ).filter((item: VocabularyItem) => item.word);
+
+        const inserted = vocabularyItems.length > 0
+          ? await persistence.insertVocabulary(userId, vocabularyItems)
+          : 0;
+
+        results.push(...userRequests.map(req => this.success(req, { vocabulary_inserted: inserted })));
+      } catch (error) {
+        results.push(...userRequests.map(req => this.failure(req, error, 'Vocabulary insert failed')));
+      }
     }
+
+    return results;
   }
 
   /**
    * Batch process achievement unlocks
    */
-  private async batchAchievementUnlocks(requests: BatchRequest[]): Promise<BatchResult[]> {
-    try {
-      // Group achievements by user
-      const userAchievements = new Map<string, Set<string>>();
-      
-      for (const request of requests) {
-        if (!userAchievements.has(request.userId)) {
-          userAchievements.set(request.userId, new Set());
-        }
-        const achievements = request.data.achievements || [];
-        achievements.forEach((achievement: string) => {
-          userAchievements.get(request.userId)!.add(achievement);
+  private async batchAchievementUnlocks(requests: BatchRequest[], persistence: BatchPersistenceAdapter): Promise<BatchResult[]> {
+    const results: BatchResult[] = [];
+
+    for (const [userId, userRequests] of this.groupByUser(requests)) {
+      try {
+        const achievements = new Set<string>();
+        userRequests.forEach(req => {
+          (req.data.achievements || []).forEach((achievement: string) => achievements.add(achievement));
         });
-      }
 
-      // Bulk update achievements per user
-      for (const [userId, achievements] of userAchievements) {
-        console.log(`Unlocking ${achievements.size} achievements for user ${userId}`);
-        // This would update the user's achievement list
+        const unlocked = achievements.size > 0
+          ? await persistence.unlockAchievements(userId, Array.from(achievements))
+          : [];
+
+        results.push(...userRequests.map(req => this.success(req, { achievements_unlocked: unlocked })));
+      } catch (error) {
+        results.push(...userRequests.map(req => this.failure(req, error, 'Achievement unlock failed')));
       }
+    }
 
-      return requests.map(req => ({ id: req.id, success: true }));
+    return results;
+  }
 
-    } catch (error) {
-      return requests.map(req => ({
-        id: req.id,
-        success: false,
-        error: error instanceof Error ? error.message : 'Achievement unlock failed'
-      }));
+  private groupByUser(requests: BatchRequest[]): Map<string, BatchRequest[]> {
+    const grouped = new Map<string, BatchRequest[]>();
+
+    for (const request of requests) {
+      if (!grouped.has(request.userId)) {
+        grouped.set(request.userId, []);
+      }
+      grouped.get(request.userId)!.push(request);
     }
+
+    return grouped;
+  }
+
+  private success(request: BatchRequest, appliedDelta: Record<string, any>): BatchResult {
+    return {
+      id: request.id,
+      success: true,
+      status: 'applied',
+      appliedDelta,
+      processedAt: new Date().toISOString()
+    };
+  }
+
+  private failure(request: BatchRequest, error: unknown, fallbackMessage: string = 'Request failed'): BatchResult {
+    return {
+      id: request.id,
+      success: false,
+      status: 'failed',
+      error: error instanceof Error ? error.message : fallbackMessage,
+      processedAt: new Date().toISOString()
+    };
   }
 
   /**
    * Aggregate multiple progress updates into a single update
    */
-  private aggregateProgressUpdates(requests: BatchRequest[]): any {
+  private aggregateProgressUpdates(requests: BatchRequest[]): AggregatedProgress {
     const aggregated = {
       words_learned: 0,
       phrases_practiced: 0,
@@ -329,7 +390,7 @@ export class RequestBatcher {
    */
   getStats() {
     const totalPending = Array.from(this.batchQueue.values())
-      .reduce((total, batch) => total + batch.length, 0);
+      .reduce((total, batch) => total + batch.requests.length, 0);
 
     return {
       pendingBatches: this.batchQueue.size,
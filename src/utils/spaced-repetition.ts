@@ -0,0 +1,73 @@
+/**
+ * SM-2 spaced repetition scheduling for flash card reviews
+ * Grades follow the original SuperMemo scale: 0 (blackout) to 5 (perfect recall)
+ */
+
+import { FlashCardSchedule } from '../types/index.js';
+
+export const MIN_EASE_FACTOR = 1.3;
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const PASSING_GRADE = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Initial schedule for a freshly created card (due immediately)
+ */
+export function createInitialSchedule(now: Date = new Date()): FlashCardSchedule {
+  return {
+    ease_factor: DEFAULT_EASE_FACTOR,
+    interval_days: 0,
+    repetitions: 0,
+    lapses: 0,
+    next_due_at: now.toISOString(),
+  };
+}
+
+/**
+ * Calculate the next schedule for a card after a review
+ */
+export function calculateNextSchedule(
+  current: Omit<FlashCardSchedule, 'next_due_at'>,
+  grade: number,
+  now: Date = new Date()
+): FlashCardSchedule {
+  if (!Number.isInteger(grade) || grade < 0 || grade > 5) {
+    throw new Error(`Invalid review grade: ${grade}. Grade must be an integer between 0 and 5`);
+  }
+
+  let repetitions = current.repetitions;
+  let intervalDays = current.interval_days;
+  let lapses = current.lapses;
+
+  if (grade >= PASSING_GRADE) {
+    // Successful recall - grow the interval
+    if (repetitions === 0) {
+      intervalDays = 1;
+    } else if (repetitions === 1) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(intervalDays * current.ease_factor);
+    }
+    repetitions += 1;
+  } else {
+    // Failed recall - restart the learning sequence
+    repetitions = 0;
+    intervalDays = 1;
+    lapses += 1;
+  }
+
+  // Ease factor is adjusted on every review, including failures
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    current.ease_factor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  return {
+    ease_factor: Math.round(easeFactor * 100) / 100,
+    interval_days: intervalDays,
+    repetitions,
+    lapses,
+    next_due_at: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Study streak calculation in the learner's local calendar days
+ * Missed days can be covered by streak freezes, which are earned by keeping a streak going
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+export const DEFAULT_MAX_STREAK_FREEZES = 2;
+export const DEFAULT_FREEZE_EARN_INTERVAL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StreakState {
+  current_streak: number;
+  longest_streak: number;
+  last_active_date: string | null; // YYYY-MM-DD in the learner's timezone
+  freezes_available: number;
+  max_freezes: number;
+  freeze_earn_interval_days: number;
+}
+
+export interface StreakTransition {
+  state: StreakState;
+  local_date: string;
+  frozen_dates: string[];
+  freezes_used: number;
+  freezes_earned: number;
+  streak_broken: boolean;
+}
+
+/**
+ * Check whether a string is an IANA timezone the runtime understands
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given timezone
+ */
+export function toLocalDate(instant: Date, timezone: string = DEFAULT_TIMEZONE): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value;
+  return `${get('year')}-${get('month')}-${get('day')}`;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS);
+  return shifted.toISOString().split('T')[0];
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Apply a day of activity to the streak.
+ * Missed days are bridged with freezes if enough are available; otherwise the streak restarts.
+ */
+export function applyActivity(current: StreakState, localDate: string): StreakTransition {
+  const transition: StreakTransition = {
+    state: { ...current },
+    local_date: localDate,
+    frozen_dates: [],
+    freezes_used: 0,
+    freezes_earned: 0,
+    streak_broken: false,
+  };
+
+  // Already active today, or the timezone moved the learner back a day
+  if (current.last_active_date && daysBetween(current.last_active_date, localDate) <= 0) {
+    return transition;
+  }
+
+  let streak: number;
+  if (!current.last_active_date || current.current_streak === 0) {
+    streak = 1;
+  } else {
+    const missedDays = daysBetween(current.last_active_date, localDate) - 1;
+
+    if (missedDays === 0) {
+      streak = current.current_streak + 1;
+    } else if (missedDays <= current.freezes_available) {
+      for (let i = 1; i <= missedDays; i++) {
+        transition.frozen_dates.push(addDays(current.last_active_date, i));
+      }
+      transition.freezes_used = missedDays;
+      transition.state.freezes_available -= missedDays;
+      streak = current.current_streak + 1;
+    } else {
+      transition.streak_broken = true;
+      streak = 1;
+    }
+  }
+
+  if (
+    current.freeze_earn_interval_days > 0
+    && streak % current.freeze_earn_interval_days === 0
+    && transition.state.freezes_available < current.max_freezes
+  ) {
+    transition.state.freezes_available += 1;
+    transition.freezes_earned = 1;
+  }
+
+  transition.state.current_streak = streak;
+  transition.state.longest_streak = Math.max(current.longest_streak, streak);
+  transition.state.last_active_date = localDate;
+
+  return transition;
+}
+
+/**
+ * Streak as it stands today: zero once the learner has missed more days than their freezes cover
+ */
+export function getEffectiveStreak(state: StreakState, today: string): number {
+  if (!state.last_active_date) {
+    return 0;
+  }
+
+  const missedDays = daysBetween(state.last_active_date, today) - 1;
+  return missedDays > state.freezes_available ? 0 : state.current_streak;
+}
@@ -0,0 +1,88 @@
+/**
+ * Topic categories (the topics.category CHECK constraint) and normalization
+ * of free-form topic labels, e.g. from model output, into one of them
+ */
+
+export const TOPIC_CATEGORIES = [
+  'general',
+  'daily_life',
+  'travel',
+  'shopping',
+  'food',
+  'health',
+  'professional',
+  'education',
+  'social',
+  'technology',
+  'culture',
+] as const;
+
+export type TopicCategory = typeof TOPIC_CATEGORIES[number];
+
+export const DEFAULT_TOPIC_CATEGORY: TopicCategory = 'general';
+
+// Common labels that are not categories themselves
+const TOPIC_ALIASES: Record<string, TopicCategory> = {
+  conversation: 'general',
+  small_talk: 'general',
+  greetings: 'daily_life',
+  greeting: 'daily_life',
+  introductions: 'daily_life',
+  family: 'daily_life',
+  home: 'daily_life',
+  weather: 'daily_life',
+  time: 'daily_life',
+  daily: 'daily_life',
+  transportation: 'travel',
+  transport: 'travel',
+  directions: 'travel',
+  hotel: 'travel',
+  tourism: 'travel',
+  money: 'shopping',
+  banking: 'shopping',
+  restaurant: 'food',
+  dining: 'food',
+  cooking: 'food',
+  medical: 'health',
+  fitness: 'health',
+  emergency: 'health',
+  business: 'professional',
+  work: 'professional',
+  office: 'professional',
+  school: 'education',
+  study: 'education',
+  learning: 'education',
+  entertainment: 'social',
+  hobbies: 'social',
+  friends: 'social',
+  sports: 'social',
+  internet: 'technology',
+  tech: 'technology',
+  traditions: 'culture',
+  customs: 'culture',
+  history: 'culture',
+};
+
+/**
+ * Map a topic label to a topic category, falling back to 'general'
+ */
+export function normalizeTopicCategory(topic: string | null | undefined): TopicCategory {
+  if (!topic) return DEFAULT_TOPIC_CATEGORY;
+
+  const key = topic.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+  if ((TOPIC_CATEGORIES as readonly string[]).includes(key)) {
+    return key as TopicCategory;
+  }
+  if (TOPIC_ALIASES[key]) {
+    return TOPIC_ALIASES[key];
+  }
+
+  // Multi-word labels such as "Restaurant Dining" or "business_meeting"
+  for (const word of key.split('_')) {
+    if ((TOPIC_CATEGORIES as readonly string[]).includes(word)) return word as TopicCategory;
+    if (TOPIC_ALIASES[word]) return TOPIC_ALIASES[word];
+  }
+
+  return DEFAULT_TOPIC_CATEGORY;
+}
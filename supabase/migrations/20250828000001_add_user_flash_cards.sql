@@ -0,0 +1,62 @@
+-- Create User Flash Cards Table with SM-2 spaced repetition scheduling
+CREATE TABLE user_flash_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR REFERENCES users(user_id) ON DELETE CASCADE,
+  card_id VARCHAR NOT NULL,
+  card_type VARCHAR NOT NULL,
+  card_data JSONB NOT NULL DEFAULT '{}',
+  created_by VARCHAR NOT NULL DEFAULT 'user' CHECK (created_by IN ('user', 'agent')),
+  agent_id VARCHAR,
+
+  -- SM-2 scheduling state
+  ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.50,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  review_count INTEGER NOT NULL DEFAULT 0,
+  last_grade INTEGER CHECK (last_grade BETWEEN 0 AND 5),
+  last_reviewed_at TIMESTAMP,
+  next_due_at TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(user_id, card_id)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE user_flash_cards ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS Policies for user_flash_cards table
+CREATE POLICY "Users can view own flash cards" ON user_flash_cards
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can insert own flash cards" ON user_flash_cards
+  FOR INSERT WITH CHECK (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can update own flash cards" ON user_flash_cards
+  FOR UPDATE USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can delete own flash cards" ON user_flash_cards
+  FOR DELETE USING (auth.uid()::text = user_id);
+
+-- Agents can manage flash cards for any user
+CREATE POLICY "Agents can read flash cards" ON user_flash_cards
+  FOR SELECT USING (is_authenticated_agent());
+
+CREATE POLICY "Agents can create flash cards" ON user_flash_cards
+  FOR INSERT WITH CHECK (is_authenticated_agent());
+
+CREATE POLICY "Agents can update flash cards" ON user_flash_cards
+  FOR UPDATE USING (is_authenticated_agent());
+
+CREATE POLICY "Agents can delete flash cards" ON user_flash_cards
+  FOR DELETE USING (is_authenticated_agent());
+
+-- Create indexes for efficient queries
+CREATE INDEX idx_user_flash_cards_user_id ON user_flash_cards(user_id);
+CREATE INDEX idx_user_flash_cards_user_due ON user_flash_cards(user_id, next_due_at);
+CREATE INDEX idx_user_flash_cards_card_type ON user_flash_cards(card_type);
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_user_flash_cards_updated_at BEFORE UPDATE ON user_flash_cards
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
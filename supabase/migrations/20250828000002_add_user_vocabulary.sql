@@ -0,0 +1,28 @@
+-- Create User Vocabulary Table for words learned during sessions
+CREATE TABLE user_vocabulary (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR REFERENCES users(user_id) ON DELETE CASCADE,
+  word VARCHAR NOT NULL,
+  reading VARCHAR,
+  meaning TEXT,
+  session_id VARCHAR,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(user_id, word)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE user_vocabulary ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS Policies for user_vocabulary table
+CREATE POLICY "Users can view own vocabulary" ON user_vocabulary
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Agents can read vocabulary" ON user_vocabulary
+  FOR SELECT USING (is_authenticated_agent());
+
+CREATE POLICY "Agents can insert vocabulary" ON user_vocabulary
+  FOR INSERT WITH CHECK (is_authenticated_agent());
+
+-- Create indexes for efficient queries
+CREATE INDEX idx_user_vocabulary_user_id ON user_vocabulary(user_id);
+CREATE INDEX idx_user_vocabulary_user_created ON user_vocabulary(user_id, created_at);
@@ -0,0 +1,141 @@
+-- Create Pending Agent Updates Table (durable outbox for batched agent writes)
+CREATE TABLE pending_agent_updates (
+  id UUID PRIMARY KEY, -- batchId returned to the agent
+  user_id VARCHAR REFERENCES users(user_id) ON DELETE CASCADE,
+  session_id VARCHAR,
+  agent_id VARCHAR,
+  update_type VARCHAR NOT NULL CHECK (update_type IN ('progress_update', 'vocabulary_insert', 'achievement_unlock')),
+  payload JSONB NOT NULL DEFAULT '{}',
+  status VARCHAR NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'applied', 'failed', 'dead_lettered')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  last_error TEXT,
+  applied_delta JSONB,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP,
+  applied_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE pending_agent_updates ENABLE ROW LEVEL SECURITY;
+
+-- Only agents (and the service role) touch the outbox
+CREATE POLICY "Agents can read pending updates" ON pending_agent_updates
+  FOR SELECT USING (is_authenticated_agent());
+
+CREATE POLICY "Agents can create pending updates" ON pending_agent_updates
+  FOR INSERT WITH CHECK (is_authenticated_agent());
+
+CREATE POLICY "Agents can update pending updates" ON pending_agent_updates
+  FOR UPDATE USING (is_authenticated_agent());
+
+-- Create indexes for efficient queries
+CREATE INDEX idx_pending_agent_updates_drain ON pending_agent_updates(status, next_attempt_at);
+CREATE INDEX idx_pending_agent_updates_user_id ON pending_agent_updates(user_id);
+CREATE INDEX idx_pending_agent_updates_created_at ON pending_agent_updates(created_at);
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_pending_agent_updates_updated_at BEFORE UPDATE ON pending_agent_updates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Apply a drained progress update to user_contexts.progress and mark its outbox rows applied
+-- in one transaction, so a crash between the two can never re-apply the same delta.
+-- p_claims lists the outbox rows as {"id", "attempts", "delta"} as they were claimed by the drain;
+-- each row records its own delta. If any row has since been released or re-claimed, nothing is written.
+CREATE OR REPLACE FUNCTION apply_agent_progress_update(
+    p_user_id VARCHAR,
+    p_claims JSONB,
+    p_words_learned INTEGER DEFAULT 0,
+    p_phrases_practiced INTEGER DEFAULT 0,
+    p_session_time INTEGER DEFAULT 0,
+    p_grammar_points TEXT[] DEFAULT '{}',
+    p_pronunciation_score NUMERIC DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    claim_ids UUID[];
+    claimed_count INTEGER;
+    current_progress JSONB;
+    new_progress JSONB;
+    current_avg NUMERIC;
+BEGIN
+    SELECT array_agg((claim->>'id')::UUID) INTO claim_ids
+    FROM jsonb_array_elements(p_claims) AS claim;
+
+    -- Lock the outbox rows before checking the claims, so a concurrent release waits for us
+    PERFORM 1 FROM pending_agent_updates WHERE id = ANY(claim_ids) FOR UPDATE;
+
+    SELECT COUNT(*) INTO claimed_count
+    FROM pending_agent_updates u
+    JOIN jsonb_to_recordset(p_claims) AS c(id UUID, attempts INTEGER)
+      ON u.id = c.id AND u.attempts = c.attempts
+    WHERE u.status = 'processing'
+    AND u.user_id = p_user_id;
+
+    IF claimed_count IS DISTINCT FROM jsonb_array_length(p_claims) THEN
+        RAISE EXCEPTION 'Pending updates are no longer claimed by this drain';
+    END IF;
+
+    SELECT COALESCE(progress, '{}'::jsonb) INTO current_progress
+    FROM user_contexts
+    WHERE user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User context not found: %', p_user_id;
+    END IF;
+
+    new_progress := current_progress || jsonb_build_object(
+        'words_learned', COALESCE((current_progress->>'words_learned')::INTEGER, 0) + COALESCE(p_words_learned, 0),
+        'phrases_practiced', COALESCE((current_progress->>'phrases_practiced')::INTEGER, 0) + COALESCE(p_phrases_practiced, 0),
+        'total_conversation_time', COALESCE((current_progress->>'total_conversation_time')::INTEGER, 0) + COALESCE(p_session_time, 0),
+        'grammar_points_covered', (
+            SELECT COALESCE(jsonb_agg(DISTINCT point), '[]'::jsonb)
+            FROM (
+                SELECT jsonb_array_elements_text(
+                    CASE WHEN jsonb_typeof(current_progress->'grammar_points_covered') = 'array'
+                        THEN current_progress->'grammar_points_covered'
+                        ELSE '[]'::jsonb
+                    END
+                ) AS point
+                UNION
+                SELECT unnest(COALESCE(p_grammar_points, '{}'))
+            ) AS points
+        )
+    );
+
+    IF p_pronunciation_score IS NOT NULL THEN
+        -- Blend with the stored average; the first scored batch sets it outright
+        current_avg := COALESCE((current_progress->>'pronunciation_score_avg')::NUMERIC, 0);
+        new_progress := new_progress || jsonb_build_object(
+            'pronunciation_score_avg',
+            CASE WHEN current_avg > 0
+                THEN ROUND((current_avg + p_pronunciation_score) / 2, 2)
+                ELSE p_pronunciation_score
+            END
+        );
+    END IF;
+
+    UPDATE user_contexts
+    SET progress = new_progress,
+        updated_at = NOW()
+    WHERE user_id = p_user_id;
+
+    UPDATE pending_agent_updates u
+    SET status = 'applied',
+        applied_delta = c.delta,
+        applied_at = NOW(),
+        last_error = NULL,
+        locked_at = NULL
+    FROM jsonb_to_recordset(p_claims) AS c(id UUID, attempts INTEGER, delta JSONB)
+    WHERE u.id = c.id;
+
+    RETURN new_progress;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Writes any user's progress, so only the API (service role) may call it
+REVOKE EXECUTE ON FUNCTION apply_agent_progress_update FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION apply_agent_progress_update TO service_role;
@@ -0,0 +1,9 @@
+-- Keep only the earliest unlock of each achievement per user
+DELETE FROM achievements a
+USING achievements b
+WHERE a.user_id = b.user_id
+  AND a.achievement_id = b.achievement_id
+  AND (a.unlocked_at, a.id) > (b.unlocked_at, b.id);
+
+-- An achievement can only be unlocked once per user
+CREATE UNIQUE INDEX idx_achievements_user_achievement ON achievements(user_id, achievement_id);
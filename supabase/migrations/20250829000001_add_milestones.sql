@@ -0,0 +1,98 @@
+-- Create Milestones Catalog (editable without a deploy)
+CREATE TABLE milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  milestone_key VARCHAR UNIQUE NOT NULL,
+  title VARCHAR NOT NULL,
+  description TEXT,
+  metric VARCHAR NOT NULL CHECK (metric IN (
+    'total_sessions',          -- learning_sessions rows
+    'study_minutes',           -- sum of learning_sessions.duration_minutes
+    'words_learned',           -- user_contexts.progress.words_learned
+    'phrases_practiced',       -- user_contexts.progress.phrases_practiced
+    'current_streak',          -- user_contexts.progress.current_streak
+    'grammar_points',          -- distinct grammar points covered
+    'phrases_evaluated',       -- pronunciation_evaluations rows
+    'high_score_phrases'       -- pronunciation_evaluations with score >= 90
+  )),
+  target NUMERIC NOT NULL CHECK (target > 0),
+  learning_goal VARCHAR, -- only shown to users with this learning goal (NULL = everyone)
+  jlpt_level VARCHAR CHECK (jlpt_level IN ('N5', 'N4', 'N3', 'N2', 'N1')),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create User Milestones Table (when each milestone was completed)
+CREATE TABLE user_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR REFERENCES users(user_id) ON DELETE CASCADE,
+  milestone_id UUID REFERENCES milestones(id) ON DELETE CASCADE,
+  value_at_completion NUMERIC,
+  completed_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(user_id, milestone_id)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE milestones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_milestones ENABLE ROW LEVEL SECURITY;
+
+-- Milestone catalog is readable by everyone
+CREATE POLICY "Anyone can view milestones" ON milestones
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can view own milestones" ON user_milestones
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Agents can read user milestones" ON user_milestones
+  FOR SELECT USING (is_authenticated_agent());
+
+-- Create indexes for efficient queries
+CREATE INDEX idx_milestones_active ON milestones(is_active, sort_order);
+CREATE INDEX idx_user_milestones_user_id ON user_milestones(user_id);
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_milestones_updated_at BEFORE UPDATE ON milestones
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO milestones (milestone_key, title, description, metric, target, learning_goal, jlpt_level, sort_order) VALUES
+  -- Sessions
+  ('sessions_10', 'Session Master I', 'Complete 10 learning sessions', 'total_sessions', 10, NULL, NULL, 10),
+  ('sessions_50', 'Session Master II', 'Complete 50 learning sessions', 'total_sessions', 50, NULL, NULL, 11),
+  ('sessions_100', 'Session Master III', 'Complete 100 learning sessions', 'total_sessions', 100, NULL, NULL, 12),
+
+  -- Study time
+  ('study_minutes_300', 'Five Hours In', 'Study for 5 hours in total', 'study_minutes', 300, NULL, NULL, 20),
+  ('study_minutes_1500', 'Twenty-Five Hours In', 'Study for 25 hours in total', 'study_minutes', 1500, NULL, NULL, 21),
+
+  -- Vocabulary
+  ('words_50', 'Vocabulary Builder I', 'Learn 50 words', 'words_learned', 50, NULL, NULL, 30),
+  ('words_250', 'Vocabulary Builder II', 'Learn 250 words', 'words_learned', 250, NULL, NULL, 31),
+  ('words_1000', 'Vocabulary Builder III', 'Learn 1,000 words', 'words_learned', 1000, NULL, NULL, 32),
+
+  -- Streaks
+  ('streak_7', 'Study Streak', 'Study 7 days in a row', 'current_streak', 7, NULL, NULL, 40),
+  ('streak_30', 'Monthly Habit', 'Study 30 days in a row', 'current_streak', 30, NULL, NULL, 41),
+
+  -- Pronunciation
+  ('phrases_evaluated_25', 'Finding Your Voice', 'Have 25 phrases evaluated', 'phrases_evaluated', 25, NULL, NULL, 50),
+  ('high_scores_25', 'Native-Like', 'Score 90 or higher on 25 phrases', 'high_score_phrases', 25, NULL, NULL, 51),
+
+  -- JLPT preparation (approximate vocabulary and grammar requirements per level)
+  ('jlpt_n5_vocabulary', 'JLPT N5 Vocabulary', 'Learn the ~800 words expected at N5', 'words_learned', 800, 'jlpt_prep', 'N5', 60),
+  ('jlpt_n5_grammar', 'JLPT N5 Grammar', 'Cover the ~80 grammar points expected at N5', 'grammar_points', 80, 'jlpt_prep', 'N5', 61),
+  ('jlpt_n4_vocabulary', 'JLPT N4 Vocabulary', 'Learn the ~1,500 words expected at N4', 'words_learned', 1500, 'jlpt_prep', 'N4', 62),
+  ('jlpt_n4_grammar', 'JLPT N4 Grammar', 'Cover the ~170 grammar points expected at N4', 'grammar_points', 170, 'jlpt_prep', 'N4', 63),
+  ('jlpt_n3_vocabulary', 'JLPT N3 Vocabulary', 'Learn the ~3,700 words expected at N3', 'words_learned', 3700, 'jlpt_prep', 'N3', 64);
+
+-- Total study time for the study_minutes milestones, summed in the database so it is not
+-- capped by the API's row limit
+CREATE OR REPLACE FUNCTION get_study_minutes(p_user_id VARCHAR)
+RETURNS INTEGER AS $$
+    SELECT COALESCE(SUM(duration_minutes), 0)::INTEGER
+    FROM learning_sessions
+    WHERE user_id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_study_minutes FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_study_minutes TO service_role;
@@ -0,0 +1,70 @@
+-- Create User Streaks Table (streak state in the learner's local calendar days)
+CREATE TABLE user_streaks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR UNIQUE REFERENCES users(user_id) ON DELETE CASCADE,
+  timezone VARCHAR NOT NULL DEFAULT 'UTC', -- IANA timezone the streak days are counted in
+  current_streak INTEGER NOT NULL DEFAULT 0,
+  longest_streak INTEGER NOT NULL DEFAULT 0,
+  last_active_date DATE, -- local date of the most recent study day
+
+  -- Streak freezes cover missed days; one is earned every freeze_earn_interval_days of streak
+  freezes_available INTEGER NOT NULL DEFAULT 0 CHECK (freezes_available >= 0),
+  max_freezes INTEGER NOT NULL DEFAULT 2 CHECK (max_freezes >= 0),
+  freeze_earn_interval_days INTEGER NOT NULL DEFAULT 7 CHECK (freeze_earn_interval_days >= 0),
+  freezes_used_total INTEGER NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create Streak History Table (one row per local day, used for the calendar heatmap)
+CREATE TABLE streak_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR REFERENCES users(user_id) ON DELETE CASCADE,
+  activity_date DATE NOT NULL,
+  status VARCHAR NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'frozen')),
+  session_count INTEGER NOT NULL DEFAULT 0,
+  study_minutes INTEGER NOT NULL DEFAULT 0,
+  streak_length INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(user_id, activity_date)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE user_streaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE streak_history ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS Policies
+CREATE POLICY "Users can view own streak" ON user_streaks
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can view own streak history" ON streak_history
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Agents can read user streaks" ON user_streaks
+  FOR SELECT USING (is_authenticated_agent());
+
+CREATE POLICY "Agents can read streak history" ON streak_history
+  FOR SELECT USING (is_authenticated_agent());
+
+-- Create indexes for efficient queries
+CREATE INDEX idx_streak_history_user_date ON streak_history(user_id, activity_date DESC);
+
+-- Apply updated_at triggers
+CREATE TRIGGER update_user_streaks_updated_at BEFORE UPDATE ON user_streaks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_streak_history_updated_at BEFORE UPDATE ON streak_history
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed streak state from existing progress; history starts from the last session date
+INSERT INTO user_streaks (user_id, current_streak, longest_streak, last_active_date)
+SELECT
+  user_id,
+  COALESCE((progress->>'current_streak')::INTEGER, 0),
+  COALESCE((progress->>'current_streak')::INTEGER, 0),
+  NULLIF(progress->>'last_session_date', '')::DATE
+FROM user_contexts
+WHERE user_id IS NOT NULL
+ON CONFLICT (user_id) DO NOTHING;
@@ -0,0 +1,204 @@
+-- Apply a learning session's delta to user_contexts.progress and session_history atomically.
+-- The row is locked for the duration of the update so concurrent sessions cannot overwrite
+-- each other's totals. Re-applying the same session_id is a no-op.
+-- The session's streak day is recorded in the same transaction, so a retried session_id
+-- neither re-counts its study minutes in streak_history nor advances the streak twice.
+-- The streak transition is computed by the API from the user_streaks row it read; if that
+-- row has moved on since (p_expected_last_active_date no longer matches), the call fails
+-- with serialization_failure and the API recomputes the transition and retries.
+CREATE OR REPLACE FUNCTION apply_session_progress(
+    p_user_id VARCHAR,
+    p_session_id VARCHAR,
+    p_duration_minutes INTEGER DEFAULT 0,
+    p_new_words INTEGER DEFAULT 0,
+    p_phrases_practiced INTEGER DEFAULT 0,
+    p_grammar_points TEXT[] DEFAULT '{}',
+    p_achievements TEXT[] DEFAULT '{}',
+    p_topics_covered TEXT[] DEFAULT '{}',
+    p_current_streak INTEGER DEFAULT NULL,
+    p_history_limit INTEGER DEFAULT 50,
+    -- Streak transition; no streak is written when p_streak_local_date is NULL
+    p_streak_local_date DATE DEFAULT NULL,
+    p_expected_last_active_date DATE DEFAULT NULL,
+    p_longest_streak INTEGER DEFAULT NULL,
+    p_freezes_available INTEGER DEFAULT NULL,
+    p_freezes_used INTEGER DEFAULT 0,
+    p_frozen_dates DATE[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+    current_progress JSONB;
+    current_history JSONB;
+    new_progress JSONB;
+    new_history JSONB;
+    streak_row user_streaks%ROWTYPE;
+    session_time TIMESTAMPTZ := NOW();
+BEGIN
+    SELECT COALESCE(progress, '{}'::jsonb), COALESCE(session_history, '[]'::jsonb)
+    INTO current_progress, current_history
+    FROM user_contexts
+    WHERE user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User context not found: %', p_user_id;
+    END IF;
+
+    -- Session already rolled up (e.g. a retried request)
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(current_history) AS item
+        WHERE item->>'session_id' = p_session_id
+    ) THEN
+        RETURN current_progress;
+    END IF;
+
+    IF p_streak_local_date IS NOT NULL THEN
+        SELECT * INTO streak_row
+        FROM user_streaks
+        WHERE user_id = p_user_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'User streak not found: %', p_user_id;
+        END IF;
+
+        IF streak_row.last_active_date IS DISTINCT FROM p_expected_last_active_date THEN
+            RAISE EXCEPTION 'Streak for % changed while the session was being applied', p_user_id
+                USING ERRCODE = 'serialization_failure';
+        END IF;
+
+        IF p_streak_local_date > streak_row.last_active_date OR streak_row.last_active_date IS NULL THEN
+            UPDATE user_streaks
+            SET current_streak = COALESCE(p_current_streak, current_streak),
+                longest_streak = COALESCE(p_longest_streak, longest_streak),
+                last_active_date = p_streak_local_date,
+                freezes_available = COALESCE(p_freezes_available, freezes_available),
+                freezes_used_total = freezes_used_total + COALESCE(p_freezes_used, 0)
+            WHERE user_id = p_user_id;
+        END IF;
+
+        -- Days bridged by freezes keep the streak length from before the gap
+        INSERT INTO streak_history (user_id, activity_date, status, streak_length)
+        SELECT p_user_id, frozen_date, 'frozen', streak_row.current_streak
+        FROM unnest(COALESCE(p_frozen_dates, '{}')) AS frozen_date
+        ON CONFLICT (user_id, activity_date) DO NOTHING;
+
+        INSERT INTO streak_history (user_id, activity_date, status, session_count, study_minutes, streak_length)
+        VALUES (
+            p_user_id,
+            p_streak_local_date,
+            'active',
+            1,
+            COALESCE(p_duration_minutes, 0),
+            COALESCE(p_current_streak, streak_row.current_streak)
+        )
+        ON CONFLICT (user_id, activity_date) DO UPDATE
+        SET status = 'active',
+            session_count = streak_history.session_count + 1,
+            study_minutes = streak_history.study_minutes + EXCLUDED.study_minutes,
+            streak_length = EXCLUDED.streak_length;
+    END IF;
+
+    new_progress := current_progress || jsonb_build_object(
+        'total_sessions', COALESCE((current_progress->>'total_sessions')::INTEGER, 0) + 1,
+        'total_conversation_time', COALESCE((current_progress->>'total_conversation_time')::INTEGER, 0) + COALESCE(p_duration_minutes, 0),
+        'words_learned', COALESCE((current_progress->>'words_learned')::INTEGER, 0) + COALESCE(p_new_words, 0),
+        'phrases_practiced', COALESCE((current_progress->>'phrases_practiced')::INTEGER, 0) + COALESCE(p_phrases_practiced, 0),
+        'grammar_points_covered', (
+            SELECT COALESCE(jsonb_agg(DISTINCT point), '[]'::jsonb)
+            FROM (
+                SELECT jsonb_array_elements_text(
+                    CASE WHEN jsonb_typeof(current_progress->'grammar_points_covered') = 'array'
+                        THEN current_progress->'grammar_points_covered'
+                        ELSE '[]'::jsonb
+                    END
+                ) AS point
+                UNION
+                SELECT unnest(COALESCE(p_grammar_points, '{}'))
+            ) AS points
+        ),
+        'achievements_unlocked', (
+            SELECT COALESCE(jsonb_agg(DISTINCT achievement), '[]'::jsonb)
+            FROM (
+                SELECT jsonb_array_elements_text(
+                    CASE WHEN jsonb_typeof(current_progress->'achievements_unlocked') = 'array'
+                        THEN current_progress->'achievements_unlocked'
+                        ELSE '[]'::jsonb
+                    END
+                ) AS achievement
+                UNION
+                SELECT unnest(COALESCE(p_achievements, '{}'))
+            ) AS achievements
+        ),
+        'last_session_date', to_jsonb(session_time),
+        'current_streak', COALESCE(p_current_streak, (current_progress->>'current_streak')::INTEGER, 0)
+    );
+
+    -- Prepend the session and keep the most recent entries
+    SELECT COALESCE(jsonb_agg(item ORDER BY position), '[]'::jsonb)
+    INTO new_history
+    FROM (
+        SELECT jsonb_build_object(
+            'session_id', p_session_id,
+            'date', to_jsonb(session_time),
+            'duration_minutes', COALESCE(p_duration_minutes, 0),
+            'topics_covered', to_jsonb(COALESCE(p_topics_covered, '{}'))
+        ) AS item, 0::BIGINT AS position
+        UNION ALL
+        SELECT value, ordinality
+        FROM jsonb_array_elements(current_history) WITH ORDINALITY
+        WHERE ordinality < p_history_limit
+    ) AS history;
+
+    UPDATE user_contexts
+    SET progress = new_progress,
+        session_history = new_history,
+        updated_at = NOW()
+    WHERE user_id = p_user_id;
+
+    RETURN new_progress;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Writes any user's progress, so only the API (service role) may call it
+REVOKE EXECUTE ON FUNCTION apply_session_progress FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION apply_session_progress TO service_role;
+
+-- Merge newly unlocked achievements into user_contexts.progress in place.
+-- The merge reads and writes the row in a single UPDATE, so it cannot overwrite
+-- counters written concurrently by apply_session_progress or the agent drain.
+CREATE OR REPLACE FUNCTION add_unlocked_achievements(
+    p_user_id VARCHAR,
+    p_achievement_ids TEXT[]
+)
+RETURNS JSONB AS $$
+DECLARE
+    new_progress JSONB;
+BEGIN
+    UPDATE user_contexts
+    SET progress = COALESCE(progress, '{}'::jsonb) || jsonb_build_object(
+            'achievements_unlocked', (
+                SELECT COALESCE(jsonb_agg(DISTINCT achievement), '[]'::jsonb)
+                FROM (
+                    SELECT jsonb_array_elements_text(
+                        CASE WHEN jsonb_typeof(progress->'achievements_unlocked') = 'array'
+                            THEN progress->'achievements_unlocked'
+                            ELSE '[]'::jsonb
+                        END
+                    ) AS achievement
+                    UNION
+                    SELECT unnest(COALESCE(p_achievement_ids, '{}'))
+                ) AS achievements
+            )
+        ),
+        updated_at = NOW()
+    WHERE user_id = p_user_id
+    RETURNING progress INTO new_progress;
+
+    RETURN new_progress;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Writes any user's progress, so only the API (service role) may call it
+REVOKE EXECUTE ON FUNCTION add_unlocked_achievements FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION add_unlocked_achievements TO service_role;
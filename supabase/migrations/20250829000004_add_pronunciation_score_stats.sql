@@ -0,0 +1,175 @@
+-- Pronunciation score statistics derived from pronunciation_evaluations
+-- Overall average, rolling 30-day average and per-topic averages for one user
+CREATE OR REPLACE FUNCTION get_pronunciation_score_stats(p_user_id VARCHAR)
+RETURNS JSONB AS $$
+DECLARE
+    overall_avg NUMERIC;
+    overall_count INTEGER;
+    recent_avg NUMERIC;
+    recent_count INTEGER;
+    topic_averages JSONB;
+BEGIN
+    SELECT ROUND(AVG(evaluation_score)::NUMERIC, 2), COUNT(evaluation_score)::INTEGER
+    INTO overall_avg, overall_count
+    FROM pronunciation_evaluations
+    WHERE user_id = p_user_id
+    AND evaluation_score IS NOT NULL;
+
+    SELECT ROUND(AVG(evaluation_score)::NUMERIC, 2), COUNT(evaluation_score)::INTEGER
+    INTO recent_avg, recent_count
+    FROM pronunciation_evaluations
+    WHERE user_id = p_user_id
+    AND evaluation_score IS NOT NULL
+    AND COALESCE(updated_at, created_at) >= NOW() - INTERVAL '30 days';
+
+    SELECT COALESCE(jsonb_agg(topic_stats ORDER BY topic_stats->>'topic'), '[]'::jsonb)
+    INTO topic_averages
+    FROM (
+        SELECT jsonb_build_object(
+            'topic_id', pe.topic_id,
+            'topic', COALESCE(t.name, pe.topic),
+            'average_score', ROUND(AVG(pe.evaluation_score)::NUMERIC, 2),
+            'evaluation_count', COUNT(pe.evaluation_score)
+        ) AS topic_stats
+        FROM pronunciation_evaluations pe
+        LEFT JOIN topics t ON t.id = pe.topic_id
+        WHERE pe.user_id = p_user_id
+        AND pe.evaluation_score IS NOT NULL
+        GROUP BY pe.topic_id, COALESCE(t.name, pe.topic)
+    ) AS per_topic;
+
+    RETURN jsonb_build_object(
+        'pronunciation_score_avg', COALESCE(overall_avg, 0),
+        'pronunciation_score_avg_30d', COALESCE(recent_avg, 0),
+        'pronunciation_scored_count', COALESCE(overall_count, 0),
+        'pronunciation_scored_count_30d', COALESCE(recent_count, 0),
+        'pronunciation_topic_averages', topic_averages,
+        'pronunciation_stats_updated_at', to_jsonb(NOW())
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Write the latest statistics into user_contexts.progress
+CREATE OR REPLACE FUNCTION refresh_pronunciation_score_stats(p_user_id VARCHAR)
+RETURNS JSONB AS $$
+DECLARE
+    stats JSONB;
+BEGIN
+    stats := get_pronunciation_score_stats(p_user_id);
+
+    UPDATE user_contexts
+    SET progress = COALESCE(progress, '{}'::jsonb) || stats
+    WHERE user_id = p_user_id;
+
+    RETURN stats;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Keep the statistics current whenever an evaluation is stored, re-scored or removed
+CREATE OR REPLACE FUNCTION refresh_pronunciation_score_stats_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_pronunciation_score_stats(COALESCE(NEW.user_id, OLD.user_id));
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_pronunciation_score_stats_on_change
+    AFTER INSERT OR DELETE OR UPDATE OF evaluation_score, topic_id, topic ON pronunciation_evaluations
+    FOR EACH ROW EXECUTE FUNCTION refresh_pronunciation_score_stats_trigger();
+
+GRANT EXECUTE ON FUNCTION get_pronunciation_score_stats TO authenticated;
+GRANT EXECUTE ON FUNCTION get_pronunciation_score_stats TO service_role;
+REVOKE EXECUTE ON FUNCTION refresh_pronunciation_score_stats FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION refresh_pronunciation_score_stats TO service_role;
+
+-- Backfill existing users (the stored average has never been recalculated)
+SELECT refresh_pronunciation_score_stats(user_id)
+FROM user_contexts
+WHERE user_id IS NOT NULL;
+
+-- The agent drain no longer blends a reported score into pronunciation_score_avg;
+-- the average is recalculated from the evaluations instead
+DROP FUNCTION IF EXISTS apply_agent_progress_update(VARCHAR, JSONB, INTEGER, INTEGER, INTEGER, TEXT[], NUMERIC);
+
+CREATE OR REPLACE FUNCTION apply_agent_progress_update(
+    p_user_id VARCHAR,
+    p_claims JSONB,
+    p_words_learned INTEGER DEFAULT 0,
+    p_phrases_practiced INTEGER DEFAULT 0,
+    p_session_time INTEGER DEFAULT 0,
+    p_grammar_points TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+    claim_ids UUID[];
+    claimed_count INTEGER;
+    current_progress JSONB;
+    new_progress JSONB;
+BEGIN
+    SELECT array_agg((claim->>'id')::UUID) INTO claim_ids
+    FROM jsonb_array_elements(p_claims) AS claim;
+
+    -- Lock the outbox rows before checking the claims, so a concurrent release waits for us
+    PERFORM 1 FROM pending_agent_updates WHERE id = ANY(claim_ids) FOR UPDATE;
+
+    SELECT COUNT(*) INTO claimed_count
+    FROM pending_agent_updates u
+    JOIN jsonb_to_recordset(p_claims) AS c(id UUID, attempts INTEGER)
+      ON u.id = c.id AND u.attempts = c.attempts
+    WHERE u.status = 'processing'
+    AND u.user_id = p_user_id;
+
+    IF claimed_count IS DISTINCT FROM jsonb_array_length(p_claims) THEN
+        RAISE EXCEPTION 'Pending updates are no longer claimed by this drain';
+    END IF;
+
+    SELECT COALESCE(progress, '{}'::jsonb) INTO current_progress
+    FROM user_contexts
+    WHERE user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User context not found: %', p_user_id;
+    END IF;
+
+    new_progress := current_progress || jsonb_build_object(
+        'words_learned', COALESCE((current_progress->>'words_learned')::INTEGER, 0) + COALESCE(p_words_learned, 0),
+        'phrases_practiced', COALESCE((current_progress->>'phrases_practiced')::INTEGER, 0) + COALESCE(p_phrases_practiced, 0),
+        'total_conversation_time', COALESCE((current_progress->>'total_conversation_time')::INTEGER, 0) + COALESCE(p_session_time, 0),
+        'grammar_points_covered', (
+            SELECT COALESCE(jsonb_agg(DISTINCT point), '[]'::jsonb)
+            FROM (
+                SELECT jsonb_array_elements_text(
+                    CASE WHEN jsonb_typeof(current_progress->'grammar_points_covered') = 'array'
+                        THEN current_progress->'grammar_points_covered'
+                        ELSE '[]'::jsonb
+                    END
+                ) AS point
+                UNION
+                SELECT unnest(COALESCE(p_grammar_points, '{}'))
+            ) AS points
+        )
+    );
+
+    UPDATE user_contexts
+    SET progress = new_progress,
+        updated_at = NOW()
+    WHERE user_id = p_user_id;
+
+    UPDATE pending_agent_updates u
+    SET status = 'applied',
+        applied_delta = c.delta,
+        applied_at = NOW(),
+        last_error = NULL,
+        locked_at = NULL
+    FROM jsonb_to_recordset(p_claims) AS c(id UUID, attempts INTEGER, delta JSONB)
+    WHERE u.id = c.id;
+
+    RETURN new_progress;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Writes any user's progress, so only the API (service role) may call it
+REVOKE EXECUTE ON FUNCTION apply_agent_progress_update FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION apply_agent_progress_update TO service_role;
@@ -0,0 +1,222 @@
+-- Create Pronunciation Attempts Table (every attempt at a phrase, oldest first)
+CREATE TABLE pronunciation_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  evaluation_id UUID NOT NULL REFERENCES pronunciation_evaluations(id) ON DELETE CASCADE,
+  user_id VARCHAR REFERENCES users(user_id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL,
+  user_pronunciation TEXT NOT NULL,
+  evaluation_score INTEGER CHECK (evaluation_score BETWEEN 0 AND 100),
+  evaluation_feedback TEXT,
+  evaluation_details JSONB,
+  session_id VARCHAR,
+  agent_id VARCHAR,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(evaluation_id, attempt_number)
+);
+
+-- Score summary kept on the phrase row
+ALTER TABLE pronunciation_evaluations
+  ADD COLUMN best_score INTEGER,
+  ADD COLUMN latest_score INTEGER,
+  ADD COLUMN average_score NUMERIC(5, 2);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE pronunciation_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS Policies for pronunciation_attempts table
+CREATE POLICY "Users can view own pronunciation attempts" ON pronunciation_attempts
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Agents can read pronunciation attempts" ON pronunciation_attempts
+  FOR SELECT USING (is_authenticated_agent());
+
+CREATE POLICY "Agents can record pronunciation attempts" ON pronunciation_attempts
+  FOR INSERT WITH CHECK (is_authenticated_agent());
+
+-- Create indexes for efficient queries
+CREATE INDEX idx_pronunciation_attempts_evaluation ON pronunciation_attempts(evaluation_id, attempt_number);
+CREATE INDEX idx_pronunciation_attempts_user_created ON pronunciation_attempts(user_id, created_at DESC);
+
+-- Backfill: the only surviving attempt for each phrase is the one stored on the row
+INSERT INTO pronunciation_attempts (
+  evaluation_id, user_id, attempt_number, user_pronunciation,
+  evaluation_score, evaluation_feedback, evaluation_details, created_at
+)
+SELECT
+  id, user_id, practice_count, user_pronunciation,
+  evaluation_score, evaluation_feedback, evaluation_details, COALESCE(updated_at, created_at)
+FROM pronunciation_evaluations;
+
+UPDATE pronunciation_evaluations
+SET best_score = evaluation_score,
+    latest_score = evaluation_score,
+    average_score = evaluation_score;
+
+-- Record one attempt at a phrase. The phrase row (user + kanji + romaji + translation)
+-- is created on the first attempt; afterwards its latest fields and score summary are
+-- refreshed from the attempt history. Concurrent attempts for the same phrase are serialized.
+CREATE OR REPLACE FUNCTION record_pronunciation_attempt(
+    p_user_id VARCHAR,
+    p_kanji TEXT,
+    p_romaji TEXT,
+    p_translation TEXT,
+    p_topic VARCHAR,
+    p_user_pronunciation TEXT,
+    p_evaluation_score INTEGER DEFAULT NULL,
+    p_evaluation_feedback TEXT DEFAULT NULL,
+    p_evaluation_details JSONB DEFAULT NULL,
+    p_session_id VARCHAR DEFAULT NULL,
+    p_agent_id VARCHAR DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    phrase pronunciation_evaluations%ROWTYPE;
+    new_attempt pronunciation_attempts%ROWTYPE;
+    next_attempt_number INTEGER;
+    phrase_existed BOOLEAN;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(p_user_id || '|' || p_kanji || '|' || p_romaji || '|' || p_translation));
+
+    SELECT * INTO phrase
+    FROM pronunciation_evaluations
+    WHERE user_id = p_user_id
+    AND kanji = p_kanji
+    AND romaji = p_romaji
+    AND translation = p_translation
+    ORDER BY created_at ASC
+    LIMIT 1
+    FOR UPDATE;
+
+    phrase_existed := FOUND;
+
+    IF NOT phrase_existed THEN
+        INSERT INTO pronunciation_evaluations (
+            user_id, kanji, romaji, translation, topic, user_pronunciation,
+            evaluation_score, evaluation_feedback, evaluation_details, practice_count
+        ) VALUES (
+            p_user_id, p_kanji, p_romaji, p_translation, p_topic, p_user_pronunciation,
+            p_evaluation_score, p_evaluation_feedback, p_evaluation_details, 0
+        )
+        RETURNING * INTO phrase;
+    END IF;
+
+    SELECT COALESCE(MAX(attempt_number), 0) + 1 INTO next_attempt_number
+    FROM pronunciation_attempts
+    WHERE evaluation_id = phrase.id;
+
+    INSERT INTO pronunciation_attempts (
+        evaluation_id, user_id, attempt_number, user_pronunciation,
+        evaluation_score, evaluation_feedback, evaluation_details, session_id, agent_id
+    ) VALUES (
+        phrase.id, p_user_id, next_attempt_number, p_user_pronunciation,
+        p_evaluation_score, p_evaluation_feedback, p_evaluation_details, p_session_id, p_agent_id
+    )
+    RETURNING * INTO new_attempt;
+
+    UPDATE pronunciation_evaluations pe
+    SET user_pronunciation = p_user_pronunciation,
+        evaluation_score = p_evaluation_score,
+        evaluation_feedback = p_evaluation_feedback,
+        evaluation_details = p_evaluation_details,
+        topic = p_topic,
+        practice_count = GREATEST(pe.practice_count, next_attempt_number),
+        latest_score = p_evaluation_score,
+        best_score = scores.best_score,
+        average_score = scores.average_score,
+        updated_at = NOW()
+    FROM (
+        SELECT MAX(evaluation_score) AS best_score, ROUND(AVG(evaluation_score)::NUMERIC, 2) AS average_score
+        FROM pronunciation_attempts
+        WHERE evaluation_id = phrase.id
+    ) AS scores
+    WHERE pe.id = phrase.id
+    RETURNING pe.* INTO phrase;
+
+    RETURN jsonb_build_object(
+        'evaluation_id', phrase.id,
+        'attempt_id', new_attempt.id,
+        'attempt_number', new_attempt.attempt_number,
+        'practice_count', phrase.practice_count,
+        'is_update', phrase_existed,
+        'best_score', phrase.best_score,
+        'latest_score', phrase.latest_score,
+        'average_score', phrase.average_score,
+        'created_at', phrase.created_at,
+        'updated_at', phrase.updated_at
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Writes any user's evaluations, so only the API (service role) may call it
+REVOKE EXECUTE ON FUNCTION record_pronunciation_attempt FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_pronunciation_attempt TO service_role;
+
+-- Pronunciation score statistics derived from pronunciation_attempts
+-- Every scored attempt counts once, and the 30-day window is by when the attempt was made,
+-- so re-scoring or enhancing an old phrase no longer makes it look recent
+CREATE OR REPLACE FUNCTION get_pronunciation_score_stats(p_user_id VARCHAR)
+RETURNS JSONB AS $$
+DECLARE
+    overall_avg NUMERIC;
+    overall_count INTEGER;
+    recent_avg NUMERIC;
+    recent_count INTEGER;
+    topic_averages JSONB;
+BEGIN
+    SELECT ROUND(AVG(evaluation_score)::NUMERIC, 2), COUNT(evaluation_score)::INTEGER
+    INTO overall_avg, overall_count
+    FROM pronunciation_attempts
+    WHERE user_id = p_user_id
+    AND evaluation_score IS NOT NULL;
+
+    SELECT ROUND(AVG(evaluation_score)::NUMERIC, 2), COUNT(evaluation_score)::INTEGER
+    INTO recent_avg, recent_count
+    FROM pronunciation_attempts
+    WHERE user_id = p_user_id
+    AND evaluation_score IS NOT NULL
+    AND created_at >= NOW() - INTERVAL '30 days';
+
+    SELECT COALESCE(jsonb_agg(topic_stats ORDER BY topic_stats->>'topic'), '[]'::jsonb)
+    INTO topic_averages
+    FROM (
+        SELECT jsonb_build_object(
+            'topic_id', pe.topic_id,
+            'topic', COALESCE(t.name, pe.topic),
+            'average_score', ROUND(AVG(pa.evaluation_score)::NUMERIC, 2),
+            'evaluation_count', COUNT(pa.evaluation_score)
+        ) AS topic_stats
+        FROM pronunciation_attempts pa
+        JOIN pronunciation_evaluations pe ON pe.id = pa.evaluation_id
+        LEFT JOIN topics t ON t.id = pe.topic_id
+        WHERE pa.user_id = p_user_id
+        AND pa.evaluation_score IS NOT NULL
+        GROUP BY pe.topic_id, COALESCE(t.name, pe.topic)
+    ) AS per_topic;
+
+    RETURN jsonb_build_object(
+        'pronunciation_score_avg', COALESCE(overall_avg, 0),
+        'pronunciation_score_avg_30d', COALESCE(recent_avg, 0),
+        'pronunciation_scored_count', COALESCE(overall_count, 0),
+        'pronunciation_scored_count_30d', COALESCE(recent_count, 0),
+        'pronunciation_topic_averages', topic_averages,
+        'pronunciation_stats_updated_at', to_jsonb(NOW())
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Scores now come from attempts; the phrase row only matters for its topic
+DROP TRIGGER IF EXISTS refresh_pronunciation_score_stats_on_change ON pronunciation_evaluations;
+
+CREATE TRIGGER refresh_pronunciation_score_stats_on_topic_change
+    AFTER UPDATE OF topic_id, topic ON pronunciation_evaluations
+    FOR EACH ROW EXECUTE FUNCTION refresh_pronunciation_score_stats_trigger();
+
+-- Deleting a phrase cascades to its attempts, which refreshes the stats from here
+CREATE TRIGGER refresh_pronunciation_score_stats_on_attempt
+    AFTER INSERT OR DELETE OR UPDATE OF evaluation_score ON pronunciation_attempts
+    FOR EACH ROW EXECUTE FUNCTION refresh_pronunciation_score_stats_trigger();
+
+-- Recalculate the stored copy for existing users
+SELECT refresh_pronunciation_score_stats(user_id)
+FROM user_contexts
+WHERE user_id IS NOT NULL;
@@ -0,0 +1,6 @@
+-- Storage bucket for cached TTS audio (used when AUDIO_STORAGE_BACKEND=supabase)
+-- Files are named by content hash and only written by the API's service role,
+-- so the bucket is private and has no policies for other roles.
+INSERT INTO storage.buckets (id, name, public, allowed_mime_types)
+VALUES ('audio', 'audio', false, ARRAY['audio/mpeg'])
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,95 @@
+-- Enhancement state of each phrase: placeholder romaji/translation or a missing
+-- breakdown is filled in by a background job instead of during reads
+ALTER TABLE pronunciation_evaluations
+  ADD COLUMN enhancement_status VARCHAR NOT NULL DEFAULT 'complete'
+    CHECK (enhancement_status IN ('pending', 'processing', 'complete', 'failed'));
+
+-- Create Phrase Enhancement Jobs Table (one job per phrase)
+CREATE TABLE phrase_enhancement_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  evaluation_id UUID NOT NULL UNIQUE REFERENCES pronunciation_evaluations(id) ON DELETE CASCADE,
+  user_id VARCHAR REFERENCES users(user_id) ON DELETE CASCADE,
+  status VARCHAR NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'dead_lettered')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE phrase_enhancement_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are processed by the API's service role; users may see their own
+CREATE POLICY "Users can view own enhancement jobs" ON phrase_enhancement_jobs
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+-- Create indexes for efficient queries
+CREATE INDEX idx_phrase_enhancement_jobs_due ON phrase_enhancement_jobs(status, next_attempt_at);
+CREATE INDEX idx_phrase_enhancement_jobs_user_id ON phrase_enhancement_jobs(user_id);
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_phrase_enhancement_jobs_updated_at BEFORE UPDATE ON phrase_enhancement_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Keep enhancement_status in step with the phrase data
+CREATE OR REPLACE FUNCTION set_phrase_enhancement_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.romaji = 'pronunciation_needed'
+       OR NEW.translation = 'translation_needed'
+       OR NEW.translation_breakdown IS NULL THEN
+        -- A phrase the worker is handling, or has given up on, keeps that status
+        IF NEW.enhancement_status = 'complete' THEN
+            NEW.enhancement_status := 'pending';
+        END IF;
+    ELSE
+        NEW.enhancement_status := 'complete';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_pronunciation_evaluation_enhancement_status
+    BEFORE INSERT OR UPDATE OF romaji, translation, translation_breakdown ON pronunciation_evaluations
+    FOR EACH ROW EXECUTE FUNCTION set_phrase_enhancement_status();
+
+-- Queue a job for every phrase that needs enhancement
+CREATE OR REPLACE FUNCTION enqueue_phrase_enhancement()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.enhancement_status = 'pending' THEN
+        INSERT INTO phrase_enhancement_jobs (evaluation_id, user_id)
+        VALUES (NEW.id, NEW.user_id)
+        ON CONFLICT (evaluation_id) DO UPDATE
+        SET status = 'queued',
+            attempts = 0,
+            last_error = NULL,
+            next_attempt_at = NOW(),
+            completed_at = NULL
+        -- Only a finished job is restarted; queued and in-flight jobs are left alone
+        WHERE phrase_enhancement_jobs.status = 'completed';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enqueue_pronunciation_evaluation_enhancement
+    AFTER INSERT OR UPDATE OF romaji, translation, translation_breakdown ON pronunciation_evaluations
+    FOR EACH ROW EXECUTE FUNCTION enqueue_phrase_enhancement();
+
+-- Backfill: queue every existing phrase that still has placeholder data
+UPDATE pronunciation_evaluations
+SET enhancement_status = 'pending'
+WHERE romaji = 'pronunciation_needed'
+   OR translation = 'translation_needed'
+   OR translation_breakdown IS NULL;
+
+INSERT INTO phrase_enhancement_jobs (evaluation_id, user_id)
+SELECT id, user_id
+FROM pronunciation_evaluations
+WHERE enhancement_status = 'pending'
+ON CONFLICT (evaluation_id) DO NOTHING;
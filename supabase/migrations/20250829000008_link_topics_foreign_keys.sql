@@ -0,0 +1,285 @@
+-- Link pronunciation evaluations, learning sessions and preferred topics to topics(id).
+-- Free-form topic labels are still accepted everywhere; they are resolved to a topic
+-- on write, and labels that match nothing are listed in unmapped_topic_labels.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- The original seed left out 'General Conversation'
+INSERT INTO topics (name, category)
+SELECT 'General Conversation', 'general'
+WHERE NOT EXISTS (SELECT 1 FROM topics WHERE name = 'General Conversation');
+
+-- One root topic per category, so a bare category label ("food", "daily_life") has a topic
+INSERT INTO topics (name, category)
+SELECT roots.name, roots.category
+FROM (VALUES
+  ('Daily Life', 'daily_life'),
+  ('Travel', 'travel'),
+  ('Shopping', 'shopping'),
+  ('Food', 'food'),
+  ('Health', 'health'),
+  ('Professional', 'professional'),
+  ('Education', 'education'),
+  ('Social', 'social'),
+  ('Technology', 'technology'),
+  ('Culture', 'culture')
+) AS roots(name, category)
+WHERE NOT EXISTS (SELECT 1 FROM topics WHERE topics.name = roots.name);
+
+UPDATE topics child
+SET parent_id = root.id
+FROM topics root
+WHERE child.parent_id IS NULL
+AND child.id <> root.id
+AND child.category = root.category
+AND root.parent_id IS NULL
+AND root.name IN (
+  'General Conversation', 'Daily Life', 'Travel', 'Shopping', 'Food', 'Health',
+  'Professional', 'Education', 'Social', 'Technology', 'Culture'
+)
+AND child.name NOT IN (
+  'General Conversation', 'Daily Life', 'Travel', 'Shopping', 'Food', 'Health',
+  'Professional', 'Education', 'Social', 'Technology', 'Culture'
+);
+
+-- "Restaurant & Dining", "restaurant_dining" and "restaurant-dining" all compare equal
+CREATE OR REPLACE FUNCTION normalize_topic_label(p_label TEXT)
+RETURNS TEXT AS $$
+    SELECT NULLIF(TRIM(REGEXP_REPLACE(LOWER(COALESCE(p_label, '')), '[^a-z0-9]+', ' ', 'g')), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Resolve a topic id or free-form label to a topic: id, then exact name, then category
+-- (its root topic), then the closest name by trigram similarity. NULL when nothing fits.
+CREATE OR REPLACE FUNCTION resolve_topic_id(p_ref TEXT)
+RETURNS UUID AS $$
+DECLARE
+    normalized TEXT := normalize_topic_label(p_ref);
+    match_id UUID;
+BEGIN
+    IF normalized IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF TRIM(p_ref) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+        SELECT id INTO match_id FROM topics WHERE id = TRIM(p_ref)::UUID;
+        RETURN match_id;
+    END IF;
+
+    SELECT id INTO match_id
+    FROM topics
+    WHERE is_active AND normalize_topic_label(name) = normalized
+    ORDER BY created_at
+    LIMIT 1;
+    IF match_id IS NOT NULL THEN
+        RETURN match_id;
+    END IF;
+
+    SELECT id INTO match_id
+    FROM topics
+    WHERE is_active AND parent_id IS NULL AND normalize_topic_label(category) = normalized
+    ORDER BY created_at
+    LIMIT 1;
+    IF match_id IS NOT NULL THEN
+        RETURN match_id;
+    END IF;
+
+    SELECT id INTO match_id
+    FROM topics
+    WHERE is_active AND similarity(normalize_topic_label(name), normalized) >= 0.4
+    ORDER BY similarity(normalize_topic_label(name), normalized) DESC, created_at
+    LIMIT 1;
+
+    RETURN match_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Batch form used by the API; returns one row per input reference
+CREATE OR REPLACE FUNCTION resolve_topic_refs(p_refs TEXT[])
+RETURNS TABLE (ref TEXT, topic_id UUID, name VARCHAR, category VARCHAR) AS $$
+    SELECT refs.ref, t.id, t.name, t.category
+    FROM unnest(p_refs) AS refs(ref)
+    LEFT JOIN topics t ON t.id = resolve_topic_id(refs.ref);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION general_topic_id()
+RETURNS UUID AS $$
+    SELECT id FROM topics WHERE name = 'General Conversation' ORDER BY created_at LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Pronunciation evaluations: topic_id follows the topic label unless set explicitly
+ALTER TABLE pronunciation_evaluations
+  DROP CONSTRAINT IF EXISTS pronunciation_evaluations_topic_id_fkey,
+  ADD CONSTRAINT pronunciation_evaluations_topic_id_fkey
+    FOREIGN KEY (topic_id) REFERENCES topics(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION set_pronunciation_evaluation_topic_id()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.topic IS DISTINCT FROM OLD.topic THEN
+        IF TG_OP = 'INSERT' AND NEW.topic_id IS NOT NULL THEN
+            RETURN NEW;
+        END IF;
+        IF TG_OP = 'UPDATE' AND NEW.topic_id IS DISTINCT FROM OLD.topic_id THEN
+            RETURN NEW;
+        END IF;
+        NEW.topic_id := COALESCE(resolve_topic_id(NEW.topic), general_topic_id());
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_pronunciation_evaluation_topic_id
+    BEFORE INSERT OR UPDATE OF topic, topic_id ON pronunciation_evaluations
+    FOR EACH ROW EXECUTE FUNCTION set_pronunciation_evaluation_topic_id();
+
+-- Redo the earlier category-only mapping with the fuzzy resolver
+UPDATE pronunciation_evaluations
+SET topic_id = COALESCE(resolve_topic_id(topic), general_topic_id());
+
+-- Learning sessions: one row per topic covered
+CREATE TABLE learning_session_topics (
+  session_id UUID NOT NULL REFERENCES learning_sessions(id) ON DELETE CASCADE,
+  topic_id UUID NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+  user_id VARCHAR REFERENCES users(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (session_id, topic_id)
+);
+
+-- User preferences: preferred_topics, in the order the user listed them
+CREATE TABLE user_preferred_topics (
+  user_id VARCHAR NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  topic_id UUID NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (user_id, topic_id)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE learning_session_topics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_preferred_topics ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by triggers; users and agents only read them
+CREATE POLICY "Users can view own session topics" ON learning_session_topics
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Agents can read session topics" ON learning_session_topics
+  FOR SELECT USING (is_authenticated_agent());
+
+CREATE POLICY "Users can view own preferred topics" ON user_preferred_topics
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Agents can read preferred topics" ON user_preferred_topics
+  FOR SELECT USING (is_authenticated_agent());
+
+-- Create indexes for efficient queries
+CREATE INDEX idx_learning_session_topics_topic ON learning_session_topics(topic_id);
+CREATE INDEX idx_learning_session_topics_user ON learning_session_topics(user_id);
+CREATE INDEX idx_user_preferred_topics_topic ON user_preferred_topics(topic_id);
+
+CREATE OR REPLACE FUNCTION sync_learning_session_topics()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM learning_session_topics WHERE session_id = NEW.id;
+
+    INSERT INTO learning_session_topics (session_id, topic_id, user_id)
+    SELECT DISTINCT NEW.id, resolve_topic_id(label), NEW.user_id
+    FROM unnest(COALESCE(NEW.topics_covered, '{}')) AS label
+    WHERE resolve_topic_id(label) IS NOT NULL;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_learning_session_topics
+    AFTER INSERT OR UPDATE OF topics_covered ON learning_sessions
+    FOR EACH ROW EXECUTE FUNCTION sync_learning_session_topics();
+
+CREATE OR REPLACE FUNCTION sync_user_preferred_topics()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.preferences->'preferred_topics' IS NOT DISTINCT FROM OLD.preferences->'preferred_topics' THEN
+        RETURN NEW;
+    END IF;
+
+    DELETE FROM user_preferred_topics WHERE user_id = NEW.user_id;
+
+    INSERT INTO user_preferred_topics (user_id, topic_id, position)
+    SELECT NEW.user_id, resolved.topic_id, MIN(resolved.position)
+    FROM (
+        SELECT resolve_topic_id(labels.label) AS topic_id, labels.position::INTEGER - 1 AS position
+        FROM jsonb_array_elements_text(
+            CASE WHEN jsonb_typeof(NEW.preferences->'preferred_topics') = 'array'
+                THEN NEW.preferences->'preferred_topics'
+                ELSE '[]'::jsonb
+            END
+        ) WITH ORDINALITY AS labels(label, position)
+    ) AS resolved
+    WHERE resolved.topic_id IS NOT NULL
+    GROUP BY resolved.topic_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_user_preferred_topics
+    AFTER INSERT OR UPDATE OF preferences ON user_contexts
+    FOR EACH ROW EXECUTE FUNCTION sync_user_preferred_topics();
+
+-- Backfill both link tables from the existing labels
+INSERT INTO learning_session_topics (session_id, topic_id, user_id)
+SELECT DISTINCT ls.id, resolve_topic_id(label), ls.user_id
+FROM learning_sessions ls, unnest(COALESCE(ls.topics_covered, '{}')) AS label
+WHERE resolve_topic_id(label) IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO user_preferred_topics (user_id, topic_id, position)
+SELECT uc.user_id, resolve_topic_id(labels.label), MIN(labels.position::INTEGER - 1)
+FROM user_contexts uc,
+     jsonb_array_elements_text(
+         CASE WHEN jsonb_typeof(uc.preferences->'preferred_topics') = 'array'
+             THEN uc.preferences->'preferred_topics'
+             ELSE '[]'::jsonb
+         END
+     ) WITH ORDINALITY AS labels(label, position)
+WHERE uc.user_id IS NOT NULL AND resolve_topic_id(labels.label) IS NOT NULL
+GROUP BY uc.user_id, resolve_topic_id(labels.label)
+ON CONFLICT DO NOTHING;
+
+-- Labels in use that match no topic; candidates for new topics or better spelling by agents
+CREATE VIEW unmapped_topic_labels AS
+SELECT source, label, COUNT(*) AS occurrences, MAX(last_seen) AS last_seen
+FROM (
+    SELECT 'pronunciation_evaluations' AS source, topic AS label, updated_at AS last_seen
+    FROM pronunciation_evaluations
+    WHERE topic IS NOT NULL
+    UNION ALL
+    SELECT 'learning_sessions', label, ls.created_at
+    FROM learning_sessions ls, unnest(COALESCE(ls.topics_covered, '{}')) AS label
+    UNION ALL
+    SELECT 'preferred_topics', label, uc.updated_at
+    FROM user_contexts uc, jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(uc.preferences->'preferred_topics') = 'array'
+            THEN uc.preferences->'preferred_topics'
+            ELSE '[]'::jsonb
+        END
+    ) AS label
+) AS labels
+WHERE resolve_topic_id(label) IS NULL
+GROUP BY source, label;
+
+-- The report spans every user, so only the service role may read it
+REVOKE ALL ON unmapped_topic_labels FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON unmapped_topic_labels TO service_role;
+
+-- Report what the backfill could not map
+DO $$
+DECLARE
+    report RECORD;
+    unmapped_total INTEGER := 0;
+BEGIN
+    FOR report IN SELECT * FROM unmapped_topic_labels ORDER BY source, occurrences DESC LOOP
+        RAISE NOTICE 'Unmapped topic label in %: "%" (% occurrences)', report.source, report.label, report.occurrences;
+        unmapped_total := unmapped_total + 1;
+    END LOOP;
+    RAISE NOTICE '% unmapped topic labels; see the unmapped_topic_labels view', unmapped_total;
+END;
+$$;
@@ -0,0 +1,64 @@
+-- Keep letters and digits in any script when normalizing topic labels, so Japanese names
+-- such as 敬語 no longer normalize to NULL. NFKC folds full-width and half-width forms
+-- together. Matches normalizeTopicLabel() in the API.
+CREATE OR REPLACE FUNCTION normalize_topic_label(p_label TEXT)
+RETURNS TEXT AS $$
+    SELECT NULLIF(TRIM(REGEXP_REPLACE(LOWER(NORMALIZE(COALESCE(p_label, ''), NFKC)), '[^[:alnum:]]+', ' ', 'g')), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- User-suggested topics are stored inactive until a moderator approves them
+ALTER TABLE topics
+  ADD COLUMN suggested_by VARCHAR REFERENCES users(user_id) ON DELETE SET NULL,
+  ADD COLUMN suggestion_reason TEXT,
+  ADD COLUMN approved_at TIMESTAMP;
+
+CREATE INDEX idx_topics_suggested_by ON topics(suggested_by) WHERE suggested_by IS NOT NULL;
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_topics_updated_at BEFORE UPDATE ON topics
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Suggestions are private to the suggesting user until approved
+DROP POLICY IF EXISTS "Everyone can view topics" ON topics;
+CREATE POLICY "Everyone can view active topics" ON topics
+  FOR SELECT USING (is_active OR auth.uid()::text = suggested_by);
+
+-- Users may only add inactive topics in their own name
+DROP POLICY IF EXISTS "Authenticated users can suggest topics" ON topics;
+CREATE POLICY "Authenticated users can suggest topics" ON topics
+  FOR INSERT WITH CHECK (
+    auth.role() = 'authenticated'
+    AND is_active = false
+    AND suggested_by = auth.uid()::text
+  );
+
+-- Search active topics by name or category, best matches first
+CREATE OR REPLACE FUNCTION search_topics(
+    p_query TEXT,
+    p_category VARCHAR DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    category VARCHAR,
+    parent_id UUID,
+    score REAL
+) AS $$
+    SELECT t.id, t.name, t.category, t.parent_id, matches.score
+    FROM topics t
+    CROSS JOIN LATERAL (
+        SELECT GREATEST(
+            -- Substring hits rank above fuzzy ones
+            CASE WHEN normalize_topic_label(t.name) LIKE '%' || normalize_topic_label(p_query) || '%' THEN 1.0 ELSE 0 END,
+            CASE WHEN normalize_topic_label(t.category) = normalize_topic_label(p_query) THEN 0.9 ELSE 0 END,
+            word_similarity(normalize_topic_label(p_query), normalize_topic_label(t.name))
+        )::REAL AS score
+    ) AS matches
+    WHERE t.is_active
+    AND normalize_topic_label(p_query) IS NOT NULL
+    AND (p_category IS NULL OR t.category = p_category)
+    AND matches.score >= 0.3
+    ORDER BY matches.score DESC, t.name
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,27 @@
+-- Insertion order for conversation messages. Messages stored in one request share
+-- created_at, so transcripts and cursor pagination order by seq instead.
+ALTER TABLE conversations
+  ADD COLUMN seq BIGINT GENERATED BY DEFAULT AS IDENTITY;
+
+-- Number existing messages in the order they were stored
+UPDATE conversations
+SET seq = ordered.position
+FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY created_at, id) AS position
+    FROM conversations
+) AS ordered
+WHERE conversations.id = ordered.id;
+
+SELECT setval(
+    pg_get_serial_sequence('conversations', 'seq'),
+    COALESCE((SELECT MAX(seq) FROM conversations), 0) + 1,
+    false
+);
+
+ALTER TABLE conversations
+  ALTER COLUMN seq SET NOT NULL,
+  ADD CONSTRAINT conversations_seq_key UNIQUE (seq);
+
+-- Create indexes for transcript and history queries
+CREATE INDEX idx_conversations_user_seq ON conversations(user_id, seq DESC);
+CREATE INDEX idx_conversations_session_seq ON conversations(session_id, seq);
@@ -0,0 +1,11 @@
+-- Client-assigned message identity, so retried uploads do not duplicate messages
+ALTER TABLE conversations
+  ADD COLUMN client_message_id VARCHAR(128),
+  ADD COLUMN sequence_number INTEGER CHECK (sequence_number >= 0);
+
+-- Messages without a client id (older clients) are never treated as duplicates
+ALTER TABLE conversations
+  ADD CONSTRAINT conversations_client_message_key UNIQUE (user_id, session_id, client_message_id);
+
+-- Create index for transcript ordering
+CREATE INDEX idx_conversations_session_sequence ON conversations(session_id, sequence_number, seq);
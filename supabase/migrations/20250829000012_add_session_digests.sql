@@ -0,0 +1,44 @@
+-- Short per-session summaries, merged into the user's rolling summary instead of rebuilding it.
+-- A digest is queued (NULL) when a session is recorded and written when the summary is next read.
+CREATE TABLE session_digests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR REFERENCES users(user_id) ON DELETE CASCADE,
+  session_id VARCHAR NOT NULL,
+  digest TEXT,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  merged_at TIMESTAMP,
+  -- Set while a summary read is merging the digest, so concurrent reads never merge it twice
+  merge_claimed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(user_id, session_id)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE session_digests ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS Policies for session_digests table
+CREATE POLICY "Users can view own session digests" ON session_digests
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can insert own session digests" ON session_digests
+  FOR INSERT WITH CHECK (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can update own session digests" ON session_digests
+  FOR UPDATE USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Agents can write all session digests" ON session_digests
+  FOR ALL USING (
+    current_setting('request.jwt.claims', true)::json->>'agent_role' = 'service_account'
+  );
+
+-- Create index for finding digests not yet merged
+CREATE INDEX idx_session_digests_unmerged ON session_digests(user_id, created_at) WHERE merged_at IS NULL;
+
+-- How the stored summary was produced; full rebuilds reset digest_count
+ALTER TABLE user_summaries
+  ADD COLUMN summary_mode VARCHAR NOT NULL DEFAULT 'full' CHECK (summary_mode IN ('full', 'incremental')),
+  ADD COLUMN digest_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_full_rebuild_at TIMESTAMP;
+
+UPDATE user_summaries SET last_full_rebuild_at = generated_at;
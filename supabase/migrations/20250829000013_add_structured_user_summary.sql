@@ -0,0 +1,5 @@
+-- Structured summary fields; compact_summary is rendered from them
+ALTER TABLE user_summaries
+  ADD COLUMN structured_summary JSONB;
+
+-- Summaries from before this column carry no structure and are rebuilt on their next read